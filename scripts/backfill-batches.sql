@@ -0,0 +1,42 @@
+-- Preenche contadores, datas e status dos lotes criados por db:prepare:batches,
+-- a partir das faturas de cada lote. O resultado do recebimento de cada arquivo
+-- (coluna files) não existia e fica vazio.
+-- Idempotente: só atualiza lotes ainda sem receivedAt. Executado pelo deploy
+-- depois do prisma db push (npm run db:backfill:batches)
+
+WITH counts AS (
+  SELECT
+    "batchId",
+    min("createdAt") AS "firstBillAt",
+    max("createdAt") AS "lastBillAt",
+    max("updatedAt") AS "lastUpdateAt",
+    count(DISTINCT "fileHash") AS files,
+    count(*) AS bills,
+    count(*) FILTER (WHERE "processingStatus" IN ('PENDING', 'PROCESSING')) AS queued,
+    count(*) FILTER (WHERE "processingStatus" IN ('COMPLETED', 'NEEDS_REVIEW')) AS completed,
+    count(*) FILTER (WHERE "processingStatus" = 'FAILED') AS failed,
+    count(*) FILTER (WHERE "processingStatus" = 'CANCELLED') AS cancelled
+  FROM "energy_bills"
+  WHERE "batchId" IS NOT NULL
+  GROUP BY "batchId"
+)
+UPDATE "batches" AS batch
+SET
+  "createdAt" = counts."firstBillAt",
+  "startedAt" = counts."firstBillAt",
+  "receivedAt" = counts."lastBillAt",
+  "fileCount" = counts.files,
+  "billCount" = counts.bills,
+  "queuedCount" = counts.queued,
+  "completedCount" = counts.completed,
+  "failedCount" = counts.failed,
+  "cancelledCount" = counts.cancelled,
+  "status" = (CASE
+    WHEN counts.queued > 0 THEN 'PROCESSING'
+    WHEN counts.failed + counts.cancelled > 0 THEN 'COMPLETED_WITH_ERRORS'
+    ELSE 'COMPLETED'
+  END)::"batch_status",
+  "finishedAt" = CASE WHEN counts.queued > 0 THEN NULL ELSE counts."lastUpdateAt" END
+FROM counts
+WHERE batch."id" = counts."batchId"
+  AND batch."receivedAt" IS NULL;
@@ -0,0 +1,46 @@
+-- Preenche referenceYear/referenceMonthNumber a partir de referenceMonth (ex: SET/2024, set/24)
+-- nas faturas e no histórico de consumo gravados antes dessas colunas existirem.
+-- Idempotente: só atualiza linhas ainda sem ano de referência. Executado pelo deploy
+-- depois do prisma db push (npm run db:backfill:reference-period)
+
+WITH parsed AS (
+  SELECT
+    id,
+    regexp_match(upper(trim("referenceMonth")), '^([A-Z]{3})\s*/\s*(\d{4}|\d{2})$') AS parts
+  FROM "energy_bills"
+  WHERE "referenceYear" IS NULL
+)
+UPDATE "energy_bills" AS bill
+SET
+  "referenceYear" = CASE WHEN length(parsed.parts[2]) = 2 THEN 2000 + parsed.parts[2]::int ELSE parsed.parts[2]::int END,
+  "referenceMonthNumber" = array_position(
+    ARRAY['JAN', 'FEV', 'MAR', 'ABR', 'MAI', 'JUN', 'JUL', 'AGO', 'SET', 'OUT', 'NOV', 'DEZ'],
+    parsed.parts[1]
+  )
+FROM parsed
+WHERE bill.id = parsed.id
+  AND array_position(
+    ARRAY['JAN', 'FEV', 'MAR', 'ABR', 'MAI', 'JUN', 'JUL', 'AGO', 'SET', 'OUT', 'NOV', 'DEZ'],
+    parsed.parts[1]
+  ) IS NOT NULL;
+
+WITH parsed AS (
+  SELECT
+    id,
+    regexp_match(upper(trim("referenceMonth")), '^([A-Z]{3})\s*/\s*(\d{4}|\d{2})$') AS parts
+  FROM "consumption_history"
+  WHERE "referenceYear" IS NULL
+)
+UPDATE "consumption_history" AS history
+SET
+  "referenceYear" = CASE WHEN length(parsed.parts[2]) = 2 THEN 2000 + parsed.parts[2]::int ELSE parsed.parts[2]::int END,
+  "referenceMonthNumber" = array_position(
+    ARRAY['JAN', 'FEV', 'MAR', 'ABR', 'MAI', 'JUN', 'JUL', 'AGO', 'SET', 'OUT', 'NOV', 'DEZ'],
+    parsed.parts[1]
+  )
+FROM parsed
+WHERE history.id = parsed.id
+  AND array_position(
+    ARRAY['JAN', 'FEV', 'MAR', 'ABR', 'MAI', 'JUN', 'JUL', 'AGO', 'SET', 'OUT', 'NOV', 'DEZ'],
+    parsed.parts[1]
+  ) IS NOT NULL;
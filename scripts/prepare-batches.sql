@@ -0,0 +1,19 @@
+-- Lotes enviados antes da tabela batches existir: as faturas guardavam apenas o
+-- batchId. Cria um registro mínimo para cada lote para que o prisma db push
+-- consiga adicionar a chave estrangeira de energy_bills.batchId; o push completa
+-- as colunas e db:backfill:batches preenche contadores e datas.
+-- Idempotente. Executado pelo deploy antes do prisma db push (npm run db:prepare:batches)
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'energy_bills' AND column_name = 'batchId'
+  ) THEN
+    CREATE TABLE IF NOT EXISTS "batches" ("id" TEXT PRIMARY KEY);
+
+    INSERT INTO "batches" ("id")
+    SELECT DISTINCT "batchId" FROM "energy_bills" WHERE "batchId" IS NOT NULL
+    ON CONFLICT ("id") DO NOTHING;
+  END IF;
+END $$;
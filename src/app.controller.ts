@@ -33,9 +33,25 @@ export class AppController {
     schema: {
       type: 'object',
       properties: {
-        status: { type: 'string', example: 'ok' },
+        status: { type: 'string', enum: ['ok', 'degraded'], example: 'ok' },
         uptime: { type: 'number', example: 12345 },
-        timestamp: { type: 'string', example: '2024-12-19T10:30:00.000Z' }
+        timestamp: { type: 'string', example: '2024-12-19T10:30:00.000Z' },
+        llm: {
+          type: 'object',
+          properties: {
+            provider: { type: 'string', example: 'openai' },
+            model: { type: 'string', example: 'gpt-4o' },
+            circuitBreaker: {
+              type: 'object',
+              properties: {
+                state: { type: 'string', enum: ['CLOSED', 'OPEN', 'HALF_OPEN'], example: 'CLOSED' },
+                consecutiveFailures: { type: 'number', example: 0 },
+                openedAt: { type: 'string', nullable: true, example: null },
+                retryAt: { type: 'string', nullable: true, example: null }
+              }
+            }
+          }
+        }
       }
     }
   })
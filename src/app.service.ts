@@ -1,7 +1,11 @@
 import { Injectable } from '@nestjs/common';
+import { LlmService } from './modules/llm/llm.service';
+import { CircuitState } from './modules/llm/resilience/circuit-breaker';
 
 @Injectable()
 export class AppService {
+  constructor(private readonly llmService: LlmService) {}
+
   getHello() {
     return {
       message: 'Lumi Energy Bills API is running!',
@@ -11,10 +15,13 @@ export class AppService {
   }
 
   getHealth() {
+    const llm = this.llmService.getProviderStatus();
     return {
-      status: 'ok',
+      // Circuito aberto: a API responde, mas as faturas ficam na fila
+      status: llm.circuitBreaker.state === CircuitState.OPEN ? 'degraded' : 'ok',
       uptime: process.uptime(),
       timestamp: new Date().toISOString(),
+      llm,
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,239 @@
+import { NestFactory } from '@nestjs/core';
+import { readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { EvaluationModule } from './modules/llm/evaluation/evaluation.module';
+import { ExtractionEvaluationService } from './modules/llm/evaluation/extraction-evaluation.service';
+import {
+  EvaluationDiff,
+  EvaluationReport,
+  compareReports,
+} from './modules/llm/evaluation/evaluation-metrics';
+
+// Avaliação da extração sobre um corpus de PDFs com gabarito.
+//
+//   npm run eval:extraction -- --fixtures test/fixtures/bills
+//   npm run eval:extraction -- --record --source openai      (grava as respostas)
+//   npm run eval:extraction -- --output v2.json --baseline v1.json
+//   npm run eval:extraction -- --compare v1.json v2.json
+//
+// Por padrão usa o provedor recorded em modo replay (sem rede), com as
+// respostas gravadas em <fixtures>/recordings
+const DEFAULT_FIXTURES_DIR = 'test/fixtures/bills';
+const DEFAULT_TOLERANCE = 0.01;
+
+interface CliOptions {
+  fixturesDir: string;
+  provider: string;
+  recordingsDir?: string;
+  record: boolean;
+  source?: string;
+  tolerance: number;
+  output?: string;
+  baseline?: string;
+  compare?: [string, string];
+  failOnRegression: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    fixturesDir: DEFAULT_FIXTURES_DIR,
+    provider: 'recorded',
+    record: false,
+    tolerance: DEFAULT_TOLERANCE,
+    failOnRegression: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const value = () => {
+      if (argv[i + 1] === undefined) {
+        throw new Error(`Valor ausente para ${argv[i]}`);
+      }
+      return argv[++i];
+    };
+    switch (argv[i]) {
+      case '--fixtures':
+        options.fixturesDir = value();
+        break;
+      case '--provider':
+        options.provider = value();
+        break;
+      case '--recordings':
+        options.recordingsDir = value();
+        break;
+      case '--record':
+        options.record = true;
+        break;
+      case '--source':
+        options.source = value();
+        break;
+      case '--tolerance':
+        options.tolerance = Number(value());
+        break;
+      case '--output':
+        options.output = value();
+        break;
+      case '--baseline':
+        options.baseline = value();
+        break;
+      case '--compare':
+        options.compare = [value(), value()];
+        break;
+      case '--fail-on-regression':
+        options.failOnRegression = true;
+        break;
+      default:
+        throw new Error(`Opção desconhecida: ${argv[i]}`);
+    }
+  }
+
+  if (Number.isNaN(options.tolerance) || options.tolerance < 0) {
+    throw new Error('--tolerance deve ser um número maior ou igual a zero');
+  }
+  return options;
+}
+
+async function runEvaluation(options: CliOptions): Promise<EvaluationReport> {
+  // Variáveis lidas pelo ConfigService; têm precedência sobre o .env
+  process.env.LLM_PROVIDER = options.provider;
+  process.env.EXTRACTION_CACHE_ENABLED = 'false';
+  if (options.provider === 'recorded') {
+    process.env.RECORDED_LLM_DIR =
+      options.recordingsDir || join(options.fixturesDir, 'recordings');
+    process.env.RECORDED_LLM_MODE = options.record ? 'record' : 'replay';
+    if (options.source) {
+      process.env.RECORDED_LLM_SOURCE = options.source;
+    }
+  }
+
+  const app = await NestFactory.createApplicationContext(EvaluationModule, {
+    logger: ['error', 'warn'],
+  });
+  try {
+    return await app
+      .get(ExtractionEvaluationService)
+      .evaluate(options.fixturesDir, options.tolerance);
+  } finally {
+    await app.close();
+  }
+}
+
+function formatRatio(value: number | null): string {
+  return value === null ? '-' : `${(value * 100).toFixed(1)}%`;
+}
+
+function formatDelta(value: number | null): string {
+  if (value === null) {
+    return '-';
+  }
+  const points = (value * 100).toFixed(1);
+  return value > 0 ? `+${points}` : points;
+}
+
+function printReport(report: EvaluationReport): void {
+  console.log(
+    `\nPrompt ${report.promptVersion} | provedor ${report.provider} (${report.model}) | ` +
+      `${report.fixtures.length} fixture(s), ${report.failures} falha(s) | tolerância ${report.tolerance}`,
+  );
+  console.table(
+    report.fields.map(score => ({
+      campo: score.field,
+      avaliados: score.evaluated,
+      exato: formatRatio(score.exactAccuracy),
+      tolerancia: formatRatio(score.toleranceAccuracy),
+    })),
+  );
+  console.table(
+    report.optionalItems.map(score => ({
+      item: score.item,
+      VP: score.truePositives,
+      FP: score.falsePositives,
+      FN: score.falseNegatives,
+      precisao: formatRatio(score.precision),
+      recall: formatRatio(score.recall),
+    })),
+  );
+  for (const fixture of report.fixtures.filter(result => result.errorCode)) {
+    console.log(
+      `  ${fixture.fixture}: ${fixture.errorCode} - ${fixture.errorMessage}`,
+    );
+  }
+  console.log(
+    `Tokens: ${report.totals.totalTokens} | custo: US$ ${report.totals.costUsd.toFixed(4)} | ` +
+      `latência média: ${report.totals.averageLatencyMs ?? '-'}ms`,
+  );
+}
+
+function printDiff(diff: EvaluationDiff): void {
+  const label = (meta: EvaluationDiff['baseline']) =>
+    `${meta.promptVersion} / ${meta.provider} (${meta.model})`;
+  console.log(
+    `\nBaseline: ${label(diff.baseline)}\nCandidato: ${label(diff.candidate)}`,
+  );
+  console.table(
+    diff.fields.map(field => ({
+      campo: field.field,
+      exato: formatDelta(field.exactAccuracyDelta),
+      tolerancia: formatDelta(field.toleranceAccuracyDelta),
+    })),
+  );
+  console.table(
+    diff.optionalItems.map(item => ({
+      item: item.item,
+      precisao: formatDelta(item.precisionDelta),
+      recall: formatDelta(item.recallDelta),
+    })),
+  );
+  for (const change of diff.regressions) {
+    console.log(
+      `  REGRESSÃO ${change.fixture} ${change.field}: ${JSON.stringify(change.baseline)} -> ${JSON.stringify(change.candidate)}`,
+    );
+  }
+  for (const change of diff.improvements) {
+    console.log(
+      `  MELHORIA ${change.fixture} ${change.field}: ${JSON.stringify(change.baseline)} -> ${JSON.stringify(change.candidate)}`,
+    );
+  }
+  if (diff.missingFixtures.length) {
+    console.log(
+      `  Fixtures em apenas um dos relatórios: ${diff.missingFixtures.join(', ')}`,
+    );
+  }
+}
+
+async function readReport(path: string): Promise<EvaluationReport> {
+  return JSON.parse(await readFile(path, 'utf-8'));
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+
+  let diff: EvaluationDiff | null = null;
+  if (options.compare) {
+    const [baseline, candidate] = await Promise.all(
+      options.compare.map(readReport),
+    );
+    diff = compareReports(baseline, candidate);
+  } else {
+    const report = await runEvaluation(options);
+    printReport(report);
+    if (options.output) {
+      await writeFile(options.output, JSON.stringify(report, null, 2));
+      console.log(`Relatório salvo em ${options.output}`);
+    }
+    if (options.baseline) {
+      diff = compareReports(await readReport(options.baseline), report);
+    }
+  }
+
+  if (diff) {
+    printDiff(diff);
+    if (options.failOnRegression && diff.regressions.length) {
+      process.exitCode = 1;
+    }
+  }
+}
+
+main().catch(error => {
+  console.error(`Falha na avaliação: ${error.message}`);
+  process.exitCode = 1;
+});
@@ -43,6 +43,7 @@ async function bootstrap() {
     .addTag('bills', 'Gerenciamento e processamento de faturas de energia elétrica')
     .addTag('dashboard', 'Dados consolidados, métricas e análises para dashboard')
     .addTag('auth', 'Autenticação e autorização (se implementado)')
+    .addBearerAuth()
     .setContact(
       'Equipe Lumi',
       'https://lumi.com.br',
@@ -68,7 +69,7 @@ async function bootstrap() {
   console.log(`📚 Documentação Swagger: http://localhost:${port}/api-docs`);
   console.log(`⚙️  Ambiente: ${environment}`);
   console.log(`🗃️  Banco de Dados: ${process.env.DATABASE_URL ? 'Conectado' : 'Não configurado'}`);
-  console.log(`🤖 OpenAI: ${process.env.OPENAI_API_KEY ? 'Configurado' : 'Não configurado'}`);
+  console.log(`🤖 Provedor LLM: ${process.env.LLM_PROVIDER || 'openai'}`);
   console.log('='.repeat(60));
 }
 
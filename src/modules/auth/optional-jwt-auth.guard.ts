@@ -0,0 +1,17 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+// Identifica o usuário quando há token JWT, sem exigi-lo. Token inválido ou
+// expirado continua sendo recusado
+@Injectable()
+export class OptionalJwtAuthGuard extends AuthGuard('jwt') {
+  handleRequest<TUser = any>(error: any, user: any, info: any): TUser {
+    if (user) {
+      return user;
+    }
+    if (error || (info && info.message !== 'No auth token')) {
+      throw error || new UnauthorizedException();
+    }
+    return null;
+  }
+}
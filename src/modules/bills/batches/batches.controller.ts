@@ -0,0 +1,214 @@
+import { Controller, Get, HttpCode, Param, Post, Query } from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { BillsService } from '../bills.service';
+import { BatchesService } from './batches.service';
+import {
+  BatchDetailDto,
+  BatchListResponseDto,
+  BatchRetryDto,
+  BatchStatus,
+} from '../dto/batches.dto';
+
+const BATCH_SUMMARY_SCHEMA = {
+  id: { type: 'string', example: 'clm8x2k1q0000bt3fz9w4r7d2' },
+  status: {
+    type: 'string',
+    enum: Object.values(BatchStatus),
+    example: 'COMPLETED_WITH_ERRORS',
+  },
+  uploadedBy: { type: 'string', nullable: true, example: 'operacoes' },
+  uploaderIp: { type: 'string', nullable: true, example: '10.0.0.12' },
+  fileCount: { type: 'number', example: 200 },
+  rejectedFileCount: {
+    type: 'number',
+    example: 1,
+    description: 'Arquivos recusados no recebimento',
+  },
+  billCount: { type: 'number', example: 203 },
+  queuedCount: {
+    type: 'number',
+    example: 0,
+    description: 'Faturas PENDING ou PROCESSING',
+  },
+  completedCount: {
+    type: 'number',
+    example: 199,
+    description: 'Faturas COMPLETED ou NEEDS_REVIEW',
+  },
+  failedCount: { type: 'number', example: 4 },
+  cancelledCount: { type: 'number', example: 0 },
+  startedAt: { type: 'string', example: '2024-10-31T18:00:00.000Z' },
+  receivedAt: {
+    type: 'string',
+    nullable: true,
+    example: '2024-10-31T18:01:10.000Z',
+  },
+  finishedAt: {
+    type: 'string',
+    nullable: true,
+    example: '2024-10-31T18:24:35.000Z',
+  },
+};
+
+@ApiTags('batches')
+@Controller('batches')
+export class BatchesController {
+  constructor(
+    private readonly batchesService: BatchesService,
+    private readonly billsService: BillsService,
+  ) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Listar lotes de upload',
+    description:
+      'Retorna os uploads em lote, do mais recente para o mais antigo, com contadores de faturas na fila, concluídas, com falha e canceladas.',
+  })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: BatchStatus,
+    description: 'Filtrar por status do lote',
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Página (padrão: 1)',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Itens por página (padrão: 20)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Lista de lotes',
+    schema: {
+      type: 'object',
+      properties: {
+        batches: {
+          type: 'array',
+          items: { type: 'object', properties: BATCH_SUMMARY_SCHEMA },
+        },
+        total: { type: 'number', example: 12 },
+        page: { type: 'number', example: 1 },
+        limit: { type: 'number', example: 20 },
+        totalPages: { type: 'number', example: 1 },
+      },
+    },
+  })
+  async listBatches(
+    @Query('status') status?: BatchStatus,
+    @Query('page') pageRaw?: string,
+    @Query('limit') limitRaw?: string,
+  ): Promise<BatchListResponseDto> {
+    const page = Number(pageRaw) > 0 ? Number(pageRaw) : 1;
+    const limit = Number(limitRaw) > 0 ? Number(limitRaw) : 20;
+    const filter = Object.values(BatchStatus).includes(status)
+      ? status
+      : undefined;
+    return this.batchesService.list(page, limit, filter);
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Consultar lote',
+    description:
+      'Retorna contadores, datas, quem enviou, o resultado do recebimento de cada arquivo (inclusive os recusados) e o status de cada fatura do lote.',
+  })
+  @ApiParam({ name: 'id', description: 'ID do lote' })
+  @ApiResponse({
+    status: 200,
+    description: 'Lote encontrado',
+    schema: {
+      type: 'object',
+      properties: {
+        ...BATCH_SUMMARY_SCHEMA,
+        files: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              fileName: { type: 'string', example: 'fatura_setembro.pdf' },
+              success: { type: 'boolean', example: false },
+              billIds: { type: 'array', items: { type: 'string' } },
+              error: {
+                type: 'string',
+                example: 'Esta fatura já foi processada anteriormente',
+              },
+            },
+          },
+        },
+        bills: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', example: 'clkj1234567890' },
+              originalFileName: {
+                type: 'string',
+                example: 'fatura_setembro.pdf',
+              },
+              processingStatus: { type: 'string', example: 'FAILED' },
+              errorMessage: {
+                type: 'string',
+                nullable: true,
+                example: 'Tempo limite excedido',
+              },
+              pageStart: { type: 'number', nullable: true, example: 1 },
+              pageEnd: { type: 'number', nullable: true, example: 2 },
+              updatedAt: {
+                type: 'string',
+                example: '2024-10-31T18:20:00.000Z',
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Lote não encontrado' })
+  async getBatch(@Param('id') id: string): Promise<BatchDetailDto> {
+    return this.batchesService.findOne(id);
+  }
+
+  @Post(':id/retry-failed')
+  @HttpCode(202)
+  @ApiOperation({
+    summary: 'Reprocessar faturas com falha do lote',
+    description:
+      'Devolve à fila de processamento as faturas do lote com status FAILED, com as tentativas zeradas. Arquivos recusados no recebimento não são reenviados.',
+  })
+  @ApiParam({ name: 'id', description: 'ID do lote' })
+  @ApiResponse({
+    status: 202,
+    description: 'Faturas com falha de volta à fila',
+    schema: {
+      type: 'object',
+      properties: {
+        batchId: {
+          type: 'string',
+          example: 'clm8x2k1q0000bt3fz9w4r7d2',
+        },
+        requeued: { type: 'number', example: 4 },
+        billIds: { type: 'array', items: { type: 'string' } },
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Lote não encontrado' })
+  @ApiResponse({
+    status: 402,
+    description: 'Orçamento mensal de LLM excedido (LLM_MONTHLY_BUDGET_USD)',
+  })
+  async retryFailed(@Param('id') id: string): Promise<BatchRetryDto> {
+    return this.billsService.retryFailedBills(id);
+  }
+}
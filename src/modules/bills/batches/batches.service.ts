@@ -0,0 +1,238 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { Subscription, filter } from 'rxjs';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ProcessingEventsService } from '../events/processing-events.service';
+import { ProcessingStage, ProcessingStatus } from '../dto/bills.dto';
+import {
+  BatchDetailDto,
+  BatchFileDto,
+  BatchListResponseDto,
+  BatchStatus,
+  BatchSummaryDto,
+} from '../dto/batches.dto';
+
+// Etapas que mudam os contadores do lote
+const COUNTER_STAGES = [
+  ProcessingStage.STORED,
+  ProcessingStage.PROCESSING,
+  ProcessingStage.QUEUED,
+  ProcessingStage.COMPLETED,
+  ProcessingStage.FAILED,
+  ProcessingStage.CANCELLED,
+];
+
+const SUMMARY_SELECT = {
+  id: true,
+  status: true,
+  uploadedBy: true,
+  uploaderIp: true,
+  fileCount: true,
+  rejectedFileCount: true,
+  billCount: true,
+  queuedCount: true,
+  completedCount: true,
+  failedCount: true,
+  cancelledCount: true,
+  startedAt: true,
+  receivedAt: true,
+  finishedAt: true,
+} satisfies Prisma.BatchSelect;
+
+// Lotes de upload: registro, contadores e consultas. Os contadores são
+// recalculados a partir das faturas do lote sempre que uma delas muda de etapa
+// ou é excluída; as consultas apenas leem
+@Injectable()
+export class BatchesService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(BatchesService.name);
+  private readonly syncing = new Map<string, Promise<void>>();
+  private readonly dirty = new Set<string>();
+  private subscription: Subscription;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly processingEvents: ProcessingEventsService,
+  ) {}
+
+  onModuleInit() {
+    this.subscription = this.processingEvents.stages
+      .pipe(filter(event => COUNTER_STAGES.includes(event.stage)))
+      .subscribe(event =>
+        this.syncBill(event.billId).catch(error =>
+          this.logger.error(
+            `[LOTE] Erro ao atualizar contadores da fatura ${event.billId}: ${error.message}`,
+          ),
+        ),
+      );
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  async create(data: {
+    fileCount: number;
+    uploadedBy?: string;
+    uploaderIp?: string;
+  }): Promise<string> {
+    const batch = await this.prisma.batch.create({
+      data: {
+        fileCount: data.fileCount,
+        uploadedBy: data.uploadedBy ?? null,
+        uploaderIp: data.uploaderIp ?? null,
+      },
+      select: { id: true },
+    });
+    return batch.id;
+  }
+
+  // Fim do recebimento: guarda o resultado de cada arquivo. A partir daqui o
+  // lote termina quando não houver mais faturas na fila
+  async recordIntake(batchId: string, files: BatchFileDto[]): Promise<void> {
+    await this.prisma.batch.update({
+      where: { id: batchId },
+      data: {
+        files: files as unknown as Prisma.InputJsonValue,
+        rejectedFileCount: files.filter(file => !file.success).length,
+        receivedAt: new Date(),
+      },
+    });
+    await this.sync(batchId);
+  }
+
+  // Recalcula os contadores. Pedidos para um lote que já está sendo
+  // recalculado são agrupados em uma nova rodada
+  sync(batchId: string): Promise<void> {
+    const running = this.syncing.get(batchId);
+    if (running) {
+      this.dirty.add(batchId);
+      return running;
+    }
+
+    const run = (async () => {
+      do {
+        this.dirty.delete(batchId);
+        await this.updateCounters(batchId);
+      } while (this.dirty.has(batchId));
+    })().finally(() => this.syncing.delete(batchId));
+    this.syncing.set(batchId, run);
+    return run;
+  }
+
+  async list(
+    page: number = 1,
+    limit: number = 20,
+    status?: BatchStatus,
+  ): Promise<BatchListResponseDto> {
+    const where = status ? { status } : {};
+    const [batches, total] = await Promise.all([
+      this.prisma.batch.findMany({
+        where,
+        select: SUMMARY_SELECT,
+        orderBy: { startedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.batch.count({ where }),
+    ]);
+
+    return {
+      batches: batches.map(batch => this.toSummary(batch)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async findOne(id: string): Promise<BatchDetailDto> {
+    const batch = await this.prisma.batch.findUnique({
+      where: { id },
+      select: {
+        ...SUMMARY_SELECT,
+        files: true,
+        bills: {
+          select: {
+            id: true,
+            originalFileName: true,
+            processingStatus: true,
+            errorMessage: true,
+            pageStart: true,
+            pageEnd: true,
+            updatedAt: true,
+          },
+          orderBy: [{ createdAt: 'asc' }, { pageStart: 'asc' }],
+        },
+      },
+    });
+    if (!batch) {
+      throw new NotFoundException('Lote não encontrado');
+    }
+
+    return {
+      ...this.toSummary(batch),
+      files: (batch.files as unknown as BatchFileDto[]) ?? [],
+      bills: batch.bills.map(bill => ({
+        ...bill,
+        processingStatus: bill.processingStatus as ProcessingStatus,
+      })),
+    };
+  }
+
+  private async syncBill(billId: string): Promise<void> {
+    const bill = await this.prisma.energyBill.findUnique({
+      where: { id: billId },
+      select: { batchId: true },
+    });
+    if (bill?.batchId) {
+      await this.sync(bill.batchId);
+    }
+  }
+
+  // Um único UPDATE a partir das faturas do lote: contadores, status e fim.
+  // Enquanto os arquivos ainda estão sendo recebidos o lote não termina
+  private async updateCounters(batchId: string): Promise<void> {
+    const now = new Date();
+    await this.prisma.$executeRaw(Prisma.sql`
+      UPDATE "batches" AS batch
+      SET "billCount" = counts.bills,
+          "queuedCount" = counts.queued,
+          "completedCount" = counts.completed,
+          "failedCount" = counts.failed,
+          "cancelledCount" = counts.cancelled,
+          "status" = (CASE
+            WHEN batch."receivedAt" IS NULL OR counts.queued > 0 THEN 'PROCESSING'
+            WHEN counts.failed + counts.cancelled + batch."rejectedFileCount" > 0 THEN 'COMPLETED_WITH_ERRORS'
+            ELSE 'COMPLETED'
+          END)::"batch_status",
+          "finishedAt" = CASE
+            WHEN batch."receivedAt" IS NULL OR counts.queued > 0 THEN NULL
+            ELSE COALESCE(batch."finishedAt", ${now})
+          END,
+          "updatedAt" = ${now}
+      FROM (
+        SELECT
+          count(*)::int AS bills,
+          count(*) FILTER (WHERE "processingStatus" IN ('PENDING', 'PROCESSING'))::int AS queued,
+          count(*) FILTER (WHERE "processingStatus" IN ('COMPLETED', 'NEEDS_REVIEW'))::int AS completed,
+          count(*) FILTER (WHERE "processingStatus" = 'FAILED')::int AS failed,
+          count(*) FILTER (WHERE "processingStatus" = 'CANCELLED')::int AS cancelled
+        FROM "energy_bills"
+        WHERE "batchId" = ${batchId}
+      ) AS counts
+      WHERE batch."id" = ${batchId}
+    `);
+  }
+
+  private toSummary(
+    batch: Prisma.BatchGetPayload<{ select: typeof SUMMARY_SELECT }>,
+  ): BatchSummaryDto {
+    return { ...batch, status: batch.status as BatchStatus };
+  }
+}
@@ -11,9 +11,16 @@ import {
   Delete,
   HttpCode,
   Patch,
-  Logger
+  Logger,
+  Body,
+  Request,
+  UseGuards,
+  Sse,
+  MessageEvent,
 } from '@nestjs/common';
 import { FileInterceptor, FilesInterceptor } from '@nestjs/platform-express';
+import { AuthGuard } from '@nestjs/passport';
+import { OptionalJwtAuthGuard } from '../auth/optional-jwt-auth.guard';
 import {
   ApiTags,
   ApiOperation,
@@ -21,8 +28,11 @@ import {
   ApiConsumes,
   ApiParam,
   ApiQuery,
+  ApiBearerAuth,
+  ApiProduces,
 } from '@nestjs/swagger';
 import { Express } from 'express';
+import { Observable } from 'rxjs';
 import { BillsService } from './bills.service';
 import {
   BillFilterDto,
@@ -30,32 +40,43 @@ import {
   UploadBillResponseDto,
   ProcessBillResponseDto,
   ProcessingStatus,
+  UpdateBillFieldsDto,
+  BillProcessingStatusDto,
+  JobStatus,
+  ProcessingStage,
+  BatchCancellationDto,
 } from './dto/bills.dto';
+import { DistributorCode, PiiType } from '../llm/dto/llm-extraction.dto';
 
 @ApiTags('bills')
 @Controller('bills')
 export class BillsController {
 
   @Post('upload/batch')
+  @HttpCode(202)
+  @UseGuards(OptionalJwtAuthGuard)
   @UseInterceptors(FilesInterceptor('files'))
+  @ApiBearerAuth()
   @ApiOperation({
-    summary: 'Upload e processamento em lote de faturas de energia',
-    description: 'Recebe múltiplos arquivos PDF de faturas de energia, processa cada um com LLM e salva os dados.'
+    summary: 'Upload em lote de faturas de energia',
+    description: 'Recebe múltiplos arquivos PDF de faturas de energia, grava cada um e coloca as faturas na fila de processamento. A extração com LLM acontece em segundo plano; acompanhe o lote em GET /batches/:batchId e cada fatura em GET /bills/:id/status. O token JWT é opcional e, quando enviado, identifica quem fez o upload.'
   })
   @ApiConsumes('multipart/form-data')
   @ApiResponse({
-    status: 200,
-    description: 'Faturas processadas',
+    status: 202,
+    description: 'Arquivos recebidos e faturas na fila',
     schema: {
       type: 'array',
       items: {
         type: 'object',
         properties: {
           success: { type: 'boolean', example: true },
-          message: { type: 'string', example: 'Fatura processada com sucesso' },
+          message: { type: 'string', example: 'Arquivo fatura_setembro.pdf: Fatura recebida e na fila de processamento' },
           billId: { type: 'string', example: 'clkj1234567890' },
-          processingTime: { type: 'number', example: 1500 },
+          processingTime: { type: 'number', example: 120 },
           fileName: { type: 'string', example: 'fatura_setembro.pdf' },
+          status: { type: 'string', enum: ['PENDING'], example: 'PENDING' },
+          batchId: { type: 'string', example: 'clm8x2k1q0000bt3fz9w4r7d2', description: 'Acompanhe o lote em GET /batches/:batchId ou GET /bills/batch/:batchId/events' },
           error: { type: 'string', example: 'Erro específico do arquivo' }
         }
       }
@@ -63,10 +84,13 @@ export class BillsController {
   })
   @ApiResponse({
     status: 400,
-    description: 'Erro na validação de algum arquivo ou processamento',
+    description: 'Nenhum arquivo enviado',
   })
+  @ApiResponse({ status: 401, description: 'Token JWT inválido ou expirado' })
+  @ApiResponse({ status: 402, description: 'Orçamento mensal de LLM excedido (LLM_MONTHLY_BUDGET_USD)' })
   async uploadBillsBatch(
-    @UploadedFiles() files: Express.Multer.File[]
+    @UploadedFiles() files: Express.Multer.File[],
+    @Request() req: any,
   ): Promise<ProcessBillResponseDto[]> {
     if (!files || files.length === 0) {
       throw new BadRequestException('Nenhum arquivo foi enviado');
@@ -74,7 +98,10 @@ export class BillsController {
 
     this.logger.log(`[BATCH] Iniciando processamento de ${files.length} arquivo(s)`);
     
-    return this.billsService.uploadBillsBatch(files);
+    return this.billsService.uploadBillsBatch(files, {
+      uploadedBy: req.user?.username,
+      uploaderIp: req.ip,
+    });
   }
 
   constructor(private readonly billsService: BillsService) {}
@@ -82,37 +109,71 @@ export class BillsController {
   private readonly logger = new Logger(BillsController.name);
 
   @Patch(':id/reprocess')
-  @ApiOperation({ summary: 'Reprocessar fatura FAILED', description: 'Tenta novamente processar uma fatura com status FAILED usando o arquivo já salvo.' })
+  @HttpCode(202)
+  @ApiOperation({ summary: 'Reprocessar fatura FAILED', description: 'Devolve à fila de processamento uma fatura com status FAILED, com as tentativas zeradas. O worker usa o arquivo já salvo (apenas as páginas da fatura, em PDFs com várias) e reaproveita a resposta do LLM do cache de extração quando disponível. Acompanhe em GET /bills/:id/status.' })
   @ApiParam({ name: 'id', description: 'ID único da fatura' })
-  @ApiResponse({ status: 200, description: 'Fatura reprocessada com sucesso' })
+  @ApiQuery({ name: 'bypassCache', required: false, type: Boolean, description: 'Remove as respostas da fatura do cache e força nova extração pelo LLM' })
+  @ApiResponse({ status: 202, description: 'Fatura na fila de processamento' })
   @ApiResponse({ status: 400, description: 'Fatura não está em status FAILED ou não encontrada' })
-  async reprocessBill(@Param('id') id: string): Promise<ProcessBillResponseDto> {
-    return this.billsService.reprocessBill(id);
+  @ApiResponse({ status: 402, description: 'Orçamento mensal de LLM excedido (LLM_MONTHLY_BUDGET_USD)' })
+  async reprocessBill(
+    @Param('id') id: string,
+    @Query('bypassCache') bypassCache?: string,
+  ): Promise<ProcessBillResponseDto> {
+    return this.billsService.reprocessBill(id, { bypassCache: bypassCache === 'true' });
+  }
+
+  @Delete(':id/extraction-cache')
+  @ApiOperation({ summary: 'Invalidar cache de extração da fatura', description: 'Remove do cache as respostas do LLM para os textos já extraídos desta fatura, em todas as versões de prompt e modelos.' })
+  @ApiParam({ name: 'id', description: 'ID único da fatura' })
+  @ApiResponse({ status: 200, description: 'Cache invalidado', schema: { type: 'object', properties: { invalidated: { type: 'number', example: 1 } } } })
+  @ApiResponse({ status: 404, description: 'Fatura não encontrada' })
+  async invalidateExtractionCache(@Param('id') id: string): Promise<{ invalidated: number }> {
+    return this.billsService.invalidateExtractionCache(id);
   }
 
   @Post('upload')
+  @HttpCode(202)
   @UseInterceptors(FileInterceptor('file'))
   @ApiOperation({ 
-    summary: 'Upload e processamento de fatura de energia',
-    description: 'Recebe um arquivo PDF de fatura de energia, processa com LLM e salva os dados'
+    summary: 'Upload de fatura de energia',
+    description: 'Recebe um arquivo PDF de fatura de energia, grava o arquivo, cria a fatura com status PENDING e responde imediatamente. A extração com LLM acontece em segundo plano, pela fila de processamento; acompanhe em GET /bills/:id/status ou GET /bills/:id. PDFs com várias faturas (meses ou instalações) geram uma fatura por trecho de páginas, ligadas ao mesmo documento de origem; cada uma vem em segments.'
   })
   @ApiConsumes('multipart/form-data')
   @ApiResponse({
-    status: 200,
-    description: 'Fatura processada com sucesso',
+    status: 202,
+    description: 'Fatura recebida e na fila de processamento',
     schema: {
       type: 'object',
       properties: {
         success: { type: 'boolean', example: true },
-        message: { type: 'string', example: 'Fatura processada com sucesso' },
+        message: { type: 'string', example: 'Fatura recebida e na fila de processamento. Acompanhe em GET /bills/:id/status' },
         billId: { type: 'string', example: 'clkj1234567890' },
-        processingTime: { type: 'number', example: 1500 }
+        processingTime: { type: 'number', example: 120 },
+        status: { type: 'string', enum: ['PENDING'], example: 'PENDING' },
+        sourceDocumentId: { type: 'string', example: 'clkj0987654321', description: 'Apenas em PDFs com várias faturas' },
+        segments: {
+          type: 'array',
+          description: 'Fatura de cada trecho do PDF (apenas em PDFs com várias faturas)',
+          items: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: true },
+              billId: { type: 'string', example: 'clkj1234567890' },
+              status: { type: 'string', example: 'PENDING' },
+              pageRange: {
+                type: 'object',
+                properties: { start: { type: 'number', example: 1 }, end: { type: 'number', example: 2 } }
+              }
+            }
+          }
+        }
       }
     }
   })
   @ApiResponse({
     status: 400,
-    description: 'Erro na validação do arquivo ou processamento',
+    description: 'Erro na validação do arquivo ou fatura duplicada',
     schema: {
       type: 'object',
       properties: {
@@ -122,6 +183,7 @@ export class BillsController {
       }
     }
   })
+  @ApiResponse({ status: 402, description: 'Orçamento mensal de LLM excedido (LLM_MONTHLY_BUDGET_USD)' })
   async uploadBill(
     @UploadedFile() file: Express.Multer.File,
   ): Promise<ProcessBillResponseDto> {
@@ -141,8 +203,12 @@ export class BillsController {
   @ApiQuery({ name: 'customerNumber', required: false, type: String, description: 'Filtrar por número do cliente' })
   @ApiQuery({ name: 'referenceMonth', required: false, type: String, description: 'Filtrar por mês de referência (ex: SET/2024)' })
   @ApiQuery({ name: 'status', required: false, enum: ProcessingStatus, description: 'Filtrar por status de processamento' })
-  @ApiQuery({ name: 'startDate', required: false, type: String, description: 'Data inicial (ISO 8601)' })
-  @ApiQuery({ name: 'endDate', required: false, type: String, description: 'Data final (ISO 8601)' })
+  @ApiQuery({ name: 'startDate', required: false, type: String, description: 'Data inicial (ISO 8601); filtra pelo mês de referência da fatura, com o mês da data incluído' })
+  @ApiQuery({ name: 'endDate', required: false, type: String, description: 'Data final (ISO 8601); filtra pelo mês de referência da fatura, com o mês da data incluído' })
+  @ApiQuery({ name: 'dueDateFrom', required: false, type: String, description: 'Vencimento a partir de (ISO 8601)' })
+  @ApiQuery({ name: 'dueDateTo', required: false, type: String, description: 'Vencimento até (ISO 8601)' })
+  @ApiQuery({ name: 'distributor', required: false, type: String, description: 'Filtrar por distribuidora (ex: CEMIG)' })
+  @ApiQuery({ name: 'distributorCode', required: false, enum: DistributorCode, description: 'Filtrar pela distribuidora detectada no layout' })
   @ApiQuery({ name: 'page', required: false, type: Number, description: 'Página (padrão: 1)' })
   @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Itens por página (padrão: 20)' })
   @ApiResponse({
@@ -162,6 +228,23 @@ export class BillsController {
               originalFileName: { type: 'string', example: 'fatura_setembro.pdf' },
               processingStatus: { type: 'string', example: 'COMPLETED' },
               createdAt: { type: 'string', example: '2024-12-19T10:30:00.000Z' },
+
+              // Cabeçalho da fatura
+              dueDate: { type: 'string', nullable: true, example: '2024-10-05T00:00:00.000Z' },
+              totalAmount: { type: 'number', nullable: true, example: 107.38, description: 'Valor a pagar R$' },
+              installationNumber: { type: 'string', nullable: true, example: '3001116735' },
+              distributor: { type: 'string', nullable: true, example: 'CEMIG' },
+              distributorCode: { type: 'string', nullable: true, enum: Object.values(DistributorCode), example: 'CEMIG' },
+              tariffClass: { type: 'string', nullable: true, example: 'Residencial' },
+              tariffSubgroup: { type: 'string', nullable: true, example: 'B1' },
+              readingPeriod: {
+                type: 'object',
+                nullable: true,
+                properties: {
+                  startDate: { type: 'string', example: '2024-08-05T00:00:00.000Z' },
+                  endDate: { type: 'string', example: '2024-09-04T00:00:00.000Z' }
+                }
+              },
               
               // Dados extraídos do PDF
               electricEnergy: {
@@ -193,7 +276,33 @@ export class BillsController {
               totalEnergyConsumption: { type: 'number', example: 526, description: 'Consumo total kWh' },
               compensatedEnergy: { type: 'number', example: 526, description: 'Energia compensada kWh' },
               totalValueWithoutGD: { type: 'number', example: 461.62, description: 'Valor total sem GD R$' },
-              gdEconomy: { type: 'number', example: 438.17, description: 'Economia GD R$' }
+              gdEconomy: { type: 'number', example: 438.17, description: 'Economia GD R$' },
+              taxes: {
+                type: 'object',
+                nullable: true,
+                description: 'Tributos: base de cálculo (R$), alíquota (%) e valor (R$)',
+                example: {
+                  icms: { base: 461.62, rate: 18, value: 83.09 },
+                  pis: { base: 461.62, rate: 0.87, value: 4.02 },
+                  cofins: { base: 461.62, rate: 4.03, value: 18.6 }
+                }
+              },
+              totalTaxes: { type: 'number', nullable: true, example: 105.71, description: 'Total de tributos R$' },
+              lineItems: {
+                type: 'array',
+                description: 'Linhas da tabela "Itens da fatura"',
+                items: {
+                  type: 'object',
+                  properties: {
+                    description: { type: 'string', example: 'Energia Elétrica' },
+                    unit: { type: 'string', nullable: true, example: 'kWh' },
+                    quantity: { type: 'number', nullable: true, example: 50 },
+                    unitPrice: { type: 'number', nullable: true, example: 0.9134 },
+                    value: { type: 'number', example: 45.67 },
+                    category: { type: 'string', example: 'ELECTRIC_ENERGY' }
+                  }
+                }
+              }
             }
           }
         },
@@ -210,6 +319,10 @@ export class BillsController {
     @Query('status') status?: ProcessingStatus,
     @Query('startDate') startDate?: string,
     @Query('endDate') endDate?: string,
+    @Query('dueDateFrom') dueDateFrom?: string,
+    @Query('dueDateTo') dueDateTo?: string,
+    @Query('distributor') distributor?: string,
+    @Query('distributorCode') distributorCode?: DistributorCode,
     @Query('page') pageRaw?: string,
     @Query('limit') limitRaw?: string,
   ): Promise<BillListResponseDto> {
@@ -230,6 +343,10 @@ export class BillsController {
       status,
       startDate,
       endDate,
+      dueDateFrom,
+      dueDateTo,
+      distributor,
+      distributorCode,
     };
 
     // LOGS PARA DEPURAÇÃO
@@ -248,6 +365,203 @@ export class BillsController {
     return result;
   }
 
+  @Get('review')
+  @ApiOperation({
+    summary: 'Listar faturas aguardando revisão',
+    description: 'Retorna as faturas com status NEEDS_REVIEW (divergências na validação cruzada). Use GET /bills/:id para ver valores, divergências e confiança de cada campo.'
+  })
+  @ApiQuery({ name: 'page', required: false, type: Number, description: 'Página (padrão: 1)' })
+  @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Itens por página (padrão: 20)' })
+  @ApiResponse({ status: 200, description: 'Lista de faturas aguardando revisão' })
+  async getBillsForReview(
+    @Query('page') pageRaw?: string,
+    @Query('limit') limitRaw?: string,
+  ): Promise<BillListResponseDto> {
+    let page = 1;
+    let limit = 20;
+    if (pageRaw && !Number.isNaN(Number(pageRaw)) && Number(pageRaw) > 0) {
+      page = Number(pageRaw);
+    }
+    if (limitRaw && !Number.isNaN(Number(limitRaw)) && Number(limitRaw) > 0) {
+      limit = Number(limitRaw);
+    }
+    return this.billsService.getBillsForReview(page, limit);
+  }
+
+  @Patch(':id/fields')
+  @UseGuards(AuthGuard('jwt'))
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Corrigir campos de uma fatura',
+    description: 'Aplica correções manuais, recalcula os valores derivados e marca a fatura como revisada (status COMPLETED). Cada campo alterado é gravado como uma nova versão com valor anterior, novo valor, usuário e data. Corpo vazio aprova os valores atuais.'
+  })
+  @ApiParam({ name: 'id', description: 'ID único da fatura' })
+  @ApiResponse({ status: 200, description: 'Fatura corrigida; retorna os dados atualizados com o histórico de correções' })
+  @ApiResponse({ status: 400, description: 'Fatura não está em NEEDS_REVIEW/COMPLETED ou campos inválidos' })
+  @ApiResponse({ status: 401, description: 'Token JWT ausente ou inválido' })
+  @ApiResponse({ status: 404, description: 'Fatura não encontrada' })
+  async updateBillFields(
+    @Param('id') id: string,
+    @Body() fields: UpdateBillFieldsDto,
+    @Request() req: any,
+  ): Promise<UploadBillResponseDto> {
+    return this.billsService.updateBillFields(id, fields, req.user);
+  }
+
+  @Get(':id/status')
+  @ApiOperation({
+    summary: 'Consultar processamento da fatura',
+    description: 'Retorna o status da fatura e da tarefa na fila de processamento (tentativas, próxima execução e último erro). Usado para acompanhar uploads, que respondem antes da extração.'
+  })
+  @ApiParam({ name: 'id', description: 'ID único da fatura' })
+  @ApiResponse({
+    status: 200,
+    description: 'Status do processamento',
+    schema: {
+      type: 'object',
+      properties: {
+        billId: { type: 'string', example: 'clkj1234567890' },
+        status: { type: 'string', enum: Object.values(ProcessingStatus), example: 'PENDING' },
+        errorMessage: { type: 'string', nullable: true, example: 'Provedor de LLM indisponível (circuito aberto)' },
+        updatedAt: { type: 'string', example: '2024-12-19T10:30:00.000Z' },
+        job: {
+          type: 'object',
+          nullable: true,
+          description: 'Ausente em faturas processadas antes da fila',
+          properties: {
+            status: { type: 'string', enum: Object.values(JobStatus), example: 'QUEUED' },
+            attempts: { type: 'number', example: 1 },
+            maxAttempts: { type: 'number', example: 3 },
+            runAt: { type: 'string', example: '2024-12-19T10:31:00.000Z', description: 'Próxima tentativa' },
+            lastError: { type: 'string', nullable: true },
+            finishedAt: { type: 'string', nullable: true }
+          }
+        }
+      }
+    }
+  })
+  @ApiResponse({ status: 404, description: 'Fatura não encontrada' })
+  async getProcessingStatus(@Param('id') id: string): Promise<BillProcessingStatusDto> {
+    return this.billsService.getProcessingStatus(id);
+  }
+
+  @Sse(':id/events')
+  @ApiOperation({
+    summary: 'Acompanhar processamento da fatura (SSE)',
+    description: `Stream Server-Sent Events com as etapas do processamento: ${Object.values(ProcessingStage).join(', ')}. Cada evento traz o tipo da etapa e, em data, status, mensagem, horário, durationMs (desde a etapa anterior) e elapsedMs (desde o início do processamento). O stream começa pelas etapas já registradas e termina em completed, failed ou cancelled. Um evento ping é enviado a cada 15 segundos para manter a conexão aberta.`
+  })
+  @ApiProduces('text/event-stream')
+  @ApiParam({ name: 'id', description: 'ID único da fatura' })
+  @ApiResponse({ status: 200, description: 'Stream de eventos de processamento' })
+  @ApiResponse({ status: 404, description: 'Fatura não encontrada' })
+  streamBillEvents(@Param('id') id: string): Promise<Observable<MessageEvent>> {
+    return this.billsService.streamBillEvents(id);
+  }
+
+  @Sse('batch/:batchId/events')
+  @ApiOperation({
+    summary: 'Acompanhar processamento de um lote (SSE)',
+    description: 'Stream Server-Sent Events com as etapas de todas as faturas de um upload em lote (batchId retornado por POST /bills/upload/batch). Cada evento identifica a fatura em data.billId. O stream termina quando todas as faturas chegam a completed, failed ou cancelled.'
+  })
+  @ApiProduces('text/event-stream')
+  @ApiParam({ name: 'batchId', description: 'ID do lote' })
+  @ApiResponse({ status: 200, description: 'Stream de eventos de processamento' })
+  @ApiResponse({ status: 404, description: 'Lote não encontrado' })
+  streamBatchEvents(@Param('batchId') batchId: string): Promise<Observable<MessageEvent>> {
+    return this.billsService.streamBatchEvents(batchId);
+  }
+
+  @Post('batch/:batchId/cancel')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Cancelar processamento de um lote',
+    description: 'Retira da fila as faturas do lote que ainda não começaram a ser processadas; elas ficam com status CANCELLED. Faturas já em processamento terminam normalmente.'
+  })
+  @ApiParam({ name: 'batchId', description: 'ID do lote' })
+  @ApiResponse({
+    status: 200,
+    description: 'Lote cancelado',
+    schema: {
+      type: 'object',
+      properties: {
+        batchId: { type: 'string', example: 'clm8x2k1q0000bt3fz9w4r7d2' },
+        cancelled: { type: 'number', example: 180, description: 'Faturas retiradas da fila' },
+        inProgress: { type: 'number', example: 2, description: 'Faturas já em processamento' },
+      }
+    }
+  })
+  @ApiResponse({ status: 404, description: 'Lote não encontrado' })
+  async cancelBatch(@Param('batchId') batchId: string): Promise<BatchCancellationDto> {
+    return this.billsService.cancelBatch(batchId);
+  }
+
+  @Get(':id/extraction-runs')
+  @ApiOperation({
+    summary: 'Listar tentativas de extração da fatura',
+    description: 'Retorna cada tentativa de extração (regras ou LLM) com versão do prompt, provedor/modelo, hash do texto, resposta bruta, JSON interpretado, tokens, latência e resultado.'
+  })
+  @ApiParam({ name: 'id', description: 'ID único da fatura' })
+  @ApiResponse({
+    status: 200,
+    description: 'Tentativas de extração em ordem cronológica',
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', example: 'clkj1234567890' },
+          createdAt: { type: 'string', example: '2024-12-19T10:30:00.000Z' },
+          promptVersion: { type: 'string', example: 'bill-extraction-v1' },
+          provider: { type: 'string', example: 'openai' },
+          model: { type: 'string', example: 'gpt-4o-2024-08-06' },
+          textHash: { type: 'string', example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08' },
+          textSource: { type: 'string', example: 'NATIVE' },
+          rawResponse: { type: 'string', nullable: true },
+          parsedJson: { type: 'object', nullable: true },
+          promptTokens: { type: 'number', nullable: true, example: 2450 },
+          completionTokens: { type: 'number', nullable: true, example: 380 },
+          totalTokens: { type: 'number', nullable: true, example: 2830 },
+          latencyMs: { type: 'number', example: 4210 },
+          outcome: { type: 'string', enum: ['SUCCESS', 'PROVIDER_ERROR', 'INVALID_JSON', 'VALIDATION_ERROR'] },
+          errorMessage: { type: 'string', nullable: true }
+        }
+      }
+    }
+  })
+  @ApiResponse({ status: 404, description: 'Fatura não encontrada' })
+  async getExtractionRuns(@Param('id') id: string) {
+    return this.billsService.getExtractionRuns(id);
+  }
+
+  @Get(':id/redactions')
+  @ApiOperation({
+    summary: 'Listar dados pessoais mascarados da fatura',
+    description: 'Retorna os dados pessoais (CPF, CNPJ, nome, endereço, código de barras, números de cliente e instalação...) substituídos por marcadores no texto enviado ao provedor de LLM na última extração. Os valores originais não são gravados, apenas o HMAC-SHA256 com a chave REDACTION_HASH_KEY.'
+  })
+  @ApiParam({ name: 'id', description: 'ID único da fatura' })
+  @ApiResponse({
+    status: 200,
+    description: 'Marcadores usados na última extração',
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', example: 'clkj1234567890' },
+          createdAt: { type: 'string', example: '2024-12-19T10:30:00.000Z' },
+          type: { type: 'string', enum: Object.values(PiiType), example: 'CPF' },
+          placeholder: { type: 'string', example: '[CPF_1]' },
+          valueHash: { type: 'string', example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08' },
+          occurrences: { type: 'number', example: 2 }
+        }
+      }
+    }
+  })
+  @ApiResponse({ status: 404, description: 'Fatura não encontrada' })
+  async getRedactions(@Param('id') id: string) {
+    return this.billsService.getRedactions(id);
+  }
+
   @Get(':id')
   @ApiOperation({ 
     summary: 'Buscar fatura por ID',
@@ -266,10 +580,85 @@ export class BillsController {
         originalFileName: { type: 'string', example: 'fatura_setembro.pdf' },
         processingStatus: { type: 'string', example: 'COMPLETED' },
         createdAt: { type: 'string', example: '2024-12-19T10:30:00.000Z' },
+        dueDate: { type: 'string', nullable: true, example: '2024-10-05T00:00:00.000Z' },
+        totalAmount: { type: 'number', nullable: true, example: 107.38 },
+        installationNumber: { type: 'string', nullable: true, example: '3001116735' },
+        distributor: { type: 'string', nullable: true, example: 'CEMIG' },
+        distributorCode: { type: 'string', nullable: true, enum: Object.values(DistributorCode), example: 'CEMIG', description: 'Distribuidora detectada pelo layout' },
+        tariffClass: { type: 'string', nullable: true, example: 'Residencial' },
+        tariffSubgroup: { type: 'string', nullable: true, example: 'B1' },
         totalEnergyConsumption: { type: 'number', example: 526 },
         compensatedEnergy: { type: 'number', example: 526 },
         totalValueWithoutGD: { type: 'number', example: 461.62 },
-        gdEconomy: { type: 'number', example: 438.17 }
+        gdEconomy: { type: 'number', example: 438.17 },
+        taxes: {
+          type: 'object',
+          nullable: true,
+          example: {
+            icms: { base: 461.62, rate: 18, value: 83.09 },
+            pis: { base: 461.62, rate: 0.87, value: 4.02 },
+            cofins: { base: 461.62, rate: 4.03, value: 18.6 }
+          }
+        },
+        totalTaxes: { type: 'number', nullable: true, example: 105.71 },
+        textSource: { type: 'string', enum: ['NATIVE', 'OCR'], example: 'NATIVE', description: 'Origem do texto usado na extração' },
+        lineItems: {
+          type: 'array',
+          description: 'Linhas da tabela "Itens da fatura"',
+          items: {
+            type: 'object',
+            properties: {
+              description: { type: 'string', example: 'Energia Elétrica' },
+              unit: { type: 'string', nullable: true, example: 'kWh' },
+              quantity: { type: 'number', nullable: true, example: 50 },
+              unitPrice: { type: 'number', nullable: true, example: 0.9134 },
+              value: { type: 'number', example: 45.67 },
+              category: { type: 'string', example: 'ELECTRIC_ENERGY' }
+            }
+          }
+        },
+        extractedFields: {
+          type: 'array',
+          description: 'Confiança e trecho de origem de cada campo extraído',
+          items: {
+            type: 'object',
+            properties: {
+              field: { type: 'string', example: 'electricEnergy' },
+              confidence: { type: 'number', example: 0.95 },
+              snippet: { type: 'string', nullable: true, example: 'Energia ElétricakWh 50 0,91340000 45,67' },
+              page: { type: 'number', nullable: true, example: 1 },
+              lowConfidence: { type: 'boolean', example: false }
+            }
+          }
+        },
+        lowConfidenceFields: { type: 'array', items: { type: 'string' }, example: ['sceeeEnergy'] },
+        pageRange: {
+          type: 'object',
+          nullable: true,
+          description: 'Páginas da fatura no PDF enviado',
+          properties: { start: { type: 'number', example: 1 }, end: { type: 'number', example: 2 } }
+        },
+        sourceDocument: {
+          type: 'object',
+          nullable: true,
+          description: 'PDF de origem e todas as faturas extraídas dele',
+          properties: {
+            id: { type: 'string', example: 'clkj0987654321' },
+            originalFileName: { type: 'string', example: 'faturas-2024.pdf' },
+            pageCount: { type: 'number', example: 4 },
+            bills: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  billId: { type: 'string', example: 'clkj1234567890' },
+                  pageRange: { type: 'object', properties: { start: { type: 'number', example: 1 }, end: { type: 'number', example: 2 } } },
+                  processingStatus: { type: 'string', example: 'COMPLETED' }
+                }
+              }
+            }
+          }
+        }
       }
     }
   })
@@ -291,7 +680,7 @@ export class BillsController {
 
   @Delete(':id')
   @HttpCode(204)
-  @ApiOperation({ summary: 'Excluir fatura', description: 'Remove uma fatura do banco de dados pelo ID' })
+  @ApiOperation({ summary: 'Excluir fatura', description: 'Remove uma fatura do banco de dados pelo ID. Em PDFs com várias faturas remove apenas o trecho; o documento de origem é removido junto com a última fatura.' })
   @ApiParam({ name: 'id', description: 'ID único da fatura' })
   @ApiResponse({ status: 204, description: 'Fatura excluída com sucesso' })
   @ApiResponse({ status: 404, description: 'Fatura não encontrada' })
@@ -2,11 +2,17 @@ import { Module } from '@nestjs/common';
 import { BillsController } from './bills.controller';
 import { BillsService } from './bills.service';
 import { LlmModule } from '../llm/llm.module';
+import { AuthModule } from '../auth/auth.module';
+import { ProcessingQueueService } from './queue/processing-queue.service';
+import { BillProcessingWorker } from './queue/bill-processing.worker';
+import { ProcessingEventsService } from './events/processing-events.service';
+import { BatchesService } from './batches/batches.service';
+import { BatchesController } from './batches/batches.controller';
 
 @Module({
-  imports: [LlmModule],
-  controllers: [BillsController],
-  providers: [BillsService],
+  imports: [LlmModule, AuthModule],
+  controllers: [BillsController, BatchesController],
+  providers: [BillsService, ProcessingQueueService, BillProcessingWorker, ProcessingEventsService, BatchesService],
   exports: [BillsService],
 })
 export class BillsModule {}
\ No newline at end of file
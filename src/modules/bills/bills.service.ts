@@ -1,20 +1,71 @@
-import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Injectable, Logger, BadRequestException, NotFoundException, HttpException, MessageEvent } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { LlmService } from '../llm/llm.service';
+import { ExtractionRunService } from '../llm/runs/extraction-run.service';
+import { RedactionService } from '../llm/redaction/redaction.service';
+import { ExtractionCacheService } from '../llm/cache/extraction-cache.service';
+import { LlmUsageService } from '../llm/usage/llm-usage.service';
+import { LlmProviderUnavailableException } from '../llm/resilience/llm-resilience.service';
+import { ProcessingQueueService } from './queue/processing-queue.service';
+import { mapWithConcurrency } from './queue/concurrency-pool';
+import { BatchesService } from './batches/batches.service';
+import { ProcessingEventsService, STAGE_BY_OPERATION } from './events/processing-events.service';
 import { 
   UploadBillResponseDto, 
   BillFilterDto, 
   BillListResponseDto,
   ProcessBillResponseDto, 
-  ProcessingStatus
+  ProcessingStatus,
+  BillDiscrepancyDto,
+  UpdateBillFieldsDto,
+  BillProcessingStatusDto,
+  JobStatus,
+  BatchCancellationDto,
 } from './dto/bills.dto';
-import { LlmExtractionResponseDto } from '../llm/dto/llm-extraction.dto';
+import { BatchFileDto, BatchRetryDto } from './dto/batches.dto';
+import {
+  LlmExtractionResponseDto,
+  TextSource,
+  LineItemDto,
+  LineItemCategory,
+  TaxBreakdownDto,
+  PageRangeDto,
+  DistributorCode,
+  ExtractionProgressStage,
+} from '../llm/dto/llm-extraction.dto';
+import {
+  buildReferencePeriodFilter,
+  normalizeReferenceMonth,
+  parseReferenceMonth,
+  referenceMonthIndex,
+  referencePeriodOfDate,
+  toReferencePeriodColumns,
+} from '../llm/extractors/reference-month';
+import { Prisma } from '@prisma/client';
 import { createHash } from 'node:crypto';
 import { Express } from 'express';
+import { Observable } from 'rxjs';
+
+// Intervalo para retomar as faturas que ficaram na fila durante indisponibilidade do LLM
+const DEFAULT_QUEUE_RETRY_INTERVAL_MS = 60000;
+
+// Arquivos de um lote gravados e enfileirados ao mesmo tempo
+const DEFAULT_BATCH_UPLOAD_CONCURRENCY = 4;
+
+// Tentativas de gravar uma revisão quando outra revisão da mesma fatura grava a mesma versão
+const MAX_CORRECTION_ATTEMPTS = 3;
+
+const EXTRACTION_PROGRESS_MESSAGES: Record<ExtractionProgressStage, string> = {
+  text_extracted: 'Texto extraído do PDF',
+  llm_called: 'Resposta do provedor de LLM recebida',
+};
 
 @Injectable()
 export class BillsService {
-    async reprocessBill(id: string): Promise<ProcessBillResponseDto> {
+    // Devolve o mesmo registro à fila, com as tentativas zeradas. Com o cache de extração,
+    // uma falha depois da resposta do LLM (ex: erro de banco) não gera nova chamada;
+    // bypassCache remove as respostas da fatura do cache antes de enfileirar
+    async reprocessBill(id: string, options: { bypassCache?: boolean } = {}): Promise<ProcessBillResponseDto> {
       this.logger.log(`[REPROCESS] Tentando reprocessar fatura ${id}`);
       const bill = await this.prisma.energyBill.findUnique({ where: { id } });
       if (!bill) {
@@ -23,8 +74,40 @@ export class BillsService {
       if (bill.processingStatus !== ProcessingStatus.FAILED) {
         throw new BadRequestException('Só é possível reprocessar faturas com status FAILED');
       }
-      // Simular arquivo para reprocessar
-      const fakeFile: Express.Multer.File = {
+      await this.llmUsageService.assertWithinBudget();
+      if (options.bypassCache) {
+        await this.invalidateExtractionCache(id);
+      }
+
+      await this.prisma.energyBill.update({
+        where: { id },
+        data: { processingStatus: ProcessingStatus.PENDING, errorMessage: null },
+      });
+      await this.processingQueue.enqueue(id);
+      await this.createProcessingLog(
+        id,
+        'reprocess_requested',
+        'success',
+        'Reprocessamento solicitado, fatura na fila de processamento',
+        { bypassCache: !!options.bypassCache }
+      );
+
+      return {
+        success: true,
+        message: 'Fatura na fila de processamento',
+        billId: id,
+        fileName: bill.originalFileName,
+        status: ProcessingStatus.PENDING,
+      };
+    }
+
+    private toPageRange(bill: { pageStart?: number | null; pageEnd?: number | null }): PageRangeDto | undefined {
+      return bill.pageStart && bill.pageEnd ? { start: bill.pageStart, end: bill.pageEnd } : undefined;
+    }
+
+    // Simula o arquivo do upload a partir do PDF já salvo
+    private async loadStoredFile(bill: { originalFileName: string; filePath: string; fileSize: number }): Promise<Express.Multer.File> {
+      return {
         originalname: bill.originalFileName,
         buffer: await this.getFileBuffer(bill.filePath),
         path: bill.filePath,
@@ -36,7 +119,6 @@ export class BillsService {
         destination: '',
         filename: '',
       };
-      return this.uploadAndProcessBill(fakeFile);
     }
 
     private async getFileBuffer(filePath: string): Promise<Buffer> {
@@ -53,10 +135,18 @@ export class BillsService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly llmService: LlmService,
+    private readonly extractionRunService: ExtractionRunService,
+    private readonly extractionCacheService: ExtractionCacheService,
+    private readonly llmUsageService: LlmUsageService,
+    private readonly redactionService: RedactionService,
+    private readonly processingQueue: ProcessingQueueService,
+    private readonly processingEvents: ProcessingEventsService,
+    private readonly batchesService: BatchesService,
   ) {}
 
   async uploadAndProcessBill(
     file: Express.Multer.File,
+    options: { batchId?: string } = {},
   ): Promise<ProcessBillResponseDto> {
     const startTime = Date.now();
     
@@ -72,6 +162,9 @@ export class BillsService {
         throw validationError;
       }
 
+      // Orçamento mensal de LLM esgotado: rejeitar antes de registrar a fatura
+      await this.llmUsageService.assertWithinBudget();
+
       // Criar hash do arquivo para evitar duplicatas
       const fileHash = this.generateFileHash(file.buffer);
 
@@ -85,55 +178,167 @@ export class BillsService {
         throw new BadRequestException('Esta fatura já foi processada anteriormente');
       }
 
-      // Criar registro inicial no banco
-      let initialBill;
-      try {
-        initialBill = await this.prisma.energyBill.create({
-          data: {
-            customerNumber: 'PROCESSING',
-            referenceMonth: 'PROCESSING',
-            electricEnergyQuantity: 0,
-            electricEnergyValue: 0,
-            totalEnergyConsumption: 0,
-            totalValueWithoutGD: 0,
-            originalFileName: file.originalname,
-            filePath: file.path,
-            fileSize: file.size,
-            fileHash,
-            processingStatus: ProcessingStatus.PROCESSING,
-          },
-        });
-      } catch (dbCreateError) {
-        this.logger.error(`[UPLOAD] Erro ao criar registro inicial no banco: ${dbCreateError.message}`);
-        throw dbCreateError;
+      // O arquivo é gravado antes de responder: o worker da fila lê o PDF do disco
+      const storedFile = { ...file, path: await this.storeUploadedFile(file, fileHash) };
+
+      // PDFs com várias faturas (meses ou instalações concatenados) geram um
+      // registro por fatura, ligados ao mesmo documento de origem
+      const segments = await this.llmService.segmentDocument(file.buffer);
+      const sourceDocument = await this.prisma.sourceDocument.create({
+        data: {
+          originalFileName: file.originalname,
+          filePath: storedFile.path,
+          fileSize: file.size,
+          fileHash,
+          pageCount: segments.length ? segments[segments.length - 1].end : null,
+        },
+      });
+
+      // A extração acontece no worker da fila; a resposta só confirma o recebimento
+      const ranges = segments.length ? segments : [undefined];
+      const queued: ProcessBillResponseDto[] = [];
+      for (const pageRange of ranges) {
+        const billId = await this.createBillRecord(storedFile, fileHash, sourceDocument.id, pageRange, options.batchId);
+        await this.processingQueue.enqueue(billId);
+        queued.push({ success: true, message: 'Fatura na fila de processamento', billId, status: ProcessingStatus.PENDING, pageRange });
       }
 
-      // Log do início do processamento
-      await this.createProcessingLog(
-        initialBill.id,
-        'upload_started',
-        'success',
-        'Arquivo recebido e salvo, iniciando processamento LLM',
-        { fileName: file.originalname, fileSize: file.size }
-      );
+      this.logger.log(`[UPLOAD] ${file.originalname}: ${queued.length} fatura(s) na fila de processamento`);
 
-      try {
-        // Extrair dados usando LLM
-        const extractedData = await this.llmService.extractBillData({
-          filePath: file.path,
+      if (queued.length > 1) {
+        return {
+          success: true,
+          message: `PDF com ${queued.length} faturas na fila de processamento`,
+          billId: queued[0].billId,
+          processingTime: Date.now() - startTime,
           fileName: file.originalname,
-          fileBuffer: file.buffer,
-        });
+          status: ProcessingStatus.PENDING,
+          sourceDocumentId: sourceDocument.id,
+          segments: queued,
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Fatura recebida e na fila de processamento. Acompanhe em GET /bills/:id/status',
+        billId: queued[0].billId,
+        processingTime: Date.now() - startTime,
+        fileName: file.originalname,
+        status: ProcessingStatus.PENDING,
+      };
+
+    } catch (error) {
+      this.logger.error(`[FATAL] Erro no processamento da fatura: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  // Com armazenamento em memória (sem diskStorage) o PDF é gravado em
+  // UPLOAD_DIR, nomeado pelo hash do conteúdo
+  private async storeUploadedFile(file: Express.Multer.File, fileHash: string): Promise<string> {
+    if (file.path) {
+      return file.path;
+    }
+    const fs = await import('node:fs/promises');
+    const { join } = await import('node:path');
+    const uploadDir = process.env.UPLOAD_DIR || './uploads';
+    const filePath = join(uploadDir, `${fileHash}.pdf`);
+    await fs.mkdir(uploadDir, { recursive: true });
+    await fs.writeFile(filePath, file.buffer);
+    return filePath;
+  }
 
-        // Calcular variáveis derivadas
-        const calculatedData = this.calculateDerivedValues(extractedData);
+  // Registro inicial da fatura (ou de um trecho do PDF), preenchido após a extração
+  private async createBillRecord(
+    file: Express.Multer.File,
+    fileHash: string,
+    sourceDocumentId: string,
+    pageRange?: PageRangeDto,
+    batchId?: string,
+  ): Promise<string> {
+    let initialBill;
+    try {
+      initialBill = await this.prisma.energyBill.create({
+        data: {
+          customerNumber: 'PROCESSING',
+          referenceMonth: 'PROCESSING',
+          electricEnergyQuantity: 0,
+          electricEnergyValue: 0,
+          totalEnergyConsumption: 0,
+          totalValueWithoutGD: 0,
+          originalFileName: file.originalname,
+          filePath: file.path,
+          fileSize: file.size,
+          fileHash,
+          sourceDocumentId,
+          pageStart: pageRange?.start ?? null,
+          pageEnd: pageRange?.end ?? null,
+          batchId: batchId ?? null,
+          processingStatus: ProcessingStatus.PENDING,
+        },
+      });
+    } catch (dbCreateError) {
+      this.logger.error(`[UPLOAD] Erro ao criar registro inicial no banco: ${dbCreateError.message}`);
+      throw dbCreateError;
+    }
+
+    // Log do início do processamento
+    await this.createProcessingLog(
+      initialBill.id,
+      'upload_started',
+      'success',
+      'Arquivo recebido e salvo, fatura na fila de processamento',
+      { fileName: file.originalname, fileSize: file.size, sourceDocumentId, pageRange }
+    );
+
+    return initialBill.id;
+  }
 
-        // Atualizar registro no banco com os dados processados
-        const updatedBill = await this.prisma.energyBill.update({
-          where: { id: initialBill.id },
+  // Extração, cálculo e gravação dos dados de uma fatura já registrada (upload ou reprocessamento)
+  private async processExtraction(
+    billId: string,
+    file: Express.Multer.File,
+    startTime: number,
+    options: { pageRange?: PageRangeDto } = {},
+  ): Promise<ProcessBillResponseDto> {
+    try {
+      // Extrair dados usando LLM (apenas as páginas da fatura, em PDFs com várias)
+      const extractedData = await this.llmService.extractBillData({
+        filePath: file.path,
+        fileName: file.originalname,
+        fileBuffer: file.buffer,
+        billId,
+        pageRange: options.pageRange,
+        onProgress: (stage, metadata) =>
+          this.createProcessingLog(billId, stage, 'success', EXTRACTION_PROGRESS_MESSAGES[stage], metadata),
+      });
+
+      // Calcular variáveis derivadas
+      const calculatedData = this.calculateDerivedValues(extractedData);
+
+      // Validação cruzada: divergências mandam a fatura para revisão
+      const discrepancies = this.crossValidate(extractedData);
+      const finalStatus = discrepancies.length ? ProcessingStatus.NEEDS_REVIEW : ProcessingStatus.COMPLETED;
+
+      // Atualizar registro no banco com os dados processados. O UPDATE trava a
+      // fatura até o fim da transação: se o lease venceu e outro worker também
+      // processou a fatura, as linhas e campos de um substituem os do outro
+      const updatedBill = await this.prisma.$transaction(async tx => {
+        const bill = await tx.energyBill.update({
+          where: { id: billId },
           data: {
             customerNumber: extractedData.customerNumber,
             referenceMonth: extractedData.referenceMonth,
+            ...toReferencePeriodColumns(extractedData.referenceMonth),
+            dueDate: extractedData.dueDate ? new Date(extractedData.dueDate) : null,
+            totalAmount: extractedData.totalAmount ?? null,
+            installationNumber: extractedData.installationNumber ?? null,
+            distributor: extractedData.distributor ?? null,
+            distributorCode: extractedData.distributorCode ?? null,
+            tariffClass: extractedData.tariffClass ?? null,
+            tariffSubgroup: extractedData.tariffSubgroup ?? null,
+            readingStartDate: extractedData.readingPeriod ? new Date(extractedData.readingPeriod.startDate) : null,
+            readingEndDate: extractedData.readingPeriod ? new Date(extractedData.readingPeriod.endDate) : null,
             electricEnergyQuantity: extractedData.electricEnergy.quantity,
             electricEnergyValue: extractedData.electricEnergy.value,
             sceeeQuantity: extractedData.sceeeEnergy?.quantity || 0,
@@ -145,62 +350,275 @@ export class BillsService {
             compensatedEnergy: calculatedData.compensatedEnergy,
             totalValueWithoutGD: calculatedData.totalValueWithoutGD,
             gdEconomy: calculatedData.gdEconomy,
-            processingStatus: ProcessingStatus.COMPLETED,
+            icmsBase: extractedData.taxes?.icms?.base ?? null,
+            icmsRate: extractedData.taxes?.icms?.rate ?? null,
+            icmsValue: extractedData.taxes?.icms?.value ?? null,
+            pisBase: extractedData.taxes?.pis?.base ?? null,
+            pisRate: extractedData.taxes?.pis?.rate ?? null,
+            pisValue: extractedData.taxes?.pis?.value ?? null,
+            cofinsBase: extractedData.taxes?.cofins?.base ?? null,
+            cofinsRate: extractedData.taxes?.cofins?.rate ?? null,
+            cofinsValue: extractedData.taxes?.cofins?.value ?? null,
+            totalTaxes: calculatedData.totalTaxes,
+            textSource: extractedData.textSource,
+            processingStatus: finalStatus,
           },
         });
 
-        const processingTime = Date.now() - startTime;
+        await tx.billLineItem.deleteMany({ where: { billId } });
+        await tx.billLineItem.createMany({
+          data: (extractedData.lineItems || []).map((item, position) => ({
+            billId,
+            position,
+            description: item.description,
+            unit: item.unit,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            value: item.value,
+            category: item.category,
+          })),
+        });
+        await tx.extractedField.deleteMany({ where: { billId } });
+        await tx.extractedField.createMany({
+          data: Object.entries(extractedData.fieldProvenance || {}).map(([field, provenance]) => ({
+            billId,
+            field,
+            confidence: provenance.confidence,
+            snippet: provenance.snippet,
+            page: provenance.page,
+          })),
+        });
+        return bill;
+      });
 
-        // Log do sucesso
+      if (discrepancies.length) {
+        this.logger.warn(`[VALIDAÇÃO] Fatura ${updatedBill.id} com ${discrepancies.length} divergência(s), enviada para revisão`);
         await this.createProcessingLog(
           updatedBill.id,
-          'processing_completed',
+          'validation_failed',
+          'warning',
+          'Valores extraídos divergem do total impresso ou de quantidade × tarifa',
+          { discrepancies }
+        );
+      } else {
+        await this.createProcessingLog(
+          updatedBill.id,
+          'validation_passed',
           'success',
-          'Fatura processada com sucesso',
-          { 
-            processingTime,
-            customerNumber: updatedBill.customerNumber,
-            referenceMonth: updatedBill.referenceMonth 
-          }
+          'Valores extraídos conferem com o total impresso'
         );
+      }
 
-        this.logger.log(`[PROCESSAMENTO] Concluído para fatura ${updatedBill.id} em ${processingTime}ms`);
+      const historyMonths = await this.saveConsumptionHistory(updatedBill.id, extractedData);
 
-        return {
-          success: true,
-          message: 'Fatura processada com sucesso',
-          billId: updatedBill.id,
+      const processingTime = Date.now() - startTime;
+
+      // Log do sucesso
+      await this.createProcessingLog(
+        updatedBill.id,
+        'processing_completed',
+        'success',
+        'Fatura processada com sucesso',
+        { 
           processingTime,
-          fileName: file.originalname,
-        };
+          customerNumber: updatedBill.customerNumber,
+          referenceMonth: updatedBill.referenceMonth,
+          textSource: updatedBill.textSource,
+          distributorCode: updatedBill.distributorCode,
+          historyMonths,
+        }
+      );
 
-      } catch (llmError) {
-        this.logger.error(`[PROCESSAMENTO] Erro durante extração/processamento LLM: ${llmError.message}`);
-        // Atualizar status para falha
-        await this.prisma.energyBill.update({
-          where: { id: initialBill.id },
-          data: {
-            processingStatus: ProcessingStatus.FAILED,
-            errorMessage: llmError.message,
-          },
-        });
+      this.logger.log(`[PROCESSAMENTO] Concluído para fatura ${updatedBill.id} em ${processingTime}ms`);
 
-        // Log do erro
-        await this.createProcessingLog(
-          initialBill.id,
-          'processing_failed',
-          'error',
-          `Falha no processamento: ${llmError.message}`,
-          { error: llmError.message }
-        );
+      return {
+        success: true,
+        message: discrepancies.length
+          ? 'Fatura processada com divergências, aguardando revisão'
+          : 'Fatura processada com sucesso',
+        billId: updatedBill.id,
+        processingTime,
+        fileName: file.originalname,
+        status: finalStatus,
+        ...(discrepancies.length && { discrepancies }),
+      };
 
-        throw llmError;
+    } catch (llmError) {
+      // Provedor fora do ar: a fatura volta para a fila em vez de falhar,
+      // até o limite de adiamentos da tarefa
+      if (llmError instanceof LlmProviderUnavailableException) {
+        const queued = await this.queueForRetry(billId, file, startTime, llmError);
+        if (queued) {
+          return queued;
+        }
+        this.logger.warn(`[FILA] Fatura ${billId} atingiu o limite de adiamentos, a indisponibilidade conta como tentativa`);
       }
 
-    } catch (error) {
-      this.logger.error(`[FATAL] Erro no processamento da fatura: ${error.message}`, error.stack);
-      throw error;
+      // O worker decide entre nova tentativa e FAILED (markForRetry ou markFailed)
+      this.logger.error(`[PROCESSAMENTO] Erro durante extração/processamento LLM: ${llmError.message}`);
+      throw llmError;
+    }
+  }
+
+  // Retorna null quando a tarefa já atingiu o limite de adiamentos
+  private async queueForRetry(
+    billId: string,
+    file: Express.Multer.File,
+    startTime: number,
+    error: LlmProviderUnavailableException,
+  ): Promise<ProcessBillResponseDto | null> {
+    // Nova tentativa depois do intervalo, sem consumir as tentativas da tarefa
+    const retryIntervalMs = Number(process.env.LLM_QUEUE_RETRY_INTERVAL_MS) || DEFAULT_QUEUE_RETRY_INTERVAL_MS;
+    if (!(await this.processingQueue.postpone(billId, retryIntervalMs, error.message))) {
+      return null;
+    }
+
+    this.logger.warn(`[FILA] Fatura ${billId} aguardando o provedor de LLM: ${error.message}`);
+    await this.prisma.energyBill.update({
+      where: { id: billId },
+      data: {
+        processingStatus: ProcessingStatus.PENDING,
+        errorMessage: error.message,
+      },
+    });
+    await this.createProcessingLog(
+      billId,
+      'processing_queued',
+      'warning',
+      'Provedor de LLM indisponível, fatura mantida na fila',
+      { error: error.message }
+    );
+
+    return {
+      success: true,
+      message: 'Provedor de LLM indisponível. A fatura será processada automaticamente quando ele voltar',
+      billId,
+      processingTime: Date.now() - startTime,
+      fileName: file.originalname,
+      status: ProcessingStatus.PENDING,
+    };
+  }
+
+  // =========================
+  // FILA DE PROCESSAMENTO
+  // =========================
+
+  // Processa uma fatura reservada pelo worker da fila. Faturas que já saíram
+  // da fila (ex: canceladas com o lote) são ignoradas
+  async processQueuedBill(id: string): Promise<ProcessBillResponseDto> {
+    const bill = await this.prisma.energyBill.findUnique({ where: { id } });
+    if (!bill) {
+      throw new NotFoundException('Fatura não encontrada');
+    }
+    if (bill.processingStatus !== ProcessingStatus.PENDING && bill.processingStatus !== ProcessingStatus.PROCESSING) {
+      this.logger.warn(`[FILA] Fatura ${id} com status ${bill.processingStatus}, ignorada`);
+      return { success: true, message: 'Fatura já processada', billId: id, status: bill.processingStatus as ProcessingStatus };
+    }
+
+    // O orçamento pode ter acabado depois do upload: a fatura falha com 402
+    // (sem nova tentativa) e volta à fila pelo reprocessamento. Arquivo salvo
+    // ausente também é erro permanente (400)
+    await this.llmUsageService.assertWithinBudget();
+    const file = await this.loadStoredFile(bill);
+    await this.prisma.energyBill.update({
+      where: { id },
+      data: { processingStatus: ProcessingStatus.PROCESSING, errorMessage: null },
+    });
+    await this.createProcessingLog(id, 'processing_started', 'success', 'Fatura retirada da fila, iniciando extração');
+
+    return this.processExtraction(id, file, Date.now(), { pageRange: this.toPageRange(bill) });
+  }
+
+  // Falha com nova tentativa agendada: a fatura volta para PENDING
+  async markForRetry(id: string, error: Error, attempt: number, maxAttempts: number): Promise<void> {
+    await this.prisma.energyBill.update({
+      where: { id },
+      data: { processingStatus: ProcessingStatus.PENDING, errorMessage: error.message },
+    });
+    await this.createProcessingLog(
+      id,
+      'processing_retry_scheduled',
+      'warning',
+      `Tentativa ${attempt} de ${maxAttempts} falhou, fatura mantida na fila`,
+      { error: error.message, attempt, maxAttempts }
+    );
+  }
+
+  // Falha definitiva (erro permanente ou tentativas esgotadas)
+  async markFailed(id: string, error: Error & { code?: string }): Promise<void> {
+    await this.prisma.energyBill.update({
+      where: { id },
+      data: { processingStatus: ProcessingStatus.FAILED, errorMessage: error.message },
+    });
+    await this.createProcessingLog(
+      id,
+      'processing_failed',
+      'error',
+      `Falha no processamento: ${error.message}`,
+      {
+        error: error.message,
+        code: error.code,
+        ...(error instanceof HttpException && { statusCode: error.getStatus() }),
+      }
+    );
+  }
+
+  async getProcessingStatus(id: string): Promise<BillProcessingStatusDto> {
+    const bill = await this.prisma.energyBill.findUnique({
+      where: { id },
+      select: { id: true, processingStatus: true, errorMessage: true, updatedAt: true },
+    });
+    if (!bill) {
+      throw new NotFoundException('Fatura não encontrada');
     }
+    const job = await this.processingQueue.findByBill(id);
+    return {
+      billId: bill.id,
+      status: bill.processingStatus as ProcessingStatus,
+      errorMessage: bill.errorMessage,
+      updatedAt: bill.updatedAt,
+      job: job && {
+        status: job.status as JobStatus,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        runAt: job.runAt,
+        lastError: job.lastError,
+        finishedAt: job.finishedAt,
+      },
+    };
+  }
+
+  // =========================
+  // EVENTOS DE PROCESSAMENTO (SSE)
+  // =========================
+
+  async streamBillEvents(id: string): Promise<Observable<MessageEvent>> {
+    const bill = await this.prisma.energyBill.findUnique({ where: { id }, select: { id: true } });
+    if (!bill) {
+      throw new NotFoundException('Fatura não encontrada');
+    }
+    return this.processingEvents.watch([id], () => this.loadProcessingEvents([id]));
+  }
+
+  async streamBatchEvents(batchId: string): Promise<Observable<MessageEvent>> {
+    const bills = await this.prisma.energyBill.findMany({
+      where: { batchId },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (!bills.length) {
+      throw new NotFoundException('Lote não encontrado');
+    }
+    const billIds = bills.map(bill => bill.id);
+    return this.processingEvents.watch(billIds, () => this.loadProcessingEvents(billIds));
+  }
+
+  private async loadProcessingEvents(billIds: string[]) {
+    const logs = await this.prisma.processingLog.findMany({
+      where: { billId: { in: billIds }, operation: { in: Object.keys(STAGE_BY_OPERATION) } },
+      orderBy: { createdAt: 'asc' },
+    });
+    return this.processingEvents.fromLogs(logs);
   }
 
   // =========================
@@ -208,59 +626,138 @@ export class BillsService {
   // =========================
 
   async uploadBillsBatch(
-    files: Express.Multer.File[]
+    files: Express.Multer.File[],
+    uploader: { uploadedBy?: string; uploaderIp?: string } = {},
   ): Promise<ProcessBillResponseDto[]> {
-    this.logger.log(`[BATCH] Processando ${files.length} arquivo(s) em lote`);
-    
-    const results: ProcessBillResponseDto[] = [];
-    
-    // Processar arquivos sequencialmente para evitar sobrecarga do LLM
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
+    await this.llmUsageService.assertWithinBudget();
+
+    // O lote é registrado antes dos arquivos: o resultado fica em GET /batches/:id
+    // mesmo que a conexão caia durante o recebimento
+    const batchId = await this.batchesService.create({ fileCount: files.length, ...uploader });
+    const concurrency = Number(process.env.BATCH_UPLOAD_CONCURRENCY) || DEFAULT_BATCH_UPLOAD_CONCURRENCY;
+    this.logger.log(`[BATCH] Processando ${files.length} arquivo(s) em lote ${batchId} (concorrência ${concurrency})`);
+
+    // Arquivos são gravados e enfileirados em paralelo; o ritmo das chamadas ao
+    // LLM é controlado pela concorrência do worker e pelo limite de taxa do provedor.
+    // Arquivos repetidos no próprio lote passariam juntos pela checagem de duplicata
+    const hashes = new Set<string>();
+    const results = await mapWithConcurrency(files, concurrency, async (file, i) => {
       const startTime = Date.now();
-      
+
       try {
-        this.logger.log(`[BATCH] Processando arquivo ${i + 1}/${files.length}: ${file.originalname}`);
-        
-        const result = await this.uploadAndProcessBill(file);
-        
-        results.push({
-          success: true,
-          message: `Arquivo ${file.originalname} processado com sucesso`,
-          billId: result.billId,
-          processingTime: Date.now() - startTime,
-          fileName: file.originalname
-        });
-        
-        this.logger.log(`[BATCH] ✅ ${file.originalname} processado com sucesso (${Date.now() - startTime}ms)`);
-        
+        this.logger.log(`[BATCH] Enfileirando arquivo ${i + 1}/${files.length}: ${file.originalname}`);
+
+        const fileHash = this.generateFileHash(file.buffer);
+        if (hashes.has(fileHash)) {
+          throw new BadRequestException('Arquivo repetido no lote');
+        }
+        hashes.add(fileHash);
+
+        const result = await this.uploadAndProcessBill(file, { batchId });
+        this.logger.log(`[BATCH] ✅ ${file.originalname} na fila (${Date.now() - startTime}ms)`);
+        return { ...result, batchId, message: `Arquivo ${file.originalname}: ${result.message}` };
+
       } catch (error) {
-        this.logger.error(`[BATCH] ❌ Erro ao processar ${file.originalname}: ${error.message}`);
-        
-        results.push({
+        this.logger.error(`[BATCH] ❌ Erro ao receber ${file.originalname}: ${error.message}`);
+
+        return {
           success: false,
           message: `Erro ao processar arquivo ${file.originalname}`,
           billId: '',
           processingTime: Date.now() - startTime,
           fileName: file.originalname,
+          batchId,
           error: error.message
-        });
-      }
-      
-      // Pequeno delay entre arquivos para não sobrecarregar a API do LLM
-      if (i < files.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        };
       }
-    }
-    
+    });
+
+    await this.batchesService.recordIntake(batchId, results.map(result => this.toBatchFile(result)));
+
     const successCount = results.filter(r => r.success).length;
     const errorCount = results.filter(r => !r.success).length;
-    
-    this.logger.log(`[BATCH] Processamento concluído: ${successCount} sucessos, ${errorCount} erros`);
-    
+
+    this.logger.log(`[BATCH] Lote recebido: ${successCount} arquivo(s) na fila, ${errorCount} erro(s)`);
+
     return results;
   }
 
+  private toBatchFile(result: ProcessBillResponseDto): BatchFileDto {
+    const billIds = result.segments ? result.segments.map(segment => segment.billId) : [result.billId];
+    return {
+      fileName: result.fileName,
+      success: result.success,
+      billIds: billIds.filter(Boolean),
+      ...(result.error && { error: result.error }),
+    };
+  }
+
+  // Retira da fila as faturas do lote que ainda não começaram. As que já estão
+  // em processamento terminam normalmente
+  async cancelBatch(batchId: string): Promise<BatchCancellationDto> {
+    const bills = await this.prisma.energyBill.findMany({
+      where: { batchId },
+      select: { id: true },
+    });
+    if (!bills.length) {
+      throw new NotFoundException('Lote não encontrado');
+    }
+
+    const reason = 'Processamento cancelado junto com o lote';
+    const cancelled = await this.processingQueue.cancelQueued(bills.map(bill => bill.id), reason);
+    if (cancelled.length) {
+      await this.prisma.energyBill.updateMany({
+        where: { id: { in: cancelled } },
+        data: { processingStatus: ProcessingStatus.CANCELLED, errorMessage: reason },
+      });
+    }
+    for (const billId of cancelled) {
+      await this.createProcessingLog(billId, 'processing_cancelled', 'warning', reason, { batchId });
+    }
+
+    await this.batchesService.sync(batchId);
+
+    const inProgress = await this.prisma.energyBill.count({
+      where: { batchId, processingStatus: ProcessingStatus.PROCESSING },
+    });
+    this.logger.log(`[BATCH] Lote ${batchId} cancelado: ${cancelled.length} fatura(s) retirada(s) da fila, ${inProgress} em processamento`);
+
+    return { batchId, cancelled: cancelled.length, inProgress };
+  }
+
+  // Devolve à fila as faturas do lote que falharam, com as tentativas zeradas
+  async retryFailedBills(batchId: string): Promise<BatchRetryDto> {
+    const batch = await this.prisma.batch.findUnique({ where: { id: batchId }, select: { id: true } });
+    if (!batch) {
+      throw new NotFoundException('Lote não encontrado');
+    }
+    await this.llmUsageService.assertWithinBudget();
+
+    const failed = await this.prisma.energyBill.findMany({
+      where: { batchId, processingStatus: ProcessingStatus.FAILED },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    for (const bill of failed) {
+      await this.prisma.energyBill.update({
+        where: { id: bill.id },
+        data: { processingStatus: ProcessingStatus.PENDING, errorMessage: null },
+      });
+      await this.processingQueue.enqueue(bill.id);
+      await this.createProcessingLog(
+        bill.id,
+        'retry_requested',
+        'success',
+        'Nova tentativa solicitada para as faturas com falha do lote',
+        { batchId }
+      );
+    }
+    await this.batchesService.sync(batchId);
+
+    this.logger.log(`[BATCH] Lote ${batchId}: ${failed.length} fatura(s) com falha de volta à fila`);
+    return { batchId, requeued: failed.length, billIds: failed.map(bill => bill.id) };
+  }
+
   // =========================
   // CONSULTAS
   // =========================
@@ -282,33 +779,61 @@ export class BillsService {
         };
       }
 
+      // Mês completo (SET/2024) ou só o ano (2024) pelas colunas normalizadas;
+      // qualquer outro texto continua como busca parcial
       if (filters.referenceMonth) {
-        where.referenceMonth = {
-          contains: filters.referenceMonth,
-          mode: 'insensitive',
-        };
+        const period = parseReferenceMonth(filters.referenceMonth);
+        if (period) {
+          where.referenceYear = period.year;
+          where.referenceMonthNumber = period.month;
+        } else if (/^\d{4}$/.test(filters.referenceMonth.trim())) {
+          where.referenceYear = Number(filters.referenceMonth.trim());
+        } else {
+          where.referenceMonth = {
+            contains: filters.referenceMonth,
+            mode: 'insensitive',
+          };
+        }
       }
 
       if (filters.status) {
         where.processingStatus = filters.status;
       }
 
-      if (filters.startDate || filters.endDate) {
-        where.createdAt = {};
-        if (filters.startDate) {
-          where.createdAt.gte = new Date(filters.startDate);
+      if (filters.distributor) {
+        where.distributor = {
+          equals: filters.distributor,
+          mode: 'insensitive',
+        };
+      }
+
+      if (filters.distributorCode) {
+        where.distributorCode = filters.distributorCode;
+      }
+
+      if (filters.dueDateFrom || filters.dueDateTo) {
+        where.dueDate = {};
+        if (filters.dueDateFrom) {
+          where.dueDate.gte = new Date(filters.dueDateFrom);
         }
-        if (filters.endDate) {
-          where.createdAt.lte = new Date(filters.endDate);
+        if (filters.dueDateTo) {
+          where.dueDate.lte = new Date(filters.dueDateTo);
         }
       }
 
+      // Período pelo mês de referência da fatura (não pela data de upload)
+      Object.assign(where, buildReferencePeriodFilter(
+        filters.startDate ? referencePeriodOfDate(new Date(filters.startDate)) : null,
+        filters.endDate ? referencePeriodOfDate(new Date(filters.endDate)) : null,
+      ));
+
       const [bills, total] = await Promise.all([
         this.prisma.energyBill.findMany({
           where,
           skip,
           take: limit,
           orderBy: { createdAt: 'desc' },
+          include: { lineItems: { orderBy: { position: 'asc' } } },
         }),
         this.prisma.energyBill.count({ where }),
       ]);
@@ -320,6 +845,19 @@ export class BillsService {
         originalFileName: bill.originalFileName,
         processingStatus: bill.processingStatus as ProcessingStatus,
         createdAt: bill.createdAt,
+
+        // Cabeçalho da fatura
+        dueDate: bill.dueDate,
+        totalAmount: bill.totalAmount,
+        installationNumber: bill.installationNumber,
+        distributor: bill.distributor,
+        distributorCode: bill.distributorCode as DistributorCode,
+        tariffClass: bill.tariffClass,
+        tariffSubgroup: bill.tariffSubgroup,
+        readingPeriod: bill.readingStartDate && bill.readingEndDate ? {
+          startDate: bill.readingStartDate,
+          endDate: bill.readingEndDate
+        } : null,
         
         // Campos extraídos do PDF
         electricEnergy: {
@@ -341,6 +879,15 @@ export class BillsService {
         compensatedEnergy: bill.compensatedEnergy || 0,
         totalValueWithoutGD: bill.totalValueWithoutGD,
         gdEconomy: bill.gdEconomy || 0,
+
+        taxes: this.toTaxesResponse(bill),
+        totalTaxes: bill.totalTaxes,
+
+        textSource: bill.textSource as TextSource,
+        lineItems: this.toLineItemsResponse(bill.lineItems),
+
+        sourceDocumentId: bill.sourceDocumentId,
+        pageRange: this.toPageRange(bill) ?? null,
       }));
 
       return {
@@ -361,12 +908,42 @@ export class BillsService {
     try {
       const bill = await this.prisma.energyBill.findUnique({
         where: { id },
+        include: {
+          lineItems: { orderBy: { position: 'asc' } },
+          extractedFields: { orderBy: { confidence: 'asc' } },
+          corrections: { orderBy: [{ version: 'asc' }, { field: 'asc' }] },
+          sourceDocument: {
+            include: {
+              bills: {
+                select: { id: true, pageStart: true, pageEnd: true, processingStatus: true },
+                orderBy: { pageStart: 'asc' },
+              },
+            },
+          },
+        },
       });
 
       if (!bill) {
         throw new NotFoundException('Fatura não encontrada');
       }
 
+      // Divergências da última validação, para quem for revisar
+      const validationLog = bill.processingStatus === ProcessingStatus.NEEDS_REVIEW
+        ? await this.prisma.processingLog.findFirst({
+            where: { billId: id, operation: 'validation_failed' },
+            orderBy: { createdAt: 'desc' },
+          })
+        : null;
+
+      const lowConfidenceThreshold = Number(process.env.LOW_CONFIDENCE_THRESHOLD) || 0.7;
+      const extractedFields = (bill.extractedFields || []).map(field => ({
+        field: field.field,
+        confidence: field.confidence,
+        snippet: field.snippet,
+        page: field.page,
+        lowConfidence: field.confidence < lowConfidenceThreshold,
+      }));
+
       return {
         id: bill.id,
         customerNumber: bill.customerNumber,
@@ -374,6 +951,19 @@ export class BillsService {
         originalFileName: bill.originalFileName,
         processingStatus: bill.processingStatus as ProcessingStatus,
         createdAt: bill.createdAt,
+
+        // Cabeçalho da fatura
+        dueDate: bill.dueDate,
+        totalAmount: bill.totalAmount,
+        installationNumber: bill.installationNumber,
+        distributor: bill.distributor,
+        distributorCode: bill.distributorCode as DistributorCode,
+        tariffClass: bill.tariffClass,
+        tariffSubgroup: bill.tariffSubgroup,
+        readingPeriod: bill.readingStartDate && bill.readingEndDate ? {
+          startDate: bill.readingStartDate,
+          endDate: bill.readingEndDate
+        } : null,
         
         // Campos extraídos do PDF
         electricEnergy: {
@@ -395,6 +985,41 @@ export class BillsService {
         compensatedEnergy: bill.compensatedEnergy || 0,
         totalValueWithoutGD: bill.totalValueWithoutGD,
         gdEconomy: bill.gdEconomy || 0,
+
+        taxes: this.toTaxesResponse(bill),
+        totalTaxes: bill.totalTaxes,
+
+        textSource: bill.textSource as TextSource,
+        lineItems: this.toLineItemsResponse(bill.lineItems),
+
+        sourceDocumentId: bill.sourceDocumentId,
+        pageRange: this.toPageRange(bill) ?? null,
+        sourceDocument: bill.sourceDocument ? {
+          id: bill.sourceDocument.id,
+          originalFileName: bill.sourceDocument.originalFileName,
+          pageCount: bill.sourceDocument.pageCount,
+          bills: bill.sourceDocument.bills.map(segment => ({
+            billId: segment.id,
+            pageRange: this.toPageRange(segment) ?? null,
+            processingStatus: segment.processingStatus as ProcessingStatus,
+          })),
+        } : null,
+
+        extractedFields,
+        lowConfidenceFields: extractedFields.filter(field => field.lowConfidence).map(field => field.field),
+
+        discrepancies: (validationLog?.metadata as any)?.discrepancies,
+        corrections: (bill.corrections || []).map(correction => ({
+          version: correction.version,
+          field: correction.field,
+          oldValue: correction.oldValue,
+          newValue: correction.newValue,
+          username: correction.username,
+          comment: correction.comment,
+          createdAt: correction.createdAt,
+        })),
+        reviewedAt: bill.reviewedAt,
+        reviewedBy: bill.reviewedBy,
       };
 
     } catch (error) {
@@ -407,6 +1032,196 @@ export class BillsService {
     }
   }
 
+  // =========================
+  // REVISÃO HUMANA
+  // =========================
+
+  async getBillsForReview(page: number = 1, limit: number = 20): Promise<BillListResponseDto> {
+    return this.getBills({ status: ProcessingStatus.NEEDS_REVIEW }, page, limit);
+  }
+
+  // Aplica as correções, recalcula as variáveis derivadas e marca a fatura como revisada.
+  // Cada campo alterado vira um registro na versão seguinte da revisão.
+  async updateBillFields(
+    id: string,
+    fields: UpdateBillFieldsDto,
+    user: { userId: string; username: string },
+  ): Promise<UploadBillResponseDto> {
+    const { comment, ...corrections } = fields;
+    if (corrections.referenceMonth !== undefined) {
+      const referenceMonth = normalizeReferenceMonth(corrections.referenceMonth);
+      if (!referenceMonth) {
+        throw new BadRequestException(`Mês de referência inválido: ${corrections.referenceMonth}`);
+      }
+      corrections.referenceMonth = referenceMonth;
+    }
+    if (corrections.dueDate !== undefined) {
+      corrections.dueDate = corrections.dueDate.slice(0, 10);
+    }
+
+    const { version, changes, previousStatus } = await this.saveCorrections(id, corrections, comment, user);
+
+    await this.createProcessingLog(
+      id,
+      'fields_corrected',
+      'success',
+      changes.length
+        ? `Revisão ${version}: ${changes.length} campo(s) corrigido(s) por ${user.username}`
+        : `Revisão ${version}: valores aprovados sem alterações por ${user.username}`,
+      { version, fields: changes.map(change => change.field), previousStatus }
+    );
+
+    this.logger.log(`[REVISÃO] Fatura ${id} revisada por ${user.username} (versão ${version}, ${changes.length} alteração(ões))`);
+
+    return this.getBillById(id);
+  }
+
+  // Lê a fatura e a última versão e grava a revisão na mesma transação. Duas revisões
+  // simultâneas da mesma fatura que chegam à mesma versão esbarram no índice único
+  // (billId, field, version): a que perdeu é refeita sobre os valores já corrigidos
+  private async saveCorrections(
+    id: string,
+    corrections: Omit<UpdateBillFieldsDto, 'comment'>,
+    comment: string | undefined,
+    user: { userId: string; username: string },
+  ): Promise<{ version: number; changes: { field: string }[]; previousStatus: string }> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.prisma.$transaction(async tx => {
+          const bill = await tx.energyBill.findUnique({ where: { id } });
+          if (!bill) {
+            throw new NotFoundException('Fatura não encontrada');
+          }
+          if (bill.processingStatus !== ProcessingStatus.NEEDS_REVIEW && bill.processingStatus !== ProcessingStatus.COMPLETED) {
+            throw new BadRequestException('Só é possível corrigir faturas com status NEEDS_REVIEW ou COMPLETED');
+          }
+
+          const current = this.toCorrectableFields(bill);
+          const changes = Object.entries(corrections)
+            .filter(([field, value]) => value !== undefined && JSON.stringify(value) !== JSON.stringify(current[field]))
+            .map(([field, value]) => ({ field, oldValue: current[field] ?? null, newValue: value }));
+
+          const merged = { ...current, ...corrections } as LlmExtractionResponseDto;
+          const calculatedData = this.calculateDerivedValues({ ...merged, taxes: this.toTaxesResponse(bill) || undefined });
+
+          const lastVersion = await tx.billFieldCorrection.aggregate({
+            where: { billId: id },
+            _max: { version: true },
+          });
+          const version = (lastVersion._max.version || 0) + 1;
+
+          await tx.energyBill.update({
+            where: { id },
+            data: {
+              customerNumber: merged.customerNumber,
+              referenceMonth: merged.referenceMonth,
+              ...toReferencePeriodColumns(merged.referenceMonth),
+              electricEnergyQuantity: merged.electricEnergy.quantity,
+              electricEnergyValue: merged.electricEnergy.value,
+              sceeeQuantity: merged.sceeeEnergy?.quantity || 0,
+              sceeeValue: merged.sceeeEnergy?.value || 0,
+              compensatedEnergyQuantity: merged.compensatedEnergy?.quantity || 0,
+              compensatedEnergyValue: merged.compensatedEnergy?.value || 0,
+              publicLightingContrib: merged.publicLightingContrib || 0,
+              dueDate: merged.dueDate ? new Date(merged.dueDate) : null,
+              totalAmount: merged.totalAmount ?? null,
+              installationNumber: merged.installationNumber ?? null,
+              distributor: merged.distributor ?? null,
+              tariffClass: merged.tariffClass ?? null,
+              tariffSubgroup: merged.tariffSubgroup ?? null,
+              totalEnergyConsumption: calculatedData.totalEnergyConsumption,
+              compensatedEnergy: calculatedData.compensatedEnergy,
+              totalValueWithoutGD: calculatedData.totalValueWithoutGD,
+              gdEconomy: calculatedData.gdEconomy,
+              totalTaxes: calculatedData.totalTaxes,
+              processingStatus: ProcessingStatus.COMPLETED,
+              reviewedAt: new Date(),
+              reviewedBy: user.username,
+              corrections: {
+                create: changes.map(change => ({
+                  version,
+                  field: change.field,
+                  // Campos Json anuláveis exigem DbNull no lugar de null
+                  oldValue: change.oldValue ?? Prisma.DbNull,
+                  newValue: (change.newValue as Prisma.InputJsonValue) ?? Prisma.DbNull,
+                  userId: user.userId,
+                  username: user.username,
+                  comment,
+                })),
+              },
+            },
+          });
+
+          return { version, changes, previousStatus: bill.processingStatus };
+        });
+      } catch (error) {
+        if (error.code !== 'P2002' || attempt >= MAX_CORRECTION_ATTEMPTS) {
+          throw error;
+        }
+        this.logger.warn(`[REVISÃO] Fatura ${id} revisada ao mesmo tempo por outro usuário, refazendo a revisão`);
+      }
+    }
+  }
+
+  // Valores atuais da fatura no mesmo formato do corpo de PATCH /bills/:id/fields
+  private toCorrectableFields(bill: any): Record<string, any> {
+    return {
+      customerNumber: bill.customerNumber,
+      referenceMonth: bill.referenceMonth,
+      electricEnergy: { quantity: bill.electricEnergyQuantity, value: bill.electricEnergyValue },
+      sceeeEnergy: bill.sceeeQuantity || bill.sceeeValue
+        ? { quantity: bill.sceeeQuantity, value: bill.sceeeValue }
+        : null,
+      compensatedEnergy: bill.compensatedEnergyQuantity || bill.compensatedEnergyValue
+        ? { quantity: bill.compensatedEnergyQuantity, value: bill.compensatedEnergyValue }
+        : null,
+      publicLightingContrib: bill.publicLightingContrib,
+      dueDate: bill.dueDate ? bill.dueDate.toISOString().slice(0, 10) : null,
+      totalAmount: bill.totalAmount,
+      installationNumber: bill.installationNumber,
+      distributor: bill.distributor,
+      tariffClass: bill.tariffClass,
+      tariffSubgroup: bill.tariffSubgroup,
+    };
+  }
+
+  // Tentativas de extração da fatura, com a resposta bruta do modelo
+  async getExtractionRuns(id: string) {
+    const bill = await this.prisma.energyBill.findUnique({ where: { id }, select: { id: true } });
+    if (!bill) {
+      throw new NotFoundException('Fatura não encontrada');
+    }
+    return this.extractionRunService.findByBill(id);
+  }
+
+  // Dados pessoais mascarados no texto enviado ao provedor na última extração
+  async getRedactions(id: string) {
+    const bill = await this.prisma.energyBill.findUnique({ where: { id }, select: { id: true } });
+    if (!bill) {
+      throw new NotFoundException('Fatura não encontrada');
+    }
+    return this.redactionService.findByBill(id);
+  }
+
+  // Remove do cache as respostas dos textos já extraídos desta fatura
+  async invalidateExtractionCache(id: string): Promise<{ invalidated: number }> {
+    const runs = await this.getExtractionRuns(id);
+    const textHashes = Array.from(new Set(runs.map(run => run.textHash)));
+    const invalidated = await this.extractionCacheService.invalidate(textHashes);
+
+    await this.createProcessingLog(
+      id,
+      'extraction_cache_invalidated',
+      'success',
+      `${invalidated} entrada(s) removida(s) do cache de extração`,
+      { textHashes }
+    );
+
+    return { invalidated };
+  }
+
+  // Em PDFs com várias faturas exclui apenas o trecho; o documento de origem
+  // só é removido junto com a última fatura ligada a ele
   async deleteBill(id: string): Promise<void> {
     const bill = await this.prisma.energyBill.findUnique({ where: { id } });
     if (!bill) {
@@ -415,9 +1230,111 @@ export class BillsService {
     await this.prisma.energyBill.delete({ where: { id } });
     // Opcional: deletar logs relacionados
     await this.prisma.processingLog.deleteMany({ where: { billId: id } });
+
+    if (bill.sourceDocumentId) {
+      const remaining = await this.prisma.energyBill.count({ where: { sourceDocumentId: bill.sourceDocumentId } });
+      if (!remaining) {
+        await this.prisma.sourceDocument.delete({ where: { id: bill.sourceDocumentId } });
+      }
+    }
+    // A exclusão não passa por uma etapa de processamento: os contadores do lote são recalculados aqui
+    if (bill.batchId) {
+      await this.batchesService.sync(bill.batchId);
+    }
     this.logger.log(`Fatura ${id} excluída com sucesso.`);
   }
 
+  // =========================
+  // HISTÓRICO DE CONSUMO
+  // =========================
+
+  // Um mês já gravado só é sobrescrito pelo histórico de uma fatura de referência
+  // igual ou mais recente. Meses que também têm fatura completa são resolvidos na
+  // leitura (dashboard), onde a fatura prevalece.
+  private async saveConsumptionHistory(
+    billId: string,
+    extractedData: LlmExtractionResponseDto,
+  ): Promise<number> {
+    const history = extractedData.consumptionHistory || [];
+    if (!history.length) {
+      return 0;
+    }
+
+    try {
+      const sourceIndex = referenceMonthIndex(extractedData.referenceMonth);
+      const existing = await this.prisma.consumptionHistory.findMany({
+        where: {
+          customerNumber: extractedData.customerNumber,
+          referenceMonth: { in: history.map(item => item.month) },
+        },
+        select: { referenceMonth: true, sourceReferenceMonth: true },
+      });
+      const newerMonths = new Set(
+        existing
+          .filter(entry => referenceMonthIndex(entry.sourceReferenceMonth) > sourceIndex)
+          .map(entry => entry.referenceMonth),
+      );
+
+      const upserts = history
+        .filter(item => !newerMonths.has(item.month))
+        .map(item => {
+          const data = {
+            consumption: item.consumption,
+            days: item.days ?? null,
+            sourceBillId: billId,
+            sourceReferenceMonth: extractedData.referenceMonth,
+          };
+          return this.prisma.consumptionHistory.upsert({
+            where: {
+              customerNumber_referenceMonth: {
+                customerNumber: extractedData.customerNumber,
+                referenceMonth: item.month,
+              },
+            },
+            create: {
+              customerNumber: extractedData.customerNumber,
+              referenceMonth: item.month,
+              ...toReferencePeriodColumns(item.month),
+              ...data,
+            },
+            update: data,
+          });
+        });
+
+      await this.prisma.$transaction(upserts);
+      return upserts.length;
+    } catch (error) {
+      // O histórico é complementar: falhas não invalidam a fatura
+      this.logger.warn(`[HISTÓRICO] Falha ao gravar histórico de consumo da fatura ${billId}: ${error.message}`);
+      return 0;
+    }
+  }
+
+  private toTaxesResponse(bill: any): TaxBreakdownDto | null {
+    const taxes: TaxBreakdownDto = {};
+    for (const tax of ['icms', 'pis', 'cofins'] as const) {
+      if (bill[`${tax}Value`] !== null && bill[`${tax}Value`] !== undefined) {
+        taxes[tax] = {
+          base: bill[`${tax}Base`],
+          rate: bill[`${tax}Rate`],
+          value: bill[`${tax}Value`],
+        };
+      }
+    }
+    return Object.keys(taxes).length ? taxes : null;
+  }
+
+  private toLineItemsResponse(lineItems: any[] = []): LineItemDto[] {
+    return lineItems.map(item => ({
+      description: item.description,
+      unit: item.unit,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      value: item.value,
+      category: item.category as LineItemCategory,
+    }));
+  }
+
   private validateFile(file: Express.Multer.File): void {
     if (!file) {
       throw new BadRequestException('Nenhum arquivo foi enviado');
@@ -456,19 +1373,91 @@ export class BillsService {
     // Nota: Se o valor for negativo, significa crédito/desconto aplicado
     const gdEconomy = extractedData.compensatedEnergy?.value || 0;
 
+    // 5. Total de tributos (R$) = ICMS + PIS/PASEP + COFINS (null quando a fatura não traz o bloco)
+    const taxes = Object.values(extractedData.taxes || {});
+    const totalTaxes = taxes.length
+      ? Math.round(taxes.reduce((sum, tax) => sum + tax.value, 0) * 100) / 100
+      : null;
+
     this.logger.log(`[CÁLCULOS] Energia Total: ${totalEnergyConsumption} kWh, ` +
                    `Compensada: ${compensatedEnergy} kWh, ` +
                    `Valor sem GD: R$ ${totalValueWithoutGD}, ` + 
-                   `Economia GD: R$ ${gdEconomy}`);
+                   `Economia GD: R$ ${gdEconomy}, ` +
+                   `Tributos: R$ ${totalTaxes ?? '-'}`);
 
     return {
       totalEnergyConsumption,
       compensatedEnergy,
       totalValueWithoutGD,
       gdEconomy,
+      totalTaxes,
     };
   }
 
+  // =========================
+  // VALIDAÇÃO CRUZADA
+  // =========================
+
+  // Confere os itens contra o total impresso e quantidade × tarifa ≈ valor em cada item.
+  // Tolerâncias em R$: BILL_TOTAL_TOLERANCE (padrão 0,10) e LINE_ITEM_TOLERANCE (padrão 0,05)
+  private crossValidate(extractedData: LlmExtractionResponseDto): BillDiscrepancyDto[] {
+    const totalTolerance = this.readTolerance('BILL_TOTAL_TOLERANCE') ?? 0.1;
+    const itemTolerance = this.readTolerance('LINE_ITEM_TOLERANCE') ?? 0.05;
+    const discrepancies: BillDiscrepancyDto[] = [];
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    const lineItems = extractedData.lineItems || [];
+
+    if (extractedData.totalAmount !== undefined && extractedData.totalAmount !== null) {
+      // Sem a tabela de itens, soma os campos resumidos
+      const itemsTotal = lineItems.length
+        ? lineItems.reduce((sum, item) => sum + item.value, 0)
+        : extractedData.electricEnergy.value +
+          (extractedData.sceeeEnergy?.value || 0) +
+          (extractedData.compensatedEnergy?.value || 0) +
+          (extractedData.publicLightingContrib || 0);
+
+      const difference = round(itemsTotal - extractedData.totalAmount);
+      if (Math.abs(difference) > totalTolerance) {
+        discrepancies.push({
+          check: 'total',
+          description: 'Soma dos itens difere do valor a pagar impresso',
+          expected: extractedData.totalAmount,
+          actual: round(itemsTotal),
+          difference,
+        });
+      }
+    }
+
+    for (const item of lineItems) {
+      if (item.quantity === undefined || item.quantity === null || item.unitPrice === undefined || item.unitPrice === null) {
+        continue;
+      }
+
+      // Créditos vêm com valor negativo e quantidade positiva
+      const expected = round(item.quantity * item.unitPrice);
+      const difference = round(Math.abs(item.value) - Math.abs(expected));
+      if (Math.abs(difference) > itemTolerance) {
+        discrepancies.push({
+          check: 'lineItem',
+          description: item.description,
+          expected,
+          actual: item.value,
+          difference,
+        });
+      }
+    }
+
+    return discrepancies;
+  }
+
+  // Tolerância 0 é válida (exige valores exatos); ausente ou inválida usa o padrão
+  private readTolerance(name: string): number | undefined {
+    const raw = process.env[name]?.trim();
+    const value = raw ? Number(raw) : Number.NaN;
+    return Number.isFinite(value) && value >= 0 ? value : undefined;
+  }
+
   private async createProcessingLog(
     billId: string,
     operation: string,
@@ -476,18 +1465,39 @@ export class BillsService {
     message: string,
     metadata?: any,
   ): Promise<void> {
+    // Etapas do pipeline também são publicadas nos streams de eventos (SSE)
+    const stage = STAGE_BY_OPERATION[operation];
+    const at = new Date();
+    const timing = stage && billId ? this.processingEvents.measure(billId, stage, at) : undefined;
+
+    let log: { id: string } | undefined;
     try {
-      await this.prisma.processingLog.create({
+      log = await this.prisma.processingLog.create({
         data: {
           billId,
           operation,
           status,
           message,
           metadata,
+          createdAt: at,
+          duration: timing?.durationMs,
         },
       });
     } catch (error) {
       this.logger.error(`Erro ao criar log de processamento: ${error.message}`);
     }
+
+    if (timing) {
+      this.processingEvents.publish({
+        id: log?.id,
+        billId,
+        stage,
+        status,
+        message,
+        at,
+        ...timing,
+        ...(metadata && { metadata }),
+      });
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { ProcessingStatus } from './bills.dto';
+
+export enum BatchStatus {
+  PROCESSING = 'PROCESSING',
+  COMPLETED = 'COMPLETED',
+  COMPLETED_WITH_ERRORS = 'COMPLETED_WITH_ERRORS', // Falhas, cancelamentos ou arquivos recusados
+}
+
+// Resultado do recebimento de um arquivo do lote
+export class BatchFileDto {
+  fileName: string;
+  success: boolean;
+  billIds: string[];         // Vazio quando o arquivo foi recusado
+  error?: string;
+}
+
+export class BatchSummaryDto {
+  id: string;
+  status: BatchStatus;
+  uploadedBy: string | null;
+  uploaderIp: string | null;
+  fileCount: number;
+  rejectedFileCount: number;
+  billCount: number;
+  queuedCount: number;       // PENDING ou PROCESSING
+  completedCount: number;    // COMPLETED ou NEEDS_REVIEW
+  failedCount: number;
+  cancelledCount: number;
+  startedAt: Date;
+  receivedAt: Date | null;   // Todos os arquivos gravados e enfileirados
+  finishedAt: Date | null;   // Nenhuma fatura na fila
+}
+
+export class BatchBillDto {
+  id: string;
+  originalFileName: string;
+  processingStatus: ProcessingStatus;
+  errorMessage: string | null;
+  pageStart: number | null;
+  pageEnd: number | null;
+  updatedAt: Date;
+}
+
+export class BatchDetailDto extends BatchSummaryDto {
+  files: BatchFileDto[];
+  bills: BatchBillDto[];
+}
+
+export class BatchListResponseDto {
+  batches: BatchSummaryDto[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export class BatchRetryDto {
+  batchId: string;
+  requeued: number;          // Faturas FAILED devolvidas à fila
+  billIds: string[];
+}
@@ -1,10 +1,43 @@
-import { IsString, IsOptional, IsDateString, IsEnum } from 'class-validator';
+import { IsString, IsOptional, IsDateString, IsEnum, IsNumber, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { DistributorCode, EnergyItemDto, LineItemDto, PageRangeDto, TaxBreakdownDto, TextSource } from '../../llm/dto/llm-extraction.dto';
 
 export enum ProcessingStatus {
   PENDING = 'PENDING',
   PROCESSING = 'PROCESSING',
   COMPLETED = 'COMPLETED',
   FAILED = 'FAILED',
+  NEEDS_REVIEW = 'NEEDS_REVIEW',
+  CANCELLED = 'CANCELLED',
+}
+
+// Divergência encontrada na validação cruzada dos valores extraídos
+export class BillDiscrepancyDto {
+  check: 'total' | 'lineItem'; // Total impresso ou quantidade × tarifa de um item
+  description: string;
+  expected: number; // R$
+  actual: number; // R$
+  difference: number; // R$
+}
+
+export class ExtractedFieldDto {
+  field: string;
+  confidence: number;      // 0 a 1
+  snippet?: string;        // Trecho do texto de onde o valor foi extraído
+  page?: number;           // Página do PDF
+  lowConfidence: boolean;  // Abaixo de LOW_CONFIDENCE_THRESHOLD
+}
+
+// PDF enviado no upload; pode conter várias faturas (uma por trecho de páginas)
+export class SourceDocumentDto {
+  id: string;
+  originalFileName: string;
+  pageCount?: number | null;
+  bills: {
+    billId: string;
+    pageRange: PageRangeDto | null;
+    processingStatus: ProcessingStatus;
+  }[];
 }
 
 export class UploadBillResponseDto {
@@ -14,6 +47,19 @@ export class UploadBillResponseDto {
   originalFileName: string;
   processingStatus: ProcessingStatus;
   createdAt: Date;
+
+  // Cabeçalho da fatura
+  dueDate?: Date | null;           // Vencimento
+  totalAmount?: number | null;     // Valor a pagar (R$)
+  installationNumber?: string | null; // Nº da instalação (UC)
+  distributor?: string | null;
+  distributorCode?: DistributorCode | null; // Distribuidora detectada pelo layout
+  tariffClass?: string | null;
+  tariffSubgroup?: string | null;
+  readingPeriod?: {
+    startDate: Date;
+    endDate: Date;
+  } | null;
   
   // Campos extraídos do PDF (conforme especificação do teste)
   electricEnergy: {
@@ -38,6 +84,96 @@ export class UploadBillResponseDto {
   compensatedEnergy: number;       // Energia Compensada (kWh)
   totalValueWithoutGD: number;     // Valor Total sem GD (R$)
   gdEconomy: number;               // Economia GD (R$)
+
+  taxes?: TaxBreakdownDto | null;  // ICMS, PIS/PASEP e COFINS (base, alíquota e valor)
+  totalTaxes?: number | null;      // Total de tributos (R$)
+
+  textSource?: TextSource;         // Origem do texto extraído (NATIVE ou OCR)
+
+  lineItems?: LineItemDto[];       // Todas as linhas da tabela "Itens da fatura"
+
+  // Documento de origem e páginas da fatura dentro dele
+  sourceDocumentId?: string | null;
+  pageRange?: PageRangeDto | null;
+  sourceDocument?: SourceDocumentDto | null; // Apenas na consulta individual
+
+  // Confiança e origem por campo (apenas na consulta individual)
+  extractedFields?: ExtractedFieldDto[];
+  lowConfidenceFields?: string[];
+
+  // Revisão (apenas na consulta individual)
+  discrepancies?: BillDiscrepancyDto[];
+  corrections?: BillFieldCorrectionDto[];
+  reviewedAt?: Date | null;
+  reviewedBy?: string | null;
+}
+
+// Campos que podem ser corrigidos na revisão (PATCH /bills/:id/fields)
+export class UpdateBillFieldsDto {
+  @IsOptional()
+  @IsString()
+  customerNumber?: string;
+
+  @IsOptional()
+  @IsString()
+  referenceMonth?: string; // MMM/AAAA
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => EnergyItemDto)
+  electricEnergy?: EnergyItemDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => EnergyItemDto)
+  sceeeEnergy?: EnergyItemDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => EnergyItemDto)
+  compensatedEnergy?: EnergyItemDto;
+
+  @IsOptional()
+  @IsNumber()
+  publicLightingContrib?: number;
+
+  @IsOptional()
+  @IsDateString()
+  dueDate?: string;
+
+  @IsOptional()
+  @IsNumber()
+  totalAmount?: number;
+
+  @IsOptional()
+  @IsString()
+  installationNumber?: string;
+
+  @IsOptional()
+  @IsString()
+  distributor?: string;
+
+  @IsOptional()
+  @IsString()
+  tariffClass?: string;
+
+  @IsOptional()
+  @IsString()
+  tariffSubgroup?: string;
+
+  @IsOptional()
+  @IsString()
+  comment?: string; // Justificativa da revisão
+}
+
+export class BillFieldCorrectionDto {
+  version: number;
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+  username: string;
+  comment?: string;
+  createdAt: Date;
 }
 
 export class BillFilterDto {
@@ -47,8 +183,9 @@ export class BillFilterDto {
 
   @IsOptional()
   @IsString()
-  referenceMonth?: string;
+  referenceMonth?: string; // MMM/AAAA, AAAA-MM ou apenas o ano (AAAA)
 
+  // Intervalo de meses de referência (inclusivo), não a data de upload
   @IsOptional()
   @IsDateString()
   startDate?: string;
@@ -60,6 +197,22 @@ export class BillFilterDto {
   @IsOptional()
   @IsEnum(ProcessingStatus)
   status?: ProcessingStatus;
+
+  @IsOptional()
+  @IsDateString()
+  dueDateFrom?: string;
+
+  @IsOptional()
+  @IsDateString()
+  dueDateTo?: string;
+
+  @IsOptional()
+  @IsString()
+  distributor?: string;
+
+  @IsOptional()
+  @IsEnum(DistributorCode)
+  distributorCode?: DistributorCode;
 }
 
 export class BillListResponseDto {
@@ -77,4 +230,65 @@ export class ProcessBillResponseDto {
   processingTime?: number;
   fileName?: string;
   error?: string;
-}
\ No newline at end of file
+  status?: ProcessingStatus;
+  discrepancies?: BillDiscrepancyDto[];
+  pageRange?: PageRangeDto;           // Páginas da fatura no PDF
+  sourceDocumentId?: string;          // PDF com várias faturas
+  segments?: ProcessBillResponseDto[]; // Resultado de cada fatura do PDF
+  batchId?: string;                   // Upload em lote
+}
+export enum JobStatus {
+  QUEUED = 'QUEUED',
+  RUNNING = 'RUNNING',
+  SUCCEEDED = 'SUCCEEDED',
+  FAILED = 'FAILED',
+  CANCELLED = 'CANCELLED',
+}
+
+// Situação da fatura na fila de processamento assíncrono
+export class BillProcessingStatusDto {
+  billId: string;
+  status: ProcessingStatus;
+  errorMessage?: string | null;
+  updatedAt: Date;
+  job: {
+    status: JobStatus;
+    attempts: number;        // Tentativas iniciadas
+    maxAttempts: number;
+    runAt: Date;             // Próxima tentativa (QUEUED)
+    lastError?: string | null;
+    finishedAt?: Date | null;
+  } | null;                  // Faturas anteriores à fila não têm tarefa
+}
+
+// Etapas do processamento emitidas em GET /bills/:id/events
+export enum ProcessingStage {
+  STORED = 'stored',                 // Arquivo gravado e fatura na fila
+  PROCESSING = 'processing',         // Worker (ou reprocessamento) iniciou a extração
+  TEXT_EXTRACTED = 'text_extracted', // Texto do PDF extraído (camada nativa ou OCR)
+  LLM_CALLED = 'llm_called',         // Resposta do provedor recebida (ou do cache)
+  VALIDATED = 'validated',           // Validação cruzada concluída
+  QUEUED = 'queued',                 // De volta à fila (provedor indisponível ou nova tentativa)
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',           // Retirada da fila pelo cancelamento do lote
+}
+
+export class ProcessingEventDto {
+  id?: string;               // ID do log de processamento
+  billId: string;
+  stage: ProcessingStage;
+  status: string;            // success, warning ou error
+  message: string;
+  at: Date;
+  durationMs?: number;       // Desde a etapa anterior
+  elapsedMs?: number;        // Desde o início do processamento (stored ou processing)
+  metadata?: Record<string, unknown>;
+}
+
+// Resultado do cancelamento de um lote
+export class BatchCancellationDto {
+  batchId: string;
+  cancelled: number;         // Faturas retiradas da fila
+  inProgress: number;        // Faturas já em processamento, que terminam normalmente
+}
@@ -0,0 +1,183 @@
+import { Injectable, MessageEvent } from '@nestjs/common';
+import { Observable, Subject, filter, interval } from 'rxjs';
+import { ProcessingEventDto, ProcessingStage } from '../dto/bills.dto';
+
+// Intervalo do evento "ping" que mantém a conexão aberta atrás de proxies e
+// balanceadores enquanto a fatura espera na fila
+const KEEPALIVE_INTERVAL_MS = 15000;
+
+// Operações dos logs de processamento que representam etapas do pipeline.
+// Demais operações (correções, invalidação de cache) não geram eventos
+export const STAGE_BY_OPERATION: Record<string, ProcessingStage> = {
+  upload_started: ProcessingStage.STORED,
+  processing_started: ProcessingStage.PROCESSING,
+  text_extracted: ProcessingStage.TEXT_EXTRACTED,
+  llm_called: ProcessingStage.LLM_CALLED,
+  validation_passed: ProcessingStage.VALIDATED,
+  validation_failed: ProcessingStage.VALIDATED,
+  processing_queued: ProcessingStage.QUEUED,
+  processing_retry_scheduled: ProcessingStage.QUEUED,
+  retry_requested: ProcessingStage.QUEUED,
+  reprocess_requested: ProcessingStage.QUEUED,
+  processing_completed: ProcessingStage.COMPLETED,
+  processing_failed: ProcessingStage.FAILED,
+  processing_cancelled: ProcessingStage.CANCELLED,
+};
+
+const START_STAGES = [ProcessingStage.STORED, ProcessingStage.PROCESSING];
+const FINAL_STAGES = [
+  ProcessingStage.COMPLETED,
+  ProcessingStage.FAILED,
+  ProcessingStage.CANCELLED,
+];
+
+interface StageTiming {
+  startedAt: number;
+  lastAt: number;
+}
+
+// Log de processamento como gravado no banco
+export interface ProcessingLogRecord {
+  id: string;
+  billId: string | null;
+  operation: string;
+  status: string;
+  message: string | null;
+  metadata: unknown;
+  createdAt: Date;
+}
+
+// Duração desde a etapa anterior e tempo total desde o início do processamento
+function applyTiming(
+  timings: Map<string, StageTiming>,
+  billId: string,
+  stage: ProcessingStage,
+  at: number,
+): Pick<ProcessingEventDto, 'durationMs' | 'elapsedMs'> {
+  const previous = timings.get(billId);
+  const timing =
+    !previous || START_STAGES.includes(stage)
+      ? { startedAt: at, lastAt: previous?.lastAt ?? at }
+      : previous;
+  const result = {
+    durationMs: at - timing.lastAt,
+    elapsedMs: at - timing.startedAt,
+  };
+  timings.set(billId, { startedAt: timing.startedAt, lastAt: at });
+  return result;
+}
+
+// Distribui as etapas do processamento das faturas para os streams SSE. Os
+// eventos saem dos mesmos pontos que gravam os logs de processamento, e cada
+// stream começa pelo histórico gravado (clientes que conectam depois do upload)
+@Injectable()
+export class ProcessingEventsService {
+  private readonly events$ = new Subject<ProcessingEventDto>();
+  private readonly timings = new Map<string, StageTiming>();
+
+  // Calcula a duração da etapa; chamado antes de gravar o log
+  measure(
+    billId: string,
+    stage: ProcessingStage,
+    at: Date,
+  ): Pick<ProcessingEventDto, 'durationMs' | 'elapsedMs'> {
+    const timing = applyTiming(this.timings, billId, stage, at.getTime());
+    if (FINAL_STAGES.includes(stage)) {
+      this.timings.delete(billId);
+    }
+    return timing;
+  }
+
+  publish(event: ProcessingEventDto): void {
+    this.events$.next(event);
+  }
+
+  // Todas as etapas publicadas nesta instância, sem histórico
+  get stages(): Observable<ProcessingEventDto> {
+    return this.events$.asObservable();
+  }
+
+  // Converte os logs gravados (em ordem cronológica) em eventos de etapa
+  fromLogs(logs: ProcessingLogRecord[]): ProcessingEventDto[] {
+    const timings = new Map<string, StageTiming>();
+    return logs
+      .filter(log => log.billId && STAGE_BY_OPERATION[log.operation])
+      .map(log => {
+        const stage = STAGE_BY_OPERATION[log.operation];
+        return {
+          id: log.id,
+          billId: log.billId,
+          stage,
+          status: log.status,
+          message: log.message ?? '',
+          at: log.createdAt,
+          ...applyTiming(timings, log.billId, stage, log.createdAt.getTime()),
+          ...(log.metadata && {
+            metadata: log.metadata as Record<string, unknown>,
+          }),
+        };
+      });
+  }
+
+  // Histórico seguido dos eventos ao vivo das faturas. O stream termina quando
+  // todas chegam a completed, failed ou cancelled. Eventos publicados enquanto o
+  // histórico é carregado ficam em espera e não são repetidos
+  watch(
+    billIds: string[],
+    loadHistory: () => Promise<ProcessingEventDto[]>,
+  ): Observable<MessageEvent> {
+    return new Observable<MessageEvent>(subscriber => {
+      const pending = new Set(billIds);
+      const emitted = new Set<string>();
+      const buffered: ProcessingEventDto[] = [];
+      let loading = true;
+
+      const emit = (event: ProcessingEventDto) => {
+        if (event.id && emitted.has(event.id)) {
+          return;
+        }
+        if (event.id) {
+          emitted.add(event.id);
+        }
+        subscriber.next({ type: event.stage, data: event });
+        if (FINAL_STAGES.includes(event.stage)) {
+          pending.delete(event.billId);
+        } else {
+          pending.add(event.billId);
+        }
+      };
+      const completeIfDone = () => {
+        if (!pending.size) {
+          subscriber.complete();
+        }
+      };
+
+      const live = this.events$
+        .pipe(filter(event => billIds.includes(event.billId)))
+        .subscribe(event => {
+          if (loading) {
+            buffered.push(event);
+            return;
+          }
+          emit(event);
+          completeIfDone();
+        });
+      const keepalive = interval(KEEPALIVE_INTERVAL_MS).subscribe(() =>
+        subscriber.next({ type: 'ping', data: {} }),
+      );
+
+      loadHistory()
+        .then(history => {
+          loading = false;
+          [...history, ...buffered].forEach(emit);
+          completeIfDone();
+        })
+        .catch(error => subscriber.error(error));
+
+      return () => {
+        live.unsubscribe();
+        keepalive.unsubscribe();
+      };
+    });
+  }
+}
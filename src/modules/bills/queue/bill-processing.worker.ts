@@ -0,0 +1,177 @@
+import {
+  HttpException,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LlmService } from '../../llm/llm.service';
+import { BillsService } from '../bills.service';
+import { ProcessingStatus } from '../dto/bills.dto';
+import { ClaimedJob, ProcessingQueueService } from './processing-queue.service';
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+// Erros do arquivo ou da fatura (4xx) se repetiriam em uma nova tentativa
+function isPermanentError(error: unknown): boolean {
+  return error instanceof HttpException && error.getStatus() < 500;
+}
+
+// Consome a fila de processamento: reserva tarefas até o limite de
+// concorrência e extrai cada fatura, renovando o lease enquanto ela roda
+@Injectable()
+export class BillProcessingWorker implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(BillProcessingWorker.name);
+  private readonly running = new Map<string, Promise<void>>();
+  private pollTimer: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(
+    private readonly processingQueue: ProcessingQueueService,
+    private readonly billsService: BillsService,
+    private readonly llmService: LlmService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  get concurrency(): number {
+    return (
+      Number(this.configService.get<string>('JOB_WORKER_CONCURRENCY')) ||
+      DEFAULT_CONCURRENCY
+    );
+  }
+
+  onModuleInit() {
+    // Instâncias só de API (sem worker) apenas enfileiram
+    if (this.configService.get<string>('JOB_WORKER_ENABLED') === 'false') {
+      this.logger.log('[WORKER] Desativado (JOB_WORKER_ENABLED=false)');
+      return;
+    }
+
+    this.processingQueue
+      .enqueueOrphans()
+      .catch(error =>
+        this.logger.error(
+          `[WORKER] Erro ao enfileirar faturas pendentes: ${error.message}`,
+        ),
+      );
+
+    const intervalMs =
+      Number(this.configService.get<string>('JOB_POLL_INTERVAL_MS')) ||
+      DEFAULT_POLL_INTERVAL_MS;
+    this.pollTimer = setInterval(() => this.poll(), intervalMs);
+    this.pollTimer.unref();
+    this.logger.log(
+      `[WORKER] ${this.processingQueue.workerId} iniciado (concorrência ${this.concurrency})`,
+    );
+  }
+
+  async onModuleDestroy() {
+    clearInterval(this.pollTimer);
+    await this.drain();
+  }
+
+  // Reserva tarefas para as vagas livres. Com o circuito do provedor aberto
+  // nada é reservado: as faturas continuam na fila sem gastar tentativas
+  async poll(): Promise<number> {
+    const free = this.concurrency - this.running.size;
+    if (this.polling || free <= 0 || !this.llmService.isProviderAvailable()) {
+      return 0;
+    }
+
+    this.polling = true;
+    try {
+      await this.failExhausted();
+      const jobs = await this.processingQueue.claim(free);
+      for (const job of jobs) {
+        const run = this.run(job).finally(() => this.running.delete(job.id));
+        this.running.set(job.id, run);
+      }
+      return jobs.length;
+    } catch (error) {
+      this.logger.error(`[WORKER] Erro ao reservar tarefas: ${error.message}`);
+      return 0;
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  // Aguarda as tarefas em execução (desligamento da aplicação)
+  async drain(): Promise<void> {
+    await Promise.allSettled([...this.running.values()]);
+  }
+
+  // Faturas cujo processamento caiu em todas as tentativas (lease vencido)
+  // sairiam da fila sem nunca deixar PROCESSING
+  private async failExhausted(): Promise<void> {
+    const failed = await this.processingQueue.failExhausted();
+    for (const { billId, error } of failed) {
+      await this.billsService.markFailed(billId, error);
+      this.logger.error(
+        `[WORKER] Fatura ${billId} falhou definitivamente: ${error.message}`,
+      );
+    }
+  }
+
+  private async run(job: ClaimedJob): Promise<void> {
+    const heartbeat = setInterval(
+      () =>
+        this.processingQueue
+          .renewLease(job.id)
+          .catch(error =>
+            this.logger.warn(
+              `[WORKER] Falha ao renovar lease da tarefa ${job.id}: ${error.message}`,
+            ),
+          ),
+      this.processingQueue.leaseMs / 2,
+    );
+    heartbeat.unref();
+
+    try {
+      this.logger.log(
+        `[WORKER] Processando fatura ${job.billId} (tentativa ${job.attempts}/${job.maxAttempts})`,
+      );
+      const result = await this.billsService.processQueuedBill(job.billId);
+      // PENDING: provedor indisponível, a tarefa já foi adiada pelo BillsService
+      if (result.status !== ProcessingStatus.PENDING) {
+        await this.processingQueue.complete(job.id);
+      }
+    } catch (error) {
+      await this.handleFailure(job, error);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async handleFailure(job: ClaimedJob, error: Error): Promise<void> {
+    try {
+      const retry = await this.processingQueue.fail(
+        job,
+        error,
+        isPermanentError(error),
+      );
+      if (retry) {
+        await this.billsService.markForRetry(
+          job.billId,
+          error,
+          job.attempts,
+          job.maxAttempts,
+        );
+        this.logger.warn(
+          `[WORKER] Fatura ${job.billId} falhou (tentativa ${job.attempts}/${job.maxAttempts}), nova tentativa agendada: ${error.message}`,
+        );
+      } else {
+        await this.billsService.markFailed(job.billId, error);
+        this.logger.error(
+          `[WORKER] Fatura ${job.billId} falhou definitivamente: ${error.message}`,
+        );
+      }
+    } catch (queueError) {
+      // Ex: fatura excluída durante o processamento (a tarefa some junto)
+      this.logger.error(
+        `[WORKER] Erro ao registrar falha da tarefa ${job.id}: ${queueError.message}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,260 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JobStatus, Prisma } from '@prisma/client';
+import { randomBytes } from 'node:crypto';
+import { hostname } from 'node:os';
+import { PrismaService } from '../../prisma/prisma.service';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_LEASE_MS = 300000;
+const DEFAULT_RETRY_BASE_DELAY_MS = 30000;
+const DEFAULT_MAX_POSTPONEMENTS = 30;
+const LEASE_EXHAUSTED_ERROR =
+  'Processamento interrompido em todas as tentativas (lease vencido)';
+
+// Tarefa reservada por um worker
+export interface ClaimedJob {
+  id: string;
+  billId: string;
+  attempts: number;
+  maxAttempts: number;
+}
+
+@Injectable()
+export class ProcessingQueueService {
+  private readonly logger = new Logger(ProcessingQueueService.name);
+
+  // Identifica o worker deste processo nos leases (várias instâncias da API
+  // podem consumir a mesma fila)
+  readonly workerId = `${hostname()}:${process.pid}:${randomBytes(3).toString('hex')}`;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  get leaseMs(): number {
+    return this.readNumber('JOB_LEASE_MS', DEFAULT_LEASE_MS);
+  }
+
+  // Coloca a fatura na fila. Uma fatura reenviada (ex: reprocessamento)
+  // reaproveita a tarefa existente com as tentativas zeradas
+  async enqueue(billId: string, runAt: Date = new Date()): Promise<void> {
+    const job = {
+      status: JobStatus.QUEUED,
+      attempts: 0,
+      maxAttempts: this.readNumber('JOB_MAX_ATTEMPTS', DEFAULT_MAX_ATTEMPTS),
+      postponements: 0,
+      runAt,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      lastError: null,
+      finishedAt: null,
+    };
+    await this.prisma.processingJob.upsert({
+      where: { billId },
+      create: { billId, ...job },
+      update: job,
+    });
+  }
+
+  // Reserva até `limit` tarefas prontas para execução, incluindo as RUNNING
+  // com lease vencido que ainda têm tentativas. SKIP LOCKED impede que dois
+  // workers peguem a mesma
+  async claim(limit: number): Promise<ClaimedJob[]> {
+    if (limit <= 0) {
+      return [];
+    }
+    const now = new Date();
+    const leaseExpiresAt = new Date(now.getTime() + this.leaseMs);
+    return this.prisma.$queryRaw<ClaimedJob[]>(Prisma.sql`
+      UPDATE "processing_jobs"
+      SET "status" = 'RUNNING',
+          "attempts" = "attempts" + 1,
+          "leaseOwner" = ${this.workerId},
+          "leaseExpiresAt" = ${leaseExpiresAt},
+          "updatedAt" = ${now}
+      WHERE "id" IN (
+        SELECT "id" FROM "processing_jobs"
+        WHERE ("status" = 'QUEUED' AND "runAt" <= ${now})
+           OR ("status" = 'RUNNING' AND "leaseExpiresAt" < ${now} AND "attempts" < "maxAttempts")
+        ORDER BY "runAt" ASC
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING "id", "billId", "attempts", "maxAttempts"
+    `);
+  }
+
+  // Encerra como FAILED as tarefas RUNNING com lease vencido e sem tentativas
+  // restantes: o processo caiu em todas elas (ex: falta de memória em um PDF
+  // enorme). Retorna as faturas afetadas
+  async failExhausted(): Promise<{ billId: string; error: Error }[]> {
+    const now = new Date();
+    const failed = await this.prisma.$queryRaw<{ billId: string }[]>(Prisma.sql`
+      UPDATE "processing_jobs"
+      SET "status" = 'FAILED',
+          "leaseOwner" = NULL,
+          "leaseExpiresAt" = NULL,
+          "lastError" = ${LEASE_EXHAUSTED_ERROR},
+          "finishedAt" = ${now},
+          "updatedAt" = ${now}
+      WHERE "status" = 'RUNNING'
+        AND "leaseExpiresAt" < ${now}
+        AND "attempts" >= "maxAttempts"
+      RETURNING "billId"
+    `);
+    return failed.map(job => ({
+      billId: job.billId,
+      error: new Error(LEASE_EXHAUSTED_ERROR),
+    }));
+  }
+
+  // Estende o lease de uma tarefa em execução (processamentos longos, como OCR)
+  async renewLease(jobId: string): Promise<void> {
+    await this.prisma.processingJob.updateMany({
+      where: {
+        id: jobId,
+        status: JobStatus.RUNNING,
+        leaseOwner: this.workerId,
+      },
+      data: { leaseExpiresAt: new Date(Date.now() + this.leaseMs) },
+    });
+  }
+
+  async complete(jobId: string): Promise<void> {
+    await this.prisma.processingJob.update({
+      where: { id: jobId },
+      data: {
+        status: JobStatus.SUCCEEDED,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        lastError: null,
+        finishedAt: new Date(),
+      },
+    });
+  }
+
+  // Devolve a tarefa para a fila com backoff exponencial, ou a encerra como
+  // FAILED quando o erro é permanente ou as tentativas se esgotaram.
+  // Retorna true quando haverá nova tentativa
+  async fail(
+    job: ClaimedJob,
+    error: Error,
+    permanent = false,
+  ): Promise<boolean> {
+    const retry = !permanent && job.attempts < job.maxAttempts;
+    const baseDelayMs = this.readNumber(
+      'JOB_RETRY_BASE_DELAY_MS',
+      DEFAULT_RETRY_BASE_DELAY_MS,
+    );
+    await this.prisma.processingJob.update({
+      where: { id: job.id },
+      data: {
+        status: retry ? JobStatus.QUEUED : JobStatus.FAILED,
+        runAt: retry
+          ? new Date(Date.now() + baseDelayMs * 2 ** (job.attempts - 1))
+          : undefined,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        lastError: error.message,
+        finishedAt: retry ? null : new Date(),
+      },
+    });
+    return retry;
+  }
+
+  // Adia a tarefa sem consumir tentativa (ex: provedor de LLM indisponível).
+  // Depois de JOB_MAX_POSTPONEMENTS adiamentos (ex: cota do provedor esgotada)
+  // a tarefa não é mais adiada e retorna false: a falha passa a consumir
+  // tentativas, como qualquer outra
+  async postpone(
+    billId: string,
+    delayMs: number,
+    reason: string,
+  ): Promise<boolean> {
+    const runAt = new Date(Date.now() + delayMs);
+    const { count } = await this.prisma.processingJob.updateMany({
+      where: {
+        billId,
+        status: JobStatus.RUNNING,
+        postponements: {
+          lt: this.readNumber(
+            'JOB_MAX_POSTPONEMENTS',
+            DEFAULT_MAX_POSTPONEMENTS,
+          ),
+        },
+      },
+      data: {
+        status: JobStatus.QUEUED,
+        attempts: { decrement: 1 },
+        postponements: { increment: 1 },
+        runAt,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        lastError: reason,
+      },
+    });
+    if (count) {
+      return true;
+    }
+
+    const job = await this.findByBill(billId);
+    if (job?.status === JobStatus.RUNNING) {
+      return false;
+    }
+    await this.enqueue(billId, runAt);
+    return true;
+  }
+
+  // Cancela as tarefas ainda na fila. Tarefas já reservadas por um worker
+  // terminam normalmente. Retorna as faturas retiradas da fila
+  async cancelQueued(billIds: string[], reason: string): Promise<string[]> {
+    if (!billIds.length) {
+      return [];
+    }
+    const now = new Date();
+    const cancelled = await this.prisma.$queryRaw<
+      { billId: string }[]
+    >(Prisma.sql`
+      UPDATE "processing_jobs"
+      SET "status" = 'CANCELLED',
+          "lastError" = ${reason},
+          "finishedAt" = ${now},
+          "updatedAt" = ${now}
+      WHERE "status" = 'QUEUED' AND "billId" IN (${Prisma.join(billIds)})
+      RETURNING "billId"
+    `);
+    return cancelled.map(job => job.billId);
+  }
+
+  async findByBill(billId: string) {
+    return this.prisma.processingJob.findUnique({ where: { billId } });
+  }
+
+  // Faturas PENDING sem tarefa (enviadas antes da fila existir) entram na fila
+  async enqueueOrphans(): Promise<number> {
+    const bills = await this.prisma.energyBill.findMany({
+      where: { processingStatus: 'PENDING', processingJob: null },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    for (const bill of bills) {
+      await this.enqueue(bill.id);
+    }
+    if (bills.length) {
+      this.logger.log(
+        `[FILA] ${bills.length} fatura(s) pendente(s) adicionada(s) à fila`,
+      );
+    }
+    return bills.length;
+  }
+
+  private readNumber(key: string, fallback: number): number {
+    const raw = this.configService.get<string>(key);
+    const parsed = Number(raw);
+    return raw !== undefined && raw !== '' && !Number.isNaN(parsed)
+      ? parsed
+      : fallback;
+  }
+}
@@ -0,0 +1,173 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { BatchesService } from '../batches/batches.service';
+import { ProcessingEventsService } from '../events/processing-events.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ProcessingStage, ProcessingStatus } from '../dto/bills.dto';
+import { BatchStatus } from '../dto/batches.dto';
+
+describe('BatchesService', () => {
+  let service: BatchesService;
+  let processingEvents: ProcessingEventsService;
+
+  const summary = {
+    id: 'batch-1',
+    status: BatchStatus.PROCESSING,
+    uploadedBy: 'operacoes',
+    uploaderIp: '10.0.0.12',
+    fileCount: 2,
+    rejectedFileCount: 1,
+    billCount: 1,
+    queuedCount: 1,
+    completedCount: 0,
+    failedCount: 0,
+    cancelledCount: 0,
+    startedAt: new Date('2024-10-31T18:00:00Z'),
+    receivedAt: new Date('2024-10-31T18:00:05Z'),
+    finishedAt: null,
+  };
+
+  const mockPrismaService = {
+    batch: {
+      create: jest.fn(),
+      update: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+    },
+    energyBill: {
+      findUnique: jest.fn(),
+    },
+    $executeRaw: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BatchesService,
+        ProcessingEventsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<BatchesService>(BatchesService);
+    processingEvents = module.get<ProcessingEventsService>(
+      ProcessingEventsService,
+    );
+  });
+
+  it('should record rejected files and recount the batch when intake ends', async () => {
+    await service.recordIntake('batch-1', [
+      { fileName: 'a.pdf', success: true, billIds: ['bill-1'] },
+      {
+        fileName: 'b.pdf',
+        success: false,
+        billIds: [],
+        error: 'Arquivo repetido no lote',
+      },
+    ]);
+
+    expect(mockPrismaService.batch.update).toHaveBeenCalledWith({
+      where: { id: 'batch-1' },
+      data: expect.objectContaining({
+        rejectedFileCount: 1,
+        receivedAt: expect.any(Date),
+      }),
+    });
+    const [query] = mockPrismaService.$executeRaw.mock.calls[0];
+    expect(query.sql).toContain('COMPLETED_WITH_ERRORS');
+    expect(query.values).toContain('batch-1');
+  });
+
+  it('should group recounts requested while one is running', async () => {
+    let release: () => void;
+    mockPrismaService.$executeRaw.mockReturnValueOnce(
+      new Promise<void>(resolve => (release = resolve)),
+    );
+
+    const first = service.sync('batch-1');
+    const second = service.sync('batch-1');
+    const third = service.sync('batch-1');
+    release();
+    await Promise.all([first, second, third]);
+
+    expect(mockPrismaService.$executeRaw).toHaveBeenCalledTimes(2);
+  });
+
+  it('should recount the batch when one of its bills finishes', async () => {
+    mockPrismaService.energyBill.findUnique.mockResolvedValueOnce({
+      batchId: 'batch-1',
+    });
+    service.onModuleInit();
+
+    processingEvents.publish({
+      billId: 'bill-1',
+      stage: ProcessingStage.LLM_CALLED,
+      status: 'success',
+      message: 'Resposta do provedor de LLM recebida',
+      at: new Date(),
+    });
+    processingEvents.publish({
+      billId: 'bill-1',
+      stage: ProcessingStage.COMPLETED,
+      status: 'success',
+      message: 'Processamento concluído',
+      at: new Date(),
+    });
+    await new Promise(resolve => setImmediate(resolve));
+    service.onModuleDestroy();
+
+    expect(mockPrismaService.energyBill.findUnique).toHaveBeenCalledTimes(1);
+    expect(mockPrismaService.$executeRaw).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return the batch with its files and bills', async () => {
+    const bill = {
+      id: 'bill-1',
+      originalFileName: 'a.pdf',
+      processingStatus: ProcessingStatus.PENDING,
+      errorMessage: null,
+      pageStart: 1,
+      pageEnd: 1,
+      updatedAt: new Date(),
+    };
+    const files = [{ fileName: 'a.pdf', success: true, billIds: ['bill-1'] }];
+    mockPrismaService.batch.findUnique.mockResolvedValueOnce({
+      ...summary,
+      files,
+      bills: [bill],
+    });
+
+    await expect(service.findOne('batch-1')).resolves.toEqual({
+      ...summary,
+      files,
+      bills: [bill],
+    });
+    expect(mockPrismaService.$executeRaw).not.toHaveBeenCalled();
+  });
+
+  it('should throw when the batch does not exist', async () => {
+    mockPrismaService.batch.findUnique.mockResolvedValueOnce(null);
+
+    await expect(service.findOne('batch-x')).rejects.toThrow(NotFoundException);
+  });
+
+  it('should list batches newest first with pagination', async () => {
+    mockPrismaService.batch.findMany.mockResolvedValueOnce([summary]);
+    mockPrismaService.batch.count.mockResolvedValueOnce(21);
+
+    const result = await service.list(2, 20, BatchStatus.PROCESSING);
+
+    expect(mockPrismaService.batch.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { status: BatchStatus.PROCESSING },
+        orderBy: { startedAt: 'desc' },
+        skip: 20,
+        take: 20,
+      }),
+    );
+    expect(result).toMatchObject({ total: 21, page: 2, totalPages: 2 });
+  });
+});
@@ -0,0 +1,145 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import { BillProcessingWorker } from '../queue/bill-processing.worker';
+import { ProcessingQueueService } from '../queue/processing-queue.service';
+import { BillsService } from '../bills.service';
+import { LlmService } from '../../llm/llm.service';
+import { ProcessingStatus } from '../dto/bills.dto';
+
+describe('BillProcessingWorker', () => {
+  let worker: BillProcessingWorker;
+  let config: Record<string, string>;
+
+  const job = { id: 'job-1', billId: 'bill-1', attempts: 1, maxAttempts: 3 };
+
+  const mockProcessingQueue = {
+    workerId: 'host:1:abc',
+    leaseMs: 300000,
+    claim: jest.fn(),
+    failExhausted: jest.fn().mockResolvedValue([]),
+    complete: jest.fn(),
+    fail: jest.fn(),
+    renewLease: jest.fn(),
+    enqueueOrphans: jest.fn(),
+  };
+
+  const mockBillsService = {
+    processQueuedBill: jest.fn(),
+    markForRetry: jest.fn(),
+    markFailed: jest.fn(),
+  };
+
+  const mockLlmService = {
+    isProviderAvailable: jest.fn(() => true),
+  };
+
+  beforeEach(async () => {
+    config = { JOB_WORKER_CONCURRENCY: '2' };
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BillProcessingWorker,
+        { provide: ProcessingQueueService, useValue: mockProcessingQueue },
+        { provide: BillsService, useValue: mockBillsService },
+        { provide: LlmService, useValue: mockLlmService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    worker = module.get<BillProcessingWorker>(BillProcessingWorker);
+  });
+
+  it('should claim jobs up to the concurrency limit and complete them', async () => {
+    mockProcessingQueue.claim.mockResolvedValueOnce([
+      job,
+      { ...job, id: 'job-2', billId: 'bill-2' },
+    ]);
+    mockBillsService.processQueuedBill.mockResolvedValue({
+      success: true,
+      status: ProcessingStatus.COMPLETED,
+    });
+
+    await expect(worker.poll()).resolves.toBe(2);
+    await worker.drain();
+
+    expect(mockProcessingQueue.claim).toHaveBeenCalledWith(2);
+    expect(mockBillsService.processQueuedBill).toHaveBeenCalledWith('bill-2');
+    expect(mockProcessingQueue.complete).toHaveBeenCalledWith('job-1');
+    expect(mockProcessingQueue.complete).toHaveBeenCalledWith('job-2');
+  });
+
+  it('should fail bills whose process died in every attempt', async () => {
+    const error = new Error(
+      'Processamento interrompido em todas as tentativas (lease vencido)',
+    );
+    mockProcessingQueue.failExhausted.mockResolvedValueOnce([
+      { billId: 'bill-9', error },
+    ]);
+    mockProcessingQueue.claim.mockResolvedValueOnce([]);
+
+    await worker.poll();
+
+    expect(mockBillsService.markFailed).toHaveBeenCalledWith('bill-9', error);
+  });
+
+  it('should not claim jobs while the provider circuit is open', async () => {
+    mockLlmService.isProviderAvailable.mockReturnValueOnce(false);
+
+    await expect(worker.poll()).resolves.toBe(0);
+    expect(mockProcessingQueue.claim).not.toHaveBeenCalled();
+  });
+
+  it('should leave postponed jobs queued', async () => {
+    mockProcessingQueue.claim.mockResolvedValueOnce([job]);
+    mockBillsService.processQueuedBill.mockResolvedValueOnce({
+      success: true,
+      status: ProcessingStatus.PENDING,
+    });
+
+    await worker.poll();
+    await worker.drain();
+
+    expect(mockProcessingQueue.complete).not.toHaveBeenCalled();
+    expect(mockProcessingQueue.fail).not.toHaveBeenCalled();
+  });
+
+  it('should schedule a retry for transient failures', async () => {
+    const error = new Error('Conexão com o banco perdida');
+    mockProcessingQueue.claim.mockResolvedValueOnce([job]);
+    mockBillsService.processQueuedBill.mockRejectedValueOnce(error);
+    mockProcessingQueue.fail.mockResolvedValueOnce(true);
+
+    await worker.poll();
+    await worker.drain();
+
+    expect(mockProcessingQueue.fail).toHaveBeenCalledWith(job, error, false);
+    expect(mockBillsService.markForRetry).toHaveBeenCalledWith(
+      'bill-1',
+      error,
+      1,
+      3,
+    );
+    expect(mockBillsService.markFailed).not.toHaveBeenCalled();
+  });
+
+  it('should not retry file errors', async () => {
+    const error = new BadRequestException(
+      'Não foi possível ler o arquivo salvo',
+    );
+    mockProcessingQueue.claim.mockResolvedValueOnce([job]);
+    mockBillsService.processQueuedBill.mockRejectedValueOnce(error);
+    mockProcessingQueue.fail.mockResolvedValueOnce(false);
+
+    await worker.poll();
+    await worker.drain();
+
+    expect(mockProcessingQueue.fail).toHaveBeenCalledWith(job, error, true);
+    expect(mockBillsService.markForRetry).not.toHaveBeenCalled();
+    expect(mockBillsService.markFailed).toHaveBeenCalledWith('bill-1', error);
+  });
+});
@@ -4,10 +4,20 @@ import { ProcessingStatus } from '../dto/bills.dto';
 import { BillsService } from '../bills.service';
 import { PrismaService } from '../../prisma/prisma.service';
 import { LlmService } from '../../llm/llm.service';
-import { LlmExtractionResponseDto } from '../../llm/dto/llm-extraction.dto';
+import { ExtractionRunService } from '../../llm/runs/extraction-run.service';
+import { RedactionService } from '../../llm/redaction/redaction.service';
+import { ExtractionCacheService } from '../../llm/cache/extraction-cache.service';
+import { LlmBudgetExceededException, LlmUsageService } from '../../llm/usage/llm-usage.service';
+import { LlmProviderUnavailableException } from '../../llm/resilience/llm-resilience.service';
+import { ProcessingQueueService } from '../queue/processing-queue.service';
+import { ProcessingEventsService } from '../events/processing-events.service';
+import { BatchesService } from '../batches/batches.service';
+import { ExtractionErrorCode, LineItemCategory, LlmExtractionResponseDto } from '../../llm/dto/llm-extraction.dto';
+import { ExtractionException } from '../../llm/extraction.exception';
 
 describe('BillsService', () => {
   let service: BillsService;
+  let processingEvents: ProcessingEventsService;
   let prismaService: PrismaService;
   let llmService: LlmService;
 
@@ -73,19 +83,84 @@ describe('BillsService', () => {
       findFirst: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
+      updateMany: jest.fn(),
       findMany: jest.fn(),
       count: jest.fn(),
       findUnique: jest.fn(),
+      delete: jest.fn(),
+    },
+    sourceDocument: {
+      create: jest.fn().mockResolvedValue({ id: 'source-doc-id' }),
+      delete: jest.fn(),
     },
     processingLog: {
       create: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    billFieldCorrection: {
+      aggregate: jest.fn(),
+    },
+    consumptionHistory: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
     },
+    batch: {
+      findUnique: jest.fn(),
+    },
+    billLineItem: {
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    extractedField: {
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
   };
+  // Transações interativas rodam sobre o próprio mock
+  mockPrismaService.$transaction.mockImplementation(operations =>
+    typeof operations === 'function' ? operations(mockPrismaService) : Promise.all(operations),
+  );
 
   const mockLlmService = {
     extractBillData: jest.fn(),
+    isProviderAvailable: jest.fn(() => true),
+    segmentDocument: jest.fn().mockResolvedValue([{ start: 1, end: 1 }]),
+  };
+
+  const mockExtractionRunService = {
+    findByBill: jest.fn(),
   };
 
+  const mockRedactionService = {
+    findByBill: jest.fn(),
+  };
+
+  const mockExtractionCacheService = {
+    invalidate: jest.fn(),
+  };
+
+  const mockLlmUsageService = {
+    assertWithinBudget: jest.fn(),
+  };
+
+  const mockProcessingQueue = {
+    enqueue: jest.fn(),
+    postpone: jest.fn().mockResolvedValue(true),
+    findByBill: jest.fn(),
+    cancelQueued: jest.fn(),
+  };
+
+  const mockBatchesService = {
+    create: jest.fn().mockResolvedValue('batch-1'),
+    recordIntake: jest.fn(),
+    sync: jest.fn(),
+  };
+
+  const pendingBill = { ...mockBillRecord, processingStatus: ProcessingStatus.PENDING, pageStart: 1, pageEnd: 1 };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -98,10 +173,36 @@ describe('BillsService', () => {
           provide: LlmService,
           useValue: mockLlmService,
         },
+        {
+          provide: ExtractionRunService,
+          useValue: mockExtractionRunService,
+        },
+        {
+          provide: RedactionService,
+          useValue: mockRedactionService,
+        },
+        {
+          provide: ExtractionCacheService,
+          useValue: mockExtractionCacheService,
+        },
+        {
+          provide: LlmUsageService,
+          useValue: mockLlmUsageService,
+        },
+        {
+          provide: ProcessingQueueService,
+          useValue: mockProcessingQueue,
+        },
+        ProcessingEventsService,
+        {
+          provide: BatchesService,
+          useValue: mockBatchesService,
+        },
       ],
     }).compile();
 
     service = module.get<BillsService>(BillsService);
+    processingEvents = module.get<ProcessingEventsService>(ProcessingEventsService);
     prismaService = module.get<PrismaService>(PrismaService);
     llmService = module.get<LlmService>(LlmService);
 
@@ -114,52 +215,739 @@ describe('BillsService', () => {
   });
 
   describe('uploadAndProcessBill', () => {
-    it('should successfully process a valid PDF bill', async () => {
+    it('should store the bill as PENDING and queue it without waiting for the LLM', async () => {
       mockPrismaService.energyBill.findFirst.mockResolvedValue(null); // No duplicate
       mockPrismaService.energyBill.create.mockResolvedValue({ ...mockBillRecord, id: 'initial-id' });
-      mockPrismaService.energyBill.update.mockResolvedValue(mockBillRecord);
       mockPrismaService.processingLog.create.mockResolvedValue({});
-      mockLlmService.extractBillData.mockResolvedValue(mockExtractedData);
 
       const result = await service.uploadAndProcessBill(mockFile);
 
+      expect(result).toMatchObject({
+        success: true,
+        billId: 'initial-id',
+        status: ProcessingStatus.PENDING,
+        fileName: mockFile.originalname,
+      });
+      expect(mockPrismaService.energyBill.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          filePath: mockFile.path,
+          pageStart: 1,
+          pageEnd: 1,
+          processingStatus: ProcessingStatus.PENDING,
+        }),
+      });
+      expect(mockProcessingQueue.enqueue).toHaveBeenCalledWith('initial-id');
+      expect(mockLlmService.extractBillData).not.toHaveBeenCalled();
+    });
+
+    it('should fail fast when the monthly LLM budget is exceeded', async () => {
+      mockLlmUsageService.assertWithinBudget.mockRejectedValueOnce(
+        new LlmBudgetExceededException({ month: 'OUT/2024', budgetUsd: 10, spentUsd: 10.2, remainingUsd: 0, exceeded: true }),
+      );
+
+      await expect(service.uploadAndProcessBill(mockFile)).rejects.toThrow('Orçamento mensal de LLM excedido');
+      expect(mockPrismaService.energyBill.create).not.toHaveBeenCalled();
+      expect(mockLlmService.extractBillData).not.toHaveBeenCalled();
+    });
+
+    it('should throw error if file is duplicate', async () => {
+      mockPrismaService.energyBill.findFirst.mockResolvedValue(mockBillRecord);
+
+      await expect(service.uploadAndProcessBill(mockFile)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrismaService.energyBill.findFirst).toHaveBeenCalled();
+    });
+  });
+
+  describe('processQueuedBill', () => {
+    beforeEach(() => {
+      mockPrismaService.energyBill.findUnique.mockResolvedValue(pendingBill);
+      mockPrismaService.processingLog.create.mockResolvedValue({});
+      jest.spyOn(service as any, 'getFileBuffer').mockResolvedValue(mockFile.buffer);
+    });
+
+    it('should extract and save a queued bill', async () => {
+      mockPrismaService.energyBill.update.mockResolvedValue(mockBillRecord);
+      mockLlmService.extractBillData.mockResolvedValue(mockExtractedData);
+
+      const result = await service.processQueuedBill('test-bill-id');
+
       expect(result.success).toBe(true);
       expect(result.billId).toBe(mockBillRecord.id);
       expect(result.message).toBe('Fatura processada com sucesso');
+      expect(mockPrismaService.energyBill.update).toHaveBeenCalledWith({
+        where: { id: 'test-bill-id' },
+        data: { processingStatus: ProcessingStatus.PROCESSING, errorMessage: null },
+      });
       expect(mockLlmService.extractBillData).toHaveBeenCalledWith({
         filePath: mockFile.path,
         fileName: mockFile.originalname,
         fileBuffer: mockFile.buffer,
+        billId: 'test-bill-id',
+        pageRange: { start: 1, end: 1 },
+        onProgress: expect.any(Function),
       });
     });
 
-    it('should throw error if file is duplicate', async () => {
-      mockPrismaService.energyBill.findFirst.mockResolvedValue(mockBillRecord);
+    it('should replace line items and extracted fields left by another worker', async () => {
+      mockPrismaService.energyBill.update.mockResolvedValue(mockBillRecord);
+      mockLlmService.extractBillData.mockResolvedValue({
+        ...mockExtractedData,
+        lineItems: [{ description: 'Energia Elétrica', unit: 'kWh', quantity: 50, unitPrice: 0.9134, value: 45.67, category: LineItemCategory.ELECTRIC_ENERGY }],
+        fieldProvenance: { customerNumber: { confidence: 0.98, page: 1 } },
+      });
 
-      await expect(service.uploadAndProcessBill(mockFile)).rejects.toThrow(
-        BadRequestException,
+      await service.processQueuedBill('test-bill-id');
+
+      expect(mockPrismaService.billLineItem.deleteMany).toHaveBeenCalledWith({ where: { billId: 'test-bill-id' } });
+      expect(mockPrismaService.billLineItem.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ billId: 'test-bill-id', position: 0, value: 45.67 })],
+      });
+      expect(mockPrismaService.extractedField.deleteMany).toHaveBeenCalledWith({ where: { billId: 'test-bill-id' } });
+      expect(mockPrismaService.extractedField.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ billId: 'test-bill-id', field: 'customerNumber' })],
+      });
+      // A fatura é travada antes de apagar as linhas
+      expect(mockPrismaService.energyBill.update.mock.invocationCallOrder.at(-1)).toBeLessThan(
+        mockPrismaService.billLineItem.deleteMany.mock.invocationCallOrder[0],
       );
-      expect(mockPrismaService.energyBill.findFirst).toHaveBeenCalled();
     });
 
-    it('should handle LLM extraction errors and update bill status', async () => {
+    it('should send bills with discrepancies to review', async () => {
+      mockPrismaService.energyBill.update.mockResolvedValue({ ...mockBillRecord, processingStatus: ProcessingStatus.NEEDS_REVIEW });
+      mockLlmService.extractBillData.mockResolvedValue({ ...mockExtractedData, totalAmount: 500 });
+
+      const result = await service.processQueuedBill('test-bill-id');
+
+      expect(result.status).toBe(ProcessingStatus.NEEDS_REVIEW);
+      expect(result.discrepancies).toHaveLength(1);
+      expect(mockPrismaService.energyBill.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ processingStatus: ProcessingStatus.NEEDS_REVIEW }),
+        }),
+      );
+      expect(mockPrismaService.processingLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          operation: 'validation_failed',
+          status: 'warning',
+          metadata: { discrepancies: result.discrepancies },
+        }),
+      });
+    });
+
+    it('should leave LLM extraction errors for the worker to settle', async () => {
       const llmError = new Error('LLM extraction failed');
-      
+      mockPrismaService.energyBill.update.mockResolvedValue({});
+      mockLlmService.extractBillData.mockRejectedValueOnce(llmError);
+
+      await expect(service.processQueuedBill('test-bill-id')).rejects.toThrow(llmError);
+
+      expect(mockPrismaService.energyBill.update).not.toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ processingStatus: ProcessingStatus.FAILED }) }),
+      );
+      expect(mockPrismaService.processingLog.create).not.toHaveBeenCalledWith({
+        data: expect.objectContaining({ operation: 'processing_failed' }),
+      });
+    });
+
+    it('should not call the LLM when the budget ran out after intake', async () => {
+      mockLlmUsageService.assertWithinBudget.mockRejectedValueOnce(
+        new LlmBudgetExceededException({ month: 'OUT/2024', budgetUsd: 10, spentUsd: 10.2, remainingUsd: 0, exceeded: true }),
+      );
+
+      await expect(service.processQueuedBill('test-bill-id')).rejects.toThrow(LlmBudgetExceededException);
+      expect(mockLlmService.extractBillData).not.toHaveBeenCalled();
+    });
+
+    it('should fail the bill with the error code when the worker gives up', async () => {
+      await service.markFailed(
+        'test-bill-id',
+        new LlmBudgetExceededException({ month: 'OUT/2024', budgetUsd: 10, spentUsd: 10.2, remainingUsd: 0, exceeded: true }),
+      );
+
+      expect(mockPrismaService.energyBill.update).toHaveBeenCalledWith({
+        where: { id: 'test-bill-id' },
+        data: {
+          processingStatus: ProcessingStatus.FAILED,
+          errorMessage: expect.stringContaining('Orçamento mensal de LLM excedido'),
+        },
+      });
+      expect(mockPrismaService.processingLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          operation: 'processing_failed',
+          metadata: expect.objectContaining({ statusCode: 402 }),
+        }),
+      });
+    });
+
+    it('should skip bills that already left the queue', async () => {
+      mockPrismaService.energyBill.findUnique.mockResolvedValueOnce(mockBillRecord);
+
+      const result = await service.processQueuedBill('test-bill-id');
+
+      expect(result.status).toBe(ProcessingStatus.COMPLETED);
+      expect(mockLlmService.extractBillData).not.toHaveBeenCalled();
+    });
+
+    it('should return the bill to PENDING when a retry is scheduled', async () => {
+      await service.markForRetry('test-bill-id', new Error('timeout do banco'), 1, 3);
+
+      expect(mockPrismaService.energyBill.update).toHaveBeenCalledWith({
+        where: { id: 'test-bill-id' },
+        data: { processingStatus: ProcessingStatus.PENDING, errorMessage: 'timeout do banco' },
+      });
+      expect(mockPrismaService.processingLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ operation: 'processing_retry_scheduled', status: 'warning' }),
+      });
+    });
+  });
+
+  describe('processing events', () => {
+    it('should publish each pipeline stage with its timing', async () => {
+      const events = [];
+      const subscription = (processingEvents as any).events$.subscribe(event => events.push(event));
+      mockPrismaService.energyBill.findUnique.mockResolvedValue(pendingBill);
+      mockPrismaService.energyBill.update.mockResolvedValue(mockBillRecord);
+      mockPrismaService.processingLog.create.mockResolvedValue({ id: 'log-id' });
+      jest.spyOn(service as any, 'getFileBuffer').mockResolvedValue(mockFile.buffer);
+      mockLlmService.extractBillData.mockImplementationOnce(async ({ onProgress }) => {
+        await onProgress('text_extracted', { textSource: 'NATIVE' });
+        await onProgress('llm_called', { provider: 'openai', cached: false });
+        return mockExtractedData;
+      });
+
+      await service.processQueuedBill('test-bill-id');
+      subscription.unsubscribe();
+
+      expect(events.map(event => event.stage)).toEqual([
+        'processing',
+        'text_extracted',
+        'llm_called',
+        'validated',
+        'completed',
+      ]);
+      expect(events[1]).toMatchObject({
+        billId: 'test-bill-id',
+        status: 'success',
+        metadata: { textSource: 'NATIVE' },
+        durationMs: expect.any(Number),
+        elapsedMs: expect.any(Number),
+      });
+      expect(mockPrismaService.processingLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ operation: 'llm_called', duration: expect.any(Number) }),
+      });
+    });
+
+    it('should not publish a failure when a provider error is followed by a successful retry', async () => {
+      const events = [];
+      const subscription = (processingEvents as any).events$.subscribe(event => events.push(event));
+      mockPrismaService.energyBill.findUnique.mockResolvedValue(pendingBill);
+      mockPrismaService.energyBill.update.mockResolvedValue(mockBillRecord);
+      mockPrismaService.processingLog.create.mockResolvedValue({ id: 'log-id' });
+      jest.spyOn(service as any, 'getFileBuffer').mockResolvedValue(mockFile.buffer);
+      const providerError = new ExtractionException(ExtractionErrorCode.PROVIDER_ERROR, 'Erro do provedor openai: 502 Bad Gateway');
+      mockLlmService.extractBillData.mockRejectedValueOnce(providerError).mockResolvedValueOnce(mockExtractedData);
+
+      // Primeira tentativa falha com 502 e o worker agenda outra
+      await expect(service.processQueuedBill('test-bill-id')).rejects.toThrow(providerError);
+      await service.markForRetry('test-bill-id', providerError, 1, 3);
+      await service.processQueuedBill('test-bill-id');
+      subscription.unsubscribe();
+
+      const stages = events.map(event => event.stage);
+      expect(stages).not.toContain('failed');
+      expect(stages).toEqual(['processing', 'queued', 'processing', 'validated', 'completed']);
+    });
+
+    it('should replay stored stages and finish the stream when the bill completes', async () => {
+      mockPrismaService.energyBill.findUnique.mockResolvedValue({ id: 'test-bill-id' });
+      mockPrismaService.processingLog.findMany.mockResolvedValue([
+        { id: 'log-1', billId: 'test-bill-id', operation: 'upload_started', status: 'success', message: 'Arquivo recebido', metadata: null, createdAt: new Date('2024-10-01T10:00:00Z') },
+        { id: 'log-2', billId: 'test-bill-id', operation: 'processing_started', status: 'success', message: 'Iniciando', metadata: null, createdAt: new Date('2024-10-01T10:00:05Z') },
+        { id: 'log-3', billId: 'test-bill-id', operation: 'processing_completed', status: 'success', message: 'Fatura processada', metadata: null, createdAt: new Date('2024-10-01T10:00:25Z') },
+      ]);
+
+      const stream = await service.streamBillEvents('test-bill-id');
+      const messages = [];
+      await new Promise<void>(resolve => stream.subscribe({ next: message => messages.push(message), complete: resolve }));
+
+      expect(messages.map(message => message.type)).toEqual(['stored', 'processing', 'completed']);
+      expect(messages[2].data).toMatchObject({ durationMs: 20000, elapsedMs: 20000 });
+    });
+
+    it('should throw when the bill does not exist', async () => {
+      mockPrismaService.energyBill.findUnique.mockResolvedValue(null);
+
+      await expect(service.streamBillEvents('missing')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('getProcessingStatus', () => {
+    it('should return the bill status with its queue job', async () => {
+      const updatedAt = new Date();
+      const runAt = new Date();
+      mockPrismaService.energyBill.findUnique.mockResolvedValue({
+        id: 'test-bill-id',
+        processingStatus: ProcessingStatus.PENDING,
+        errorMessage: 'falha temporária',
+        updatedAt,
+      });
+      mockProcessingQueue.findByBill.mockResolvedValueOnce({
+        id: 'job-1',
+        billId: 'test-bill-id',
+        status: 'QUEUED',
+        attempts: 1,
+        maxAttempts: 3,
+        runAt,
+        lastError: 'falha temporária',
+        finishedAt: null,
+      });
+
+      await expect(service.getProcessingStatus('test-bill-id')).resolves.toEqual({
+        billId: 'test-bill-id',
+        status: ProcessingStatus.PENDING,
+        errorMessage: 'falha temporária',
+        updatedAt,
+        job: { status: 'QUEUED', attempts: 1, maxAttempts: 3, runAt, lastError: 'falha temporária', finishedAt: null },
+      });
+    });
+
+    it('should throw when the bill does not exist', async () => {
+      mockPrismaService.energyBill.findUnique.mockResolvedValue(null);
+
+      await expect(service.getProcessingStatus('missing')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('multi-bill PDFs', () => {
+    const segments = [
+      { start: 1, end: 2 },
+      { start: 3, end: 4 },
+    ];
+
+    it('should create and queue one bill per segment linked to the source document', async () => {
+      mockLlmService.segmentDocument.mockResolvedValueOnce(segments);
       mockPrismaService.energyBill.findFirst.mockResolvedValue(null);
-      mockPrismaService.energyBill.create.mockResolvedValue({ ...mockBillRecord, id: 'initial-id' });
+      mockPrismaService.energyBill.create
+        .mockResolvedValueOnce({ ...mockBillRecord, id: 'bill-1' })
+        .mockResolvedValueOnce({ ...mockBillRecord, id: 'bill-2' });
+      mockPrismaService.processingLog.create.mockResolvedValue({});
+
+      const result = await service.uploadAndProcessBill(mockFile);
+
+      expect(mockPrismaService.sourceDocument.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ originalFileName: mockFile.originalname, pageCount: 4 }),
+      });
+      expect(mockPrismaService.energyBill.create).toHaveBeenCalledTimes(2);
+      expect(mockPrismaService.energyBill.create).toHaveBeenLastCalledWith({
+        data: expect.objectContaining({ sourceDocumentId: 'source-doc-id', pageStart: 3, pageEnd: 4 }),
+      });
+      expect(mockProcessingQueue.enqueue).toHaveBeenCalledWith('bill-1');
+      expect(mockProcessingQueue.enqueue).toHaveBeenCalledWith('bill-2');
+      expect(mockLlmService.extractBillData).not.toHaveBeenCalled();
+      expect(result).toMatchObject({
+        success: true,
+        billId: 'bill-1',
+        sourceDocumentId: 'source-doc-id',
+        status: ProcessingStatus.PENDING,
+        message: 'PDF com 2 faturas na fila de processamento',
+      });
+      expect(result.segments).toEqual([
+        expect.objectContaining({ billId: 'bill-1', status: ProcessingStatus.PENDING, pageRange: { start: 1, end: 2 } }),
+        expect.objectContaining({ billId: 'bill-2', status: ProcessingStatus.PENDING, pageRange: { start: 3, end: 4 } }),
+      ]);
+    });
+
+    it('should reprocess only the pages of the segment', async () => {
+      mockPrismaService.energyBill.findUnique.mockResolvedValue({
+        ...mockBillRecord,
+        processingStatus: ProcessingStatus.PENDING,
+        sourceDocumentId: 'source-doc-id',
+        pageStart: 3,
+        pageEnd: 4,
+      });
+      mockPrismaService.energyBill.update.mockResolvedValue(mockBillRecord);
+      mockPrismaService.processingLog.create.mockResolvedValue({});
+      mockLlmService.extractBillData.mockResolvedValue(mockExtractedData);
+      jest.spyOn(service as any, 'getFileBuffer').mockResolvedValue(Buffer.from('pdf'));
+
+      // Reprocessamento devolvido à fila e retirado pelo worker
+      await service.processQueuedBill('test-bill-id');
+
+      expect(mockLlmService.extractBillData).toHaveBeenCalledWith(
+        expect.objectContaining({ billId: 'test-bill-id', pageRange: { start: 3, end: 4 } }),
+      );
+    });
+
+    it('should keep the source document while other segments remain', async () => {
+      mockPrismaService.energyBill.findUnique.mockResolvedValue({ ...mockBillRecord, sourceDocumentId: 'source-doc-id' });
+      mockPrismaService.energyBill.count.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+
+      await service.deleteBill('bill-1');
+      expect(mockPrismaService.sourceDocument.delete).not.toHaveBeenCalled();
+
+      await service.deleteBill('bill-2');
+      expect(mockPrismaService.energyBill.delete).toHaveBeenLastCalledWith({ where: { id: 'bill-2' } });
+      expect(mockPrismaService.sourceDocument.delete).toHaveBeenCalledWith({ where: { id: 'source-doc-id' } });
+    });
+  });
+
+  describe('batches', () => {
+    it('should queue the files of a batch and reject files repeated in it', async () => {
+      const otherFile = { ...mockFile, originalname: 'outra.pdf', buffer: Buffer.from('outro pdf') };
+      mockPrismaService.energyBill.findFirst.mockResolvedValue(null);
+      mockPrismaService.energyBill.create
+        .mockResolvedValueOnce({ id: 'bill-1' })
+        .mockResolvedValueOnce({ id: 'bill-2' });
+      mockPrismaService.processingLog.create.mockResolvedValue({});
+
+      const results = await service.uploadBillsBatch(
+        [mockFile, otherFile, { ...mockFile, originalname: 'copia.pdf' }],
+        { uploadedBy: 'operacoes', uploaderIp: '10.0.0.12' },
+      );
+
+      expect(results.map(result => result.fileName)).toEqual(['test-bill.pdf', 'outra.pdf', 'copia.pdf']);
+      expect(results.map(result => result.success)).toEqual([true, true, false]);
+      expect(results[2].error).toBe('Arquivo repetido no lote');
+      expect(results.map(result => result.batchId)).toEqual(['batch-1', 'batch-1', 'batch-1']);
+      expect(mockProcessingQueue.enqueue).toHaveBeenCalledTimes(2);
+      expect(mockBatchesService.create).toHaveBeenCalledWith({ fileCount: 3, uploadedBy: 'operacoes', uploaderIp: '10.0.0.12' });
+      expect(mockPrismaService.energyBill.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ batchId: 'batch-1' }),
+      });
+    });
+
+    it('should record the intake result of every file in the batch', async () => {
+      mockPrismaService.energyBill.findFirst.mockResolvedValueOnce(null).mockResolvedValueOnce(mockBillRecord);
+      mockPrismaService.energyBill.create.mockResolvedValueOnce({ id: 'bill-1' });
+      mockPrismaService.processingLog.create.mockResolvedValue({});
+
+      await service.uploadBillsBatch([mockFile, { ...mockFile, originalname: 'antiga.pdf', buffer: Buffer.from('antigo') }]);
+
+      expect(mockBatchesService.recordIntake).toHaveBeenCalledWith('batch-1', [
+        { fileName: 'test-bill.pdf', success: true, billIds: ['bill-1'] },
+        { fileName: 'antiga.pdf', success: false, billIds: [], error: 'Esta fatura já foi processada anteriormente' },
+      ]);
+    });
+
+    it('should queue the failed bills of a batch again', async () => {
+      mockPrismaService.batch.findUnique.mockResolvedValueOnce({ id: 'batch-1' });
+      mockPrismaService.energyBill.findMany.mockResolvedValueOnce([{ id: 'bill-2' }, { id: 'bill-5' }]);
+      mockPrismaService.processingLog.create.mockResolvedValue({ id: 'log-id' });
+
+      await expect(service.retryFailedBills('batch-1')).resolves.toEqual({
+        batchId: 'batch-1',
+        requeued: 2,
+        billIds: ['bill-2', 'bill-5'],
+      });
+
+      expect(mockPrismaService.energyBill.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { batchId: 'batch-1', processingStatus: ProcessingStatus.FAILED } }),
+      );
+      expect(mockPrismaService.energyBill.update).toHaveBeenCalledWith({
+        where: { id: 'bill-5' },
+        data: { processingStatus: ProcessingStatus.PENDING, errorMessage: null },
+      });
+      expect(mockProcessingQueue.enqueue).toHaveBeenCalledWith('bill-2');
+      expect(mockProcessingQueue.enqueue).toHaveBeenCalledWith('bill-5');
+      expect(mockBatchesService.sync).toHaveBeenCalledWith('batch-1');
+    });
+
+    it('should not retry an unknown batch', async () => {
+      mockPrismaService.batch.findUnique.mockResolvedValueOnce(null);
+
+      await expect(service.retryFailedBills('batch-x')).rejects.toThrow(NotFoundException);
+      expect(mockProcessingQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should recount the batch when one of its bills is deleted', async () => {
+      mockPrismaService.energyBill.findUnique.mockResolvedValueOnce({ ...mockBillRecord, batchId: 'batch-1' });
+
+      await service.deleteBill('test-bill-id');
+
+      expect(mockPrismaService.energyBill.delete).toHaveBeenCalledWith({ where: { id: 'test-bill-id' } });
+      expect(mockBatchesService.sync).toHaveBeenCalledWith('batch-1');
+    });
+
+    it('should cancel the queued bills of a batch and keep the running ones', async () => {
+      mockPrismaService.energyBill.findMany.mockResolvedValueOnce([{ id: 'bill-1' }, { id: 'bill-2' }, { id: 'bill-3' }]);
+      mockProcessingQueue.cancelQueued.mockResolvedValueOnce(['bill-1', 'bill-2']);
+      mockPrismaService.energyBill.count.mockResolvedValueOnce(1);
+      mockPrismaService.processingLog.create.mockResolvedValue({ id: 'log-id' });
+
+      await expect(service.cancelBatch('batch-1')).resolves.toEqual({ batchId: 'batch-1', cancelled: 2, inProgress: 1 });
+
+      expect(mockProcessingQueue.cancelQueued).toHaveBeenCalledWith(['bill-1', 'bill-2', 'bill-3'], expect.any(String));
+      expect(mockPrismaService.energyBill.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['bill-1', 'bill-2'] } },
+        data: expect.objectContaining({ processingStatus: ProcessingStatus.CANCELLED }),
+      });
+      expect(mockPrismaService.processingLog.create).toHaveBeenCalledTimes(2);
+      expect(mockPrismaService.processingLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ billId: 'bill-2', operation: 'processing_cancelled' }),
+      });
+    });
+
+    it('should throw when the batch does not exist', async () => {
+      mockPrismaService.energyBill.findMany.mockResolvedValueOnce([]);
+
+      await expect(service.cancelBatch('batch-x')).rejects.toThrow(NotFoundException);
+      expect(mockProcessingQueue.cancelQueued).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('provider outages', () => {
+    it('should keep the bill queued when the provider is unavailable', async () => {
+      mockPrismaService.energyBill.findUnique.mockResolvedValue(pendingBill);
       mockPrismaService.energyBill.update.mockResolvedValue({});
       mockPrismaService.processingLog.create.mockResolvedValue({});
-      mockLlmService.extractBillData.mockRejectedValue(llmError);
+      jest.spyOn(service as any, 'getFileBuffer').mockResolvedValue(Buffer.from('pdf'));
+      mockLlmService.extractBillData.mockRejectedValue(
+        new LlmProviderUnavailableException('Provedor de LLM indisponível (circuito aberto)'),
+      );
 
-      await expect(service.uploadAndProcessBill(mockFile)).rejects.toThrow(llmError);
-      
+      const result = await service.processQueuedBill('test-bill-id');
+
+      expect(result).toMatchObject({ success: true, billId: 'test-bill-id', status: ProcessingStatus.PENDING });
       expect(mockPrismaService.energyBill.update).toHaveBeenCalledWith({
-        where: { id: 'initial-id' },
+        where: { id: 'test-bill-id' },
         data: {
-          processingStatus: ProcessingStatus.FAILED,
-          errorMessage: llmError.message,
+          processingStatus: ProcessingStatus.PENDING,
+          errorMessage: 'Provedor de LLM indisponível (circuito aberto)',
         },
       });
+      expect(mockPrismaService.energyBill.update).not.toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ processingStatus: ProcessingStatus.FAILED }) }),
+      );
+      expect(mockProcessingQueue.postpone).toHaveBeenCalledWith(
+        'test-bill-id',
+        expect.any(Number),
+        'Provedor de LLM indisponível (circuito aberto)',
+      );
+    });
+
+    it('should spend an attempt when the job reached the postponement limit', async () => {
+      const error = new LlmProviderUnavailableException('Provedor de LLM pediu para aguardar 3600000ms');
+      mockPrismaService.energyBill.findUnique.mockResolvedValue(pendingBill);
+      mockPrismaService.energyBill.update.mockResolvedValue({});
+      mockPrismaService.processingLog.create.mockResolvedValue({});
+      jest.spyOn(service as any, 'getFileBuffer').mockResolvedValue(Buffer.from('pdf'));
+      mockLlmService.extractBillData.mockRejectedValueOnce(error);
+      mockProcessingQueue.postpone.mockResolvedValueOnce(false);
+
+      // O erro volta para o worker, que consome a tentativa
+      await expect(service.processQueuedBill('test-bill-id')).rejects.toThrow(error);
+      expect(mockPrismaService.energyBill.update).not.toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ processingStatus: ProcessingStatus.PENDING }) }),
+      );
+    });
+
+    it('should reject queued bills whose stored file is missing with a permanent error', async () => {
+      mockPrismaService.energyBill.findUnique.mockResolvedValue(pendingBill);
+      jest.spyOn(service as any, 'getFileBuffer').mockRejectedValue(new BadRequestException('Arquivo ausente'));
+
+      await expect(service.processQueuedBill('test-bill-id')).rejects.toThrow(BadRequestException);
+      expect(mockLlmService.extractBillData).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reprocessBill', () => {
+    it('should queue the same record again without the duplicate check', async () => {
+      mockPrismaService.energyBill.findUnique.mockResolvedValue({
+        ...mockBillRecord,
+        processingStatus: ProcessingStatus.FAILED,
+      });
+      mockPrismaService.energyBill.update.mockResolvedValue(mockBillRecord);
+      mockPrismaService.processingLog.create.mockResolvedValue({});
+
+      const result = await service.reprocessBill('test-bill-id');
+
+      expect(result).toMatchObject({ success: true, billId: 'test-bill-id', status: ProcessingStatus.PENDING });
+      expect(mockPrismaService.energyBill.findFirst).not.toHaveBeenCalled();
+      expect(mockPrismaService.energyBill.create).not.toHaveBeenCalled();
+      expect(mockPrismaService.energyBill.update).toHaveBeenCalledWith({
+        where: { id: 'test-bill-id' },
+        data: { processingStatus: ProcessingStatus.PENDING, errorMessage: null },
+      });
+      expect(mockProcessingQueue.enqueue).toHaveBeenCalledWith('test-bill-id');
+      expect(mockLlmService.extractBillData).not.toHaveBeenCalled();
+      expect(mockExtractionCacheService.invalidate).not.toHaveBeenCalled();
+    });
+
+    it('should drop the cached responses of the bill when bypassCache is set', async () => {
+      mockPrismaService.energyBill.findUnique.mockResolvedValue({
+        ...mockBillRecord,
+        processingStatus: ProcessingStatus.FAILED,
+      });
+      mockPrismaService.processingLog.create.mockResolvedValue({});
+      mockExtractionRunService.findByBill.mockResolvedValueOnce([{ textHash: 'hash-1' }]);
+      mockExtractionCacheService.invalidate.mockResolvedValueOnce(1);
+
+      await service.reprocessBill('test-bill-id', { bypassCache: true });
+
+      expect(mockExtractionCacheService.invalidate).toHaveBeenCalledWith(['hash-1']);
+      expect(mockExtractionCacheService.invalidate.mock.invocationCallOrder[0]).toBeLessThan(
+        mockProcessingQueue.enqueue.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should reject bills that are not FAILED', async () => {
+      mockPrismaService.energyBill.findUnique.mockResolvedValue(mockBillRecord);
+
+      await expect(service.reprocessBill('test-bill-id')).rejects.toThrow(BadRequestException);
+      expect(mockLlmService.extractBillData).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('invalidateExtractionCache', () => {
+    it('should invalidate the cache entries of every text extracted for the bill', async () => {
+      mockPrismaService.energyBill.findUnique.mockResolvedValue({ id: 'test-bill-id' });
+      mockPrismaService.processingLog.create.mockResolvedValue({});
+      mockExtractionRunService.findByBill.mockResolvedValue([
+        { textHash: 'hash-1' },
+        { textHash: 'hash-1' },
+        { textHash: 'hash-2' },
+      ]);
+      mockExtractionCacheService.invalidate.mockResolvedValue(2);
+
+      const result = await service.invalidateExtractionCache('test-bill-id');
+
+      expect(result).toEqual({ invalidated: 2 });
+      expect(mockExtractionCacheService.invalidate).toHaveBeenCalledWith(['hash-1', 'hash-2']);
+    });
+  });
+
+  describe('getRedactions', () => {
+    it('should list the placeholders recorded for the bill', async () => {
+      mockPrismaService.energyBill.findUnique.mockResolvedValue({ id: 'test-bill-id' });
+      mockRedactionService.findByBill.mockResolvedValue([
+        { type: 'CPF', placeholder: '[CPF_1]', valueHash: 'abc', occurrences: 1 },
+      ]);
+
+      const result = await service.getRedactions('test-bill-id');
+
+      expect(result).toHaveLength(1);
+      expect(mockRedactionService.findByBill).toHaveBeenCalledWith('test-bill-id');
+    });
+
+    it('should throw NotFoundException for unknown bills', async () => {
+      mockPrismaService.energyBill.findUnique.mockResolvedValue(null);
+
+      await expect(service.getRedactions('missing')).rejects.toThrow(NotFoundException);
+      expect(mockRedactionService.findByBill).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('crossValidate', () => {
+    const lineItems = [
+      { description: 'Energia Elétrica', unit: 'kWh', quantity: 100, unitPrice: 0.83184156, value: 83.17, category: LineItemCategory.ELECTRIC_ENERGY },
+      { description: 'Energia compensada GD I', unit: 'kWh', quantity: 2300, unitPrice: 0.48036329, value: -1104.84, category: LineItemCategory.COMPENSATED_ENERGY },
+      { description: 'Energia SCEEE s/ICMS', unit: 'kWh', quantity: 2300, unitPrice: 0.50854704, value: 1169.65, category: LineItemCategory.SCEEE_ENERGY },
+      { description: 'Contrib Ilum Publica Municipal', value: 40.45, category: LineItemCategory.PUBLIC_LIGHTING },
+    ];
+
+    it('should accept items matching the printed total within tolerance', () => {
+      const discrepancies = (service as any).crossValidate({ ...mockExtractedData, totalAmount: 188.48, lineItems });
+
+      expect(discrepancies).toEqual([]);
+    });
+
+    it('should flag a total that does not match the items', () => {
+      const discrepancies = (service as any).crossValidate({ ...mockExtractedData, totalAmount: 191.01, lineItems });
+
+      expect(discrepancies).toEqual([
+        {
+          check: 'total',
+          description: 'Soma dos itens difere do valor a pagar impresso',
+          expected: 191.01,
+          actual: 188.43,
+          difference: -2.58,
+        },
+      ]);
+    });
+
+    it('should flag items where quantity × tariff differs from the value', () => {
+      const discrepancies = (service as any).crossValidate({
+        ...mockExtractedData,
+        lineItems: [{ ...lineItems[0], value: 8.32 }],
+      });
+
+      expect(discrepancies).toEqual([
+        { check: 'lineItem', description: 'Energia Elétrica', expected: 83.18, actual: 8.32, difference: -74.86 },
+      ]);
+    });
+
+    it('should use the configured tolerance', () => {
+      process.env.BILL_TOTAL_TOLERANCE = '5';
+      const discrepancies = (service as any).crossValidate({ ...mockExtractedData, totalAmount: 191.01, lineItems });
+      delete process.env.BILL_TOTAL_TOLERANCE;
+
+      expect(discrepancies).toEqual([]);
+    });
+
+    it('should accept a configured tolerance of zero', () => {
+      process.env.BILL_TOTAL_TOLERANCE = '0';
+      process.env.LINE_ITEM_TOLERANCE = '0';
+      const discrepancies = (service as any).crossValidate({ ...mockExtractedData, totalAmount: 188.48, lineItems });
+      delete process.env.BILL_TOTAL_TOLERANCE;
+      delete process.env.LINE_ITEM_TOLERANCE;
+
+      expect(discrepancies).toEqual(expect.arrayContaining([
+        expect.objectContaining({ check: 'total', difference: -0.05 }),
+        expect.objectContaining({ check: 'lineItem', description: 'Energia Elétrica', difference: -0.01 }),
+      ]));
+    });
+
+    it('should fall back to the default tolerance when the configured one is not a number', () => {
+      process.env.BILL_TOTAL_TOLERANCE = 'abc';
+      const discrepancies = (service as any).crossValidate({ ...mockExtractedData, totalAmount: 188.48, lineItems });
+      delete process.env.BILL_TOTAL_TOLERANCE;
+
+      expect(discrepancies).toEqual([]);
+    });
+  });
+
+  describe('saveConsumptionHistory', () => {
+    const history = [
+      { month: 'AGO/2024', consumption: 512, days: 31 },
+      { month: 'JUL/2024', consumption: 480, days: 30 },
+    ];
+
+    it('should not overwrite months printed by a more recent bill', async () => {
+      mockPrismaService.consumptionHistory.findMany.mockResolvedValue([
+        { referenceMonth: 'AGO/2024', sourceReferenceMonth: 'JAN/2025' },
+        { referenceMonth: 'JUL/2024', sourceReferenceMonth: 'AGO/2024' },
+      ]);
+      mockPrismaService.consumptionHistory.upsert.mockImplementation(args => args);
+      mockPrismaService.$transaction.mockResolvedValueOnce([]);
+
+      const saved = await (service as any).saveConsumptionHistory('bill-id', {
+        ...mockExtractedData,
+        consumptionHistory: history,
+      });
+
+      expect(saved).toBe(1);
+      expect(mockPrismaService.consumptionHistory.upsert).toHaveBeenCalledTimes(1);
+      expect(mockPrismaService.consumptionHistory.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            customerNumber_referenceMonth: { customerNumber: '7202210726', referenceMonth: 'JUL/2024' },
+          },
+          update: { consumption: 480, days: 30, sourceBillId: 'bill-id', sourceReferenceMonth: 'SET/2024' },
+        }),
+      );
+    });
+
+    it('should not fail the bill when the history cannot be saved', async () => {
+      mockPrismaService.consumptionHistory.findMany.mockRejectedValue(new Error('db down'));
+
+      const saved = await (service as any).saveConsumptionHistory('bill-id', {
+        ...mockExtractedData,
+        consumptionHistory: history,
+      });
+
+      expect(saved).toBe(0);
     });
   });
 
@@ -201,6 +989,20 @@ describe('BillsService', () => {
       expect(result.compensatedEnergy).toBe(526);
       expect(result.totalValueWithoutGD).toBe(461.62); // 45.67 + 392.50 + 23.45
       expect(result.gdEconomy).toBe(438.17);
+      expect(result.totalTaxes).toBeNull();
+    });
+
+    it('should sum the extracted taxes', () => {
+      const result = (service as any).calculateDerivedValues({
+        ...mockExtractedData,
+        taxes: {
+          icms: { base: 1252.82, rate: 18, value: 225.51 },
+          pis: { base: 1252.82, rate: 0.87, value: 10.9 },
+          cofins: { base: 1252.82, rate: 4.03, value: 50.49 },
+        },
+      });
+
+      expect(result.totalTaxes).toBe(286.9);
     });
 
     it('should handle missing optional fields', () => {
@@ -254,16 +1056,64 @@ describe('BillsService', () => {
             contains: '7202210726',
             mode: 'insensitive',
           },
-          referenceMonth: {
-            contains: 'SET/2024',
-            mode: 'insensitive',
-          },
+          referenceYear: 2024,
+          referenceMonthNumber: 9,
         },
         skip: 0,
         take: 20,
         orderBy: { createdAt: 'desc' },
+        include: { lineItems: { orderBy: { position: 'asc' } } },
       });
     });
+
+    it('should filter by reference month range instead of upload date', async () => {
+      mockPrismaService.energyBill.findMany.mockResolvedValue([]);
+      mockPrismaService.energyBill.count.mockResolvedValue(0);
+
+      await service.getBills({ startDate: '2023-11-15', endDate: '2024-02-10' }, 1, 20);
+
+      const { where } = mockPrismaService.energyBill.findMany.mock.calls[0][0];
+      expect(where.createdAt).toBeUndefined();
+      expect(where.AND).toEqual([
+        {
+          OR: [
+            { referenceYear: { gt: 2023 } },
+            { referenceYear: 2023, referenceMonthNumber: { gte: 11 } },
+          ],
+        },
+        {
+          OR: [
+            { referenceYear: { lt: 2024 } },
+            { referenceYear: 2024, referenceMonthNumber: { lte: 2 } },
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe('getBills header filters', () => {
+    it('should filter by due date range and distributor', async () => {
+      mockPrismaService.energyBill.findMany.mockResolvedValue([]);
+      mockPrismaService.energyBill.count.mockResolvedValue(0);
+
+      await service.getBills({
+        dueDateFrom: '2024-10-01',
+        dueDateTo: '2024-10-31',
+        distributor: 'cemig',
+      }, 1, 20);
+
+      expect(mockPrismaService.energyBill.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            distributor: { equals: 'cemig', mode: 'insensitive' },
+            dueDate: {
+              gte: new Date('2024-10-01'),
+              lte: new Date('2024-10-31'),
+            },
+          },
+        }),
+      );
+    });
   });
 
   describe('getBillById', () => {
@@ -276,6 +1126,22 @@ describe('BillsService', () => {
       expect(result.customerNumber).toBe('7202210726');
     });
 
+    it('should flag fields below the confidence threshold', async () => {
+      mockPrismaService.energyBill.findUnique.mockResolvedValue({
+        ...mockBillRecord,
+        extractedFields: [
+          { field: 'sceeeEnergy', confidence: 0.4, snippet: null, page: null },
+          { field: 'customerNumber', confidence: 1, snippet: 'Nº DO CLIENTE 7202210726', page: 1 },
+        ],
+      });
+
+      const result = await service.getBillById('test-bill-id');
+
+      expect(result.extractedFields).toHaveLength(2);
+      expect(result.extractedFields[1]).toMatchObject({ field: 'customerNumber', page: 1, lowConfidence: false });
+      expect(result.lowConfidenceFields).toEqual(['sceeeEnergy']);
+    });
+
     it('should throw NotFoundException when bill not found', async () => {
       mockPrismaService.energyBill.findUnique.mockResolvedValue(null);
 
@@ -285,6 +1151,94 @@ describe('BillsService', () => {
     });
   });
 
+  describe('updateBillFields', () => {
+    const reviewer = { userId: 'user-1', username: 'analista' };
+
+    beforeEach(() => {
+      mockPrismaService.energyBill.update.mockResolvedValue({});
+      mockPrismaService.processingLog.create.mockResolvedValue({});
+      mockPrismaService.processingLog.findFirst.mockResolvedValue(null);
+      mockPrismaService.billFieldCorrection.aggregate.mockResolvedValue({ _max: { version: 1 } });
+    });
+
+    it('should store corrections as a new version and recompute derived values', async () => {
+      mockPrismaService.energyBill.findUnique
+        .mockResolvedValueOnce({ ...mockBillRecord, processingStatus: ProcessingStatus.NEEDS_REVIEW })
+        .mockResolvedValueOnce(mockBillRecord);
+
+      await service.updateBillFields(
+        'test-bill-id',
+        { electricEnergy: { quantity: 60, value: 54.8 }, customerNumber: '7202210726', comment: 'Conferido no PDF' },
+        reviewer,
+      );
+
+      const { data } = mockPrismaService.energyBill.update.mock.calls[0][0];
+      expect(data).toMatchObject({
+        electricEnergyQuantity: 60,
+        electricEnergyValue: 54.8,
+        totalEnergyConsumption: 536, // 60 + 476
+        totalValueWithoutGD: 470.75, // 54.8 + 392.5 + 23.45
+        processingStatus: ProcessingStatus.COMPLETED,
+        reviewedBy: 'analista',
+      });
+      expect(data.corrections.create).toEqual([
+        {
+          version: 2,
+          field: 'electricEnergy',
+          oldValue: { quantity: 50, value: 45.67 },
+          newValue: { quantity: 60, value: 54.8 },
+          userId: 'user-1',
+          username: 'analista',
+          comment: 'Conferido no PDF',
+        },
+      ]);
+    });
+
+    it('should redo the revision when a concurrent one stored the same version', async () => {
+      mockPrismaService.energyBill.findUnique
+        .mockResolvedValueOnce({ ...mockBillRecord, processingStatus: ProcessingStatus.NEEDS_REVIEW })
+        .mockResolvedValueOnce({ ...mockBillRecord, electricEnergyValue: 50, processingStatus: ProcessingStatus.COMPLETED })
+        .mockResolvedValueOnce(mockBillRecord);
+      mockPrismaService.billFieldCorrection.aggregate
+        .mockResolvedValueOnce({ _max: { version: 1 } })
+        .mockResolvedValueOnce({ _max: { version: 2 } });
+      mockPrismaService.energyBill.update.mockRejectedValueOnce(
+        Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }),
+      );
+
+      await service.updateBillFields('test-bill-id', { electricEnergy: { quantity: 60, value: 54.8 } }, reviewer);
+
+      expect(mockPrismaService.$transaction).toHaveBeenCalledTimes(2);
+      const { data } = mockPrismaService.energyBill.update.mock.calls[1][0];
+      expect(data.corrections.create).toEqual([
+        expect.objectContaining({ version: 3, oldValue: { quantity: 50, value: 50 } }),
+      ]);
+      expect(mockPrismaService.processingLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          operation: 'fields_corrected',
+          metadata: expect.objectContaining({ version: 3, previousStatus: ProcessingStatus.COMPLETED }),
+        }),
+      });
+    });
+
+    it('should reject an invalid reference month', async () => {
+      mockPrismaService.energyBill.findUnique.mockResolvedValue(mockBillRecord);
+
+      await expect(
+        service.updateBillFields('test-bill-id', { referenceMonth: '13/2024' }, reviewer),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should only accept reviewed or completed bills', async () => {
+      mockPrismaService.energyBill.findUnique.mockResolvedValue({ ...mockBillRecord, processingStatus: ProcessingStatus.FAILED });
+
+      await expect(
+        service.updateBillFields('test-bill-id', {}, reviewer),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.energyBill.update).not.toHaveBeenCalled();
+    });
+  });
+
   describe('generateFileHash', () => {
     it('should generate consistent hash for same buffer', () => {
       const buffer = Buffer.from('test content');
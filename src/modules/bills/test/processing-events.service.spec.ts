@@ -0,0 +1,74 @@
+import { MessageEvent } from '@nestjs/common';
+import { ProcessingEventsService } from '../events/processing-events.service';
+import { ProcessingEventDto, ProcessingStage } from '../dto/bills.dto';
+
+describe('ProcessingEventsService', () => {
+  let service: ProcessingEventsService;
+
+  const event = (
+    id: string,
+    billId: string,
+    stage: ProcessingStage,
+  ): ProcessingEventDto => ({
+    id,
+    billId,
+    stage,
+    status: 'success',
+    message: stage,
+    at: new Date(),
+  });
+
+  beforeEach(() => {
+    service = new ProcessingEventsService();
+  });
+
+  it('should measure stage durations from the start of processing', () => {
+    const start = new Date('2024-10-01T10:00:00Z');
+
+    service.measure('bill-1', ProcessingStage.PROCESSING, start);
+    service.measure(
+      'bill-1',
+      ProcessingStage.TEXT_EXTRACTED,
+      new Date(start.getTime() + 500),
+    );
+
+    expect(
+      service.measure(
+        'bill-1',
+        ProcessingStage.LLM_CALLED,
+        new Date(start.getTime() + 4500),
+      ),
+    ).toEqual({ durationMs: 4000, elapsedMs: 4500 });
+  });
+
+  it('should follow every bill of a batch until all of them finish', async () => {
+    let resolveHistory: (events: ProcessingEventDto[]) => void;
+    const history = new Promise<ProcessingEventDto[]>(
+      resolve => (resolveHistory = resolve),
+    );
+    const messages: MessageEvent[] = [];
+    const done = new Promise<void>(resolve =>
+      service
+        .watch(['bill-1', 'bill-2'], () => history)
+        .subscribe({
+          next: message => messages.push(message),
+          complete: resolve,
+        }),
+    );
+
+    // Publicado enquanto o histórico carrega: entregue depois dele, sem repetir
+    const stored = event('log-1', 'bill-1', ProcessingStage.STORED);
+    service.publish(stored);
+    resolveHistory([stored, event('log-2', 'bill-2', ProcessingStage.STORED)]);
+    await history;
+
+    service.publish(event('log-3', 'bill-3', ProcessingStage.COMPLETED));
+    service.publish(event('log-4', 'bill-1', ProcessingStage.COMPLETED));
+    service.publish(event('log-5', 'bill-2', ProcessingStage.FAILED));
+    await done;
+
+    expect(
+      messages.map(message => (message.data as ProcessingEventDto).id),
+    ).toEqual(['log-1', 'log-2', 'log-4', 'log-5']);
+  });
+});
@@ -0,0 +1,201 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ProcessingQueueService } from '../queue/processing-queue.service';
+import { PrismaService } from '../../prisma/prisma.service';
+
+describe('ProcessingQueueService', () => {
+  let service: ProcessingQueueService;
+  let config: Record<string, string>;
+
+  const mockPrismaService = {
+    processingJob: {
+      upsert: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      findUnique: jest.fn(),
+    },
+    energyBill: {
+      findMany: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    config = { JOB_RETRY_BASE_DELAY_MS: '1000' };
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProcessingQueueService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ProcessingQueueService>(ProcessingQueueService);
+  });
+
+  it('should reset attempts when a bill is queued again', async () => {
+    config.JOB_MAX_ATTEMPTS = '5';
+
+    await service.enqueue('bill-1');
+
+    expect(mockPrismaService.processingJob.upsert).toHaveBeenCalledWith({
+      where: { billId: 'bill-1' },
+      create: expect.objectContaining({
+        billId: 'bill-1',
+        status: 'QUEUED',
+        attempts: 0,
+        maxAttempts: 5,
+      }),
+      update: expect.objectContaining({
+        status: 'QUEUED',
+        attempts: 0,
+        maxAttempts: 5,
+      }),
+    });
+  });
+
+  it('should claim jobs with SKIP LOCKED under this worker lease', async () => {
+    mockPrismaService.$queryRaw.mockResolvedValueOnce([]);
+
+    await service.claim(2);
+
+    const [query] = mockPrismaService.$queryRaw.mock.calls[0];
+    expect(query.sql).toContain('FOR UPDATE SKIP LOCKED');
+    expect(query.sql).toContain(`"attempts" < "maxAttempts"`);
+    expect(query.values).toEqual(expect.arrayContaining([service.workerId, 2]));
+    await expect(service.claim(0)).resolves.toEqual([]);
+    expect(mockPrismaService.$queryRaw).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail expired jobs that have no attempts left', async () => {
+    mockPrismaService.$queryRaw.mockResolvedValueOnce([{ billId: 'bill-1' }]);
+
+    const failed = await service.failExhausted();
+
+    expect(failed).toEqual([
+      {
+        billId: 'bill-1',
+        error: expect.objectContaining({
+          message: expect.stringContaining('lease vencido'),
+        }),
+      },
+    ]);
+    const [query] = mockPrismaService.$queryRaw.mock.calls[0];
+    expect(query.sql).toContain(`"status" = 'FAILED'`);
+    expect(query.sql).toContain(`"attempts" >= "maxAttempts"`);
+  });
+
+  it('should requeue failed jobs with exponential backoff until attempts run out', async () => {
+    const error = new Error('timeout');
+    const before = Date.now();
+
+    await expect(
+      service.fail(
+        { id: 'job-1', billId: 'bill-1', attempts: 2, maxAttempts: 3 },
+        error,
+      ),
+    ).resolves.toBe(true);
+    const { data } = mockPrismaService.processingJob.update.mock.calls[0][0];
+    expect(data).toMatchObject({
+      status: 'QUEUED',
+      lastError: 'timeout',
+      finishedAt: null,
+    });
+    expect(data.runAt.getTime()).toBeGreaterThanOrEqual(before + 2000);
+
+    await expect(
+      service.fail(
+        { id: 'job-1', billId: 'bill-1', attempts: 3, maxAttempts: 3 },
+        error,
+      ),
+    ).resolves.toBe(false);
+    expect(mockPrismaService.processingJob.update).toHaveBeenLastCalledWith({
+      where: { id: 'job-1' },
+      data: expect.objectContaining({
+        status: 'FAILED',
+        finishedAt: expect.any(Date),
+      }),
+    });
+  });
+
+  it('should not retry permanent failures', async () => {
+    await expect(
+      service.fail(
+        { id: 'job-1', billId: 'bill-1', attempts: 1, maxAttempts: 3 },
+        new Error('PDF inválido'),
+        true,
+      ),
+    ).resolves.toBe(false);
+  });
+
+  it('should postpone the running job without spending an attempt', async () => {
+    mockPrismaService.processingJob.updateMany.mockResolvedValueOnce({
+      count: 1,
+    });
+
+    await expect(
+      service.postpone('bill-1', 60000, 'Provedor indisponível'),
+    ).resolves.toBe(true);
+
+    expect(mockPrismaService.processingJob.updateMany).toHaveBeenCalledWith({
+      where: {
+        billId: 'bill-1',
+        status: 'RUNNING',
+        postponements: { lt: 30 },
+      },
+      data: expect.objectContaining({
+        status: 'QUEUED',
+        attempts: { decrement: 1 },
+        postponements: { increment: 1 },
+      }),
+    });
+    expect(mockPrismaService.processingJob.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should queue the bill when there is no running job to postpone', async () => {
+    mockPrismaService.processingJob.updateMany.mockResolvedValueOnce({
+      count: 0,
+    });
+
+    await service.postpone('bill-1', 60000, 'Provedor indisponível');
+
+    expect(mockPrismaService.processingJob.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { billId: 'bill-1' } }),
+    );
+  });
+
+  it('should stop postponing a running job after the postponement limit', async () => {
+    mockPrismaService.processingJob.updateMany.mockResolvedValueOnce({
+      count: 0,
+    });
+    mockPrismaService.processingJob.findUnique.mockResolvedValueOnce({
+      billId: 'bill-1',
+      status: 'RUNNING',
+      postponements: 30,
+    });
+
+    await expect(
+      service.postpone('bill-1', 60000, 'Provedor indisponível'),
+    ).resolves.toBe(false);
+    expect(mockPrismaService.processingJob.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should cancel only the jobs still waiting in the queue', async () => {
+    mockPrismaService.$queryRaw.mockResolvedValueOnce([{ billId: 'bill-1' }]);
+
+    await expect(
+      service.cancelQueued(['bill-1', 'bill-2'], 'Lote cancelado'),
+    ).resolves.toEqual(['bill-1']);
+
+    const [query] = mockPrismaService.$queryRaw.mock.calls[0];
+    expect(query.sql).toContain(`"status" = 'QUEUED'`);
+    expect(query.values).toEqual(
+      expect.arrayContaining(['Lote cancelado', 'bill-1', 'bill-2']),
+    );
+  });
+});
@@ -8,6 +8,7 @@ import {
   FinancialResultsDto,
   AnnualFilterDto,
   AnnualDashboardDto,
+  LlmUsageDto,
 } from './dto/dashboard.dto';
 
 @ApiTags('dashboard')
@@ -21,8 +22,8 @@ export class DashboardController {
     description: 'Retorna todos os dados consolidados para o dashboard principal'
   })
   @ApiQuery({ name: 'customerNumber', required: false, type: String, description: 'Filtrar por número do cliente' })
-  @ApiQuery({ name: 'startDate', required: false, type: String, description: 'Data inicial (ISO 8601)' })
-  @ApiQuery({ name: 'endDate', required: false, type: String, description: 'Data final (ISO 8601)' })
+  @ApiQuery({ name: 'startDate', required: false, type: String, description: 'Data inicial (ISO 8601); filtra pelo mês de referência da fatura, com o mês da data incluído' })
+  @ApiQuery({ name: 'endDate', required: false, type: String, description: 'Data final (ISO 8601); filtra pelo mês de referência da fatura, com o mês da data incluído' })
   @ApiResponse({
     status: 200,
     description: 'Dados do dashboard retornados com sucesso',
@@ -36,6 +37,7 @@ export class DashboardController {
             processedBills: { type: 'number', example: 145 },
             failedBills: { type: 'number', example: 3 },
             pendingBills: { type: 'number', example: 2 },
+            needsReviewBills: { type: 'number', example: 1 },
             averageProcessingTime: { type: 'number', example: 1500.5 },
             lastProcessedAt: { type: 'string', example: '2024-12-19T10:30:00.000Z' }
           }
@@ -79,6 +81,16 @@ export class DashboardController {
                 economyPercentage: { type: 'number', example: 96.08 }
               }
             },
+            taxes: {
+              type: 'object',
+              properties: {
+                icms: { type: 'number', example: 8312.4 },
+                pis: { type: 'number', example: 401.77 },
+                cofins: { type: 'number', example: 1860.12 },
+                totalTaxes: { type: 'number', example: 10574.29 },
+                effectiveTaxRate: { type: 'number', example: 24.37 }
+              }
+            },
             monthlyData: {
               type: 'array',
               items: {
@@ -123,8 +135,8 @@ export class DashboardController {
     description: 'Retorna dados consolidados de consumo vs energia compensada'
   })
   @ApiQuery({ name: 'customerNumber', required: false, type: String, description: 'Filtrar por número do cliente' })
-  @ApiQuery({ name: 'startDate', required: false, type: String, description: 'Data inicial (ISO 8601)' })
-  @ApiQuery({ name: 'endDate', required: false, type: String, description: 'Data final (ISO 8601)' })
+  @ApiQuery({ name: 'startDate', required: false, type: String, description: 'Data inicial (ISO 8601); filtra pelo mês de referência da fatura, com o mês da data incluído' })
+  @ApiQuery({ name: 'endDate', required: false, type: String, description: 'Data final (ISO 8601); filtra pelo mês de referência da fatura, com o mês da data incluído' })
   @ApiResponse({
     status: 200,
     description: 'Dados de energia retornados com sucesso',
@@ -177,8 +189,8 @@ export class DashboardController {
     description: 'Retorna dados consolidados de valor total vs economia GD'
   })
   @ApiQuery({ name: 'customerNumber', required: false, type: String, description: 'Filtrar por número do cliente' })
-  @ApiQuery({ name: 'startDate', required: false, type: String, description: 'Data inicial (ISO 8601)' })
-  @ApiQuery({ name: 'endDate', required: false, type: String, description: 'Data final (ISO 8601)' })
+  @ApiQuery({ name: 'startDate', required: false, type: String, description: 'Data inicial (ISO 8601); filtra pelo mês de referência da fatura, com o mês da data incluído' })
+  @ApiQuery({ name: 'endDate', required: false, type: String, description: 'Data final (ISO 8601); filtra pelo mês de referência da fatura, com o mês da data incluído' })
   @ApiResponse({
     status: 200,
     description: 'Dados financeiros retornados com sucesso',
@@ -196,6 +208,17 @@ export class DashboardController {
             economyPercentage: { type: 'number', example: 96.08, description: 'Percentual de economia' }
           }
         },
+        taxes: {
+          type: 'object',
+          description: 'Tributos do período (R$) e alíquota efetiva sobre o valor a pagar',
+          properties: {
+            icms: { type: 'number', example: 8312.4 },
+            pis: { type: 'number', example: 401.77 },
+            cofins: { type: 'number', example: 1860.12 },
+            totalTaxes: { type: 'number', example: 10574.29 },
+            effectiveTaxRate: { type: 'number', example: 24.37, description: 'Percentual' }
+          }
+        },
         monthlyData: {
           type: 'array',
           description: 'Dados mensais para gráficos',
@@ -204,7 +227,26 @@ export class DashboardController {
             properties: {
               month: { type: 'string', example: 'SET/2024' },
               totalValue: { type: 'number', example: 461.62 },
-              economy: { type: 'number', example: 438.17 }
+              economy: { type: 'number', example: 438.17 },
+              totalTaxes: { type: 'number', example: 105.71 },
+              effectiveTaxRate: { type: 'number', example: 24.37 }
+            }
+          }
+        },
+        taxesByCustomer: {
+          type: 'array',
+          description: 'Tributos por mês e cliente',
+          items: {
+            type: 'object',
+            properties: {
+              month: { type: 'string', example: 'SET/2024' },
+              customerNumber: { type: 'string', example: '7202210726' },
+              icms: { type: 'number', example: 83.09 },
+              pis: { type: 'number', example: 4.02 },
+              cofins: { type: 'number', example: 18.6 },
+              totalTaxes: { type: 'number', example: 105.71 },
+              totalAmount: { type: 'number', example: 433.8 },
+              effectiveTaxRate: { type: 'number', example: 24.37 }
             }
           }
         }
@@ -225,6 +267,97 @@ export class DashboardController {
     return this.dashboardService.getFinancialResults(filters);
   }
 
+  @Get('llm-usage')
+  @ApiOperation({ 
+    summary: 'Uso e custo do LLM',
+    description: 'Retorna tokens e custo (US$) das extrações por mês de processamento, cliente e fatura, além da situação do orçamento mensal. Respostas do cache de extração não entram no custo'
+  })
+  @ApiQuery({ name: 'customerNumber', required: false, type: String, description: 'Filtrar por número do cliente' })
+  @ApiQuery({ name: 'startDate', required: false, type: String, description: 'Data inicial de processamento (ISO 8601)' })
+  @ApiQuery({ name: 'endDate', required: false, type: String, description: 'Data final de processamento (ISO 8601)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Uso do LLM retornado com sucesso',
+    schema: {
+      type: 'object',
+      properties: {
+        totals: {
+          type: 'object',
+          properties: {
+            runs: { type: 'number', example: 12 },
+            cachedRuns: { type: 'number', example: 2 },
+            promptTokens: { type: 'number', example: 14400 },
+            completionTokens: { type: 'number', example: 3600 },
+            totalTokens: { type: 'number', example: 18000 },
+            costUsd: { type: 'number', example: 0.072 },
+            bills: { type: 'number', example: 10 },
+            averageCostPerBill: { type: 'number', example: 0.0072 }
+          }
+        },
+        byMonth: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              month: { type: 'string', example: 'OUT/2024' },
+              totalTokens: { type: 'number', example: 18000 },
+              costUsd: { type: 'number', example: 0.072 }
+            }
+          }
+        },
+        byCustomer: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              customerNumber: { type: 'string', example: '7202210726' },
+              bills: { type: 'number', example: 3 },
+              totalTokens: { type: 'number', example: 5400 },
+              costUsd: { type: 'number', example: 0.0216 }
+            }
+          }
+        },
+        byBill: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              billId: { type: 'string', example: 'clkj1234567890' },
+              customerNumber: { type: 'string', example: '7202210726' },
+              referenceMonth: { type: 'string', example: 'SET/2024' },
+              runs: { type: 'number', example: 1 },
+              totalTokens: { type: 'number', example: 1800 },
+              costUsd: { type: 'number', example: 0.0072 }
+            }
+          }
+        },
+        budget: {
+          type: 'object',
+          properties: {
+            month: { type: 'string', example: 'OUT/2024' },
+            budgetUsd: { type: 'number', nullable: true, example: 50 },
+            spentUsd: { type: 'number', example: 0.072 },
+            remainingUsd: { type: 'number', nullable: true, example: 49.928 },
+            exceeded: { type: 'boolean', example: false }
+          }
+        }
+      }
+    }
+  })
+  async getLlmUsage(
+    @Query('customerNumber') customerNumber?: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+  ): Promise<LlmUsageDto> {
+    const filters: DashboardFilterDto = {
+      customerNumber,
+      startDate,
+      endDate,
+    };
+
+    return this.dashboardService.getLlmUsage(filters);
+  }
+
   @Get('annual')
   @ApiOperation({ 
     summary: 'Dados de economia anual',
@@ -248,6 +381,7 @@ export class DashboardController {
             totalValueWithoutGD: { type: 'number', example: 8750.50, description: 'Valor total sem GD em R$' },
             economyPercentage: { type: 'number', example: 60.01, description: 'Percentual de economia' },
             billsCount: { type: 'number', example: 48, description: 'Faturas processadas' },
+            totalHistoryConsumption: { type: 'number', example: 1040, description: 'Consumo em kWh vindo do histórico impresso nas faturas (meses sem fatura)' },
             monthlyBreakdown: {
               type: 'array',
               items: {
@@ -257,7 +391,8 @@ export class DashboardController {
                   consumption: { type: 'number', example: 520 },
                   compensation: { type: 'number', example: 490 },
                   economy: { type: 'number', example: 425.80 },
-                  valueWithoutGD: { type: 'number', example: 680.90 }
+                  valueWithoutGD: { type: 'number', example: 680.90 },
+                  historyConsumption: { type: 'number', example: 0, description: 'Parte do consumo vinda do histórico' }
                 }
               }
             }
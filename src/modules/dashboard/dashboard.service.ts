@@ -1,4 +1,5 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 
 import {
@@ -12,14 +13,55 @@ import {
   AnnualEconomyDto,
   AnnualComparisonDto,
   TopCustomersDto,
+  LlmUsageDto,
+  LlmUsageTotalsDto,
+  LlmUsageByCustomerDto,
+  LlmUsageByBillDto,
 } from './dto/dashboard.dto';
 import { ProcessingStatus } from '../bills/dto/bills.dto';
+import {
+  buildReferencePeriodFilter,
+  formatReferenceMonth,
+  formatReferencePeriod,
+  referenceMonthIndex,
+  referencePeriodOfDate,
+} from '../llm/extractors/reference-month';
+import { LlmUsageService } from '../llm/usage/llm-usage.service';
+
+// Faturas com mês de referência reconhecido (colunas normalizadas preenchidas)
+const WITH_REFERENCE_PERIOD = { referenceYear: { not: null }, referenceMonthNumber: { not: null } };
+
+// Faturas com tributos e valor a pagar: só elas entram na alíquota efetiva,
+// senão o valor a pagar de faturas sem o bloco "Tributos" diluiria a alíquota
+const WITH_TAX_DATA = { totalTaxes: { not: null }, totalAmount: { not: null } };
+
+// Faturas do detalhamento de uso do LLM (as de maior custo)
+const LLM_USAGE_BILLS_LIMIT = 50;
+
+// Uso somado por grupo. Respostas do cache não consumiram tokens do provedor.
+// Contagens e somas saem do Postgres como bigint/numeric; o cast devolve number
+const LLM_USAGE_COLUMNS = Prisma.sql`
+  COUNT(*)::int AS "runs",
+  (COUNT(*) FILTER (WHERE r."cached"))::int AS "cachedRuns",
+  COALESCE(SUM(r."promptTokens") FILTER (WHERE NOT r."cached"), 0)::float8 AS "promptTokens",
+  COALESCE(SUM(r."completionTokens") FILTER (WHERE NOT r."cached"), 0)::float8 AS "completionTokens",
+  COALESCE(SUM(r."totalTokens") FILTER (WHERE NOT r."cached"), 0)::float8 AS "totalTokens",
+  COALESCE(SUM(r."costUsd") FILTER (WHERE NOT r."cached"), 0)::float8 AS "costUsd"`;
+
+// Ordem cronológica dos agrupamentos mensais
+const CHRONOLOGICAL_ORDER: { referenceYear?: 'asc'; referenceMonthNumber?: 'asc' }[] = [
+  { referenceYear: 'asc' },
+  { referenceMonthNumber: 'asc' },
+];
 
 @Injectable()
 export class DashboardService {
   private readonly logger = new Logger(DashboardService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly llmUsageService: LlmUsageService,
+  ) {}
 
   async getDashboardData(filters: DashboardFilterDto = {}): Promise<DashboardResponseDto> {
     try {
@@ -70,18 +112,17 @@ export class DashboardService {
 
       // Buscar dados mensais para gráficos
       const monthlyEnergyData = await this.prisma.energyBill.groupBy({
-        by: ['referenceMonth'],
+        by: ['referenceYear', 'referenceMonthNumber'],
         where: {
           ...whereClause,
+          ...WITH_REFERENCE_PERIOD,
           processingStatus: ProcessingStatus.COMPLETED,
         },
         _sum: {
           totalEnergyConsumption: true,
           compensatedEnergy: true,
         },
-        orderBy: {
-          referenceMonth: 'asc',
-        },
+        orderBy: CHRONOLOGICAL_ORDER,
       });
 
       const totalConsumption = energyAggregation._sum.totalEnergyConsumption || 0;
@@ -100,7 +141,7 @@ export class DashboardService {
           percentage: consumptionPercentage,
         },
         monthlyData: monthlyEnergyData.map(item => ({
-          month: item.referenceMonth,
+          month: formatReferencePeriod(item.referenceYear, item.referenceMonthNumber),
           consumption: item._sum.totalEnergyConsumption || 0,
           compensation: item._sum.compensatedEnergy || 0,
         })),
@@ -128,24 +169,78 @@ export class DashboardService {
         },
       });
 
+      // Tributos do período
+      const taxAggregation = await this.prisma.energyBill.aggregate({
+        where: {
+          ...whereClause,
+          processingStatus: ProcessingStatus.COMPLETED,
+          ...WITH_TAX_DATA,
+        },
+        _sum: {
+          totalAmount: true,
+          totalTaxes: true,
+          icmsValue: true,
+          pisValue: true,
+          cofinsValue: true,
+        },
+      });
+
       // Buscar dados mensais para gráficos
       const monthlyFinancialData = await this.prisma.energyBill.groupBy({
-        by: ['referenceMonth'],
+        by: ['referenceYear', 'referenceMonthNumber'],
         where: {
           ...whereClause,
+          ...WITH_REFERENCE_PERIOD,
           processingStatus: ProcessingStatus.COMPLETED,
         },
         _sum: {
           totalValueWithoutGD: true,
           gdEconomy: true,
         },
-        orderBy: {
-          referenceMonth: 'asc',
+        orderBy: CHRONOLOGICAL_ORDER,
+      });
+
+      // Tributos por mês
+      const monthlyTaxData = await this.prisma.energyBill.groupBy({
+        by: ['referenceYear', 'referenceMonthNumber'],
+        where: {
+          ...whereClause,
+          ...WITH_REFERENCE_PERIOD,
+          processingStatus: ProcessingStatus.COMPLETED,
+          ...WITH_TAX_DATA,
+        },
+        _sum: {
+          totalAmount: true,
+          totalTaxes: true,
+        },
+        orderBy: CHRONOLOGICAL_ORDER,
+      });
+      const monthlyTaxes = new Map(
+        monthlyTaxData.map(item => [formatReferencePeriod(item.referenceYear, item.referenceMonthNumber), item._sum]),
+      );
+
+      // Tributos por mês e cliente (análise de recuperação de ICMS)
+      const customerTaxData = await this.prisma.energyBill.groupBy({
+        by: ['referenceYear', 'referenceMonthNumber', 'customerNumber'],
+        where: {
+          ...whereClause,
+          ...WITH_REFERENCE_PERIOD,
+          processingStatus: ProcessingStatus.COMPLETED,
+          ...WITH_TAX_DATA,
+        },
+        _sum: {
+          totalAmount: true,
+          totalTaxes: true,
+          icmsValue: true,
+          pisValue: true,
+          cofinsValue: true,
         },
+        orderBy: [...CHRONOLOGICAL_ORDER, { customerNumber: 'asc' }],
       });
 
       const totalValue = financialAggregation._sum.totalValueWithoutGD || 0;
       const totalEconomy = financialAggregation._sum.gdEconomy || 0;
+      const totalTaxes = taxAggregation._sum.totalTaxes || 0;
 
       const economyPercentage = totalValue > 0 
         ? Math.round((totalEconomy / totalValue) * 100 * 100) / 100 
@@ -159,10 +254,33 @@ export class DashboardService {
           economy: totalEconomy,
           economyPercentage,
         },
-        monthlyData: monthlyFinancialData.map(item => ({
-          month: item.referenceMonth,
-          totalValue: item._sum.totalValueWithoutGD || 0,
-          economy: item._sum.gdEconomy || 0,
+        taxes: {
+          icms: taxAggregation._sum.icmsValue || 0,
+          pis: taxAggregation._sum.pisValue || 0,
+          cofins: taxAggregation._sum.cofinsValue || 0,
+          totalTaxes,
+          effectiveTaxRate: this.calculateEffectiveTaxRate(totalTaxes, taxAggregation._sum.totalAmount),
+        },
+        monthlyData: monthlyFinancialData.map(item => {
+          const month = formatReferencePeriod(item.referenceYear, item.referenceMonthNumber);
+          const taxes = monthlyTaxes.get(month);
+          return {
+            month,
+            totalValue: item._sum.totalValueWithoutGD || 0,
+            economy: item._sum.gdEconomy || 0,
+            totalTaxes: taxes?.totalTaxes || 0,
+            effectiveTaxRate: this.calculateEffectiveTaxRate(taxes?.totalTaxes, taxes?.totalAmount),
+          };
+        }),
+        taxesByCustomer: customerTaxData.map(item => ({
+          month: formatReferencePeriod(item.referenceYear, item.referenceMonthNumber),
+          customerNumber: item.customerNumber,
+          icms: item._sum.icmsValue || 0,
+          pis: item._sum.pisValue || 0,
+          cofins: item._sum.cofinsValue || 0,
+          totalTaxes: item._sum.totalTaxes || 0,
+          totalAmount: item._sum.totalAmount || 0,
+          effectiveTaxRate: this.calculateEffectiveTaxRate(item._sum.totalTaxes, item._sum.totalAmount),
         })),
       };
 
@@ -172,6 +290,13 @@ export class DashboardService {
     }
   }
 
+  // Alíquota efetiva (%) = tributos / valor a pagar
+  private calculateEffectiveTaxRate(totalTaxes?: number | null, totalAmount?: number | null): number {
+    return totalAmount > 0
+      ? Math.round(((totalTaxes || 0) / totalAmount) * 100 * 100) / 100
+      : 0;
+  }
+
   private async getDashboardSummary(whereClause: any): Promise<DashboardSummaryDto> {
     try {
       // Contar bills por status
@@ -208,12 +333,14 @@ export class DashboardService {
       const processedBills = statusCounts.find(s => s.processingStatus === ProcessingStatus.COMPLETED)?._count || 0;
       const failedBills = statusCounts.find(s => s.processingStatus === ProcessingStatus.FAILED)?._count || 0;
       const pendingBills = statusCounts.find(s => s.processingStatus === ProcessingStatus.PROCESSING || s.processingStatus === ProcessingStatus.PENDING)?._count || 0;
+      const needsReviewBills = statusCounts.find(s => s.processingStatus === ProcessingStatus.NEEDS_REVIEW)?._count || 0;
 
       return {
         totalBills,
         processedBills,
         failedBills,
         pendingBills,
+        needsReviewBills,
         averageProcessingTime: avgProcessingTime._avg.duration || undefined,
         lastProcessedAt: lastProcessed?.updatedAt,
       };
@@ -263,9 +390,7 @@ export class DashboardService {
   private async getYearEconomyData(year: number, customerNumber?: string): Promise<AnnualEconomyDto> {
     const whereClause: any = {
       processingStatus: ProcessingStatus.COMPLETED,
-      referenceMonth: {
-        contains: year.toString()
-      }
+      referenceYear: year,
     };
 
     if (customerNumber) {
@@ -289,20 +414,49 @@ export class DashboardService {
 
     // Dados mensais
     const monthlyData = await this.prisma.energyBill.groupBy({
-      by: ['referenceMonth'],
-      where: whereClause,
+      by: ['referenceYear', 'referenceMonthNumber'],
+      where: { ...whereClause, ...WITH_REFERENCE_PERIOD },
       _sum: {
         totalEnergyConsumption: true,
         compensatedEnergy: true,
         totalValueWithoutGD: true,
         gdEconomy: true,
       },
-      orderBy: {
-        referenceMonth: 'asc',
-      },
+      orderBy: CHRONOLOGICAL_ORDER,
     });
 
-    const totalConsumption = yearAggregation._sum.totalEnergyConsumption || 0;
+    const monthlyBreakdown = monthlyData.map(item => ({
+      month: formatReferencePeriod(item.referenceYear, item.referenceMonthNumber),
+      consumption: item._sum.totalEnergyConsumption || 0,
+      compensation: item._sum.compensatedEnergy || 0,
+      economy: Math.abs(item._sum.gdEconomy || 0),
+      valueWithoutGD: item._sum.totalValueWithoutGD || 0,
+      historyConsumption: 0,
+    }));
+
+    // Meses sem fatura processada são completados com o histórico de consumo
+    const historyBackfill = await this.getHistoryBackfill(year, customerNumber);
+    let totalHistoryConsumption = 0;
+    for (const [month, consumption] of historyBackfill) {
+      totalHistoryConsumption += consumption;
+      const entry = monthlyBreakdown.find(item => item.month === month);
+      if (entry) {
+        entry.consumption += consumption;
+        entry.historyConsumption = consumption;
+      } else {
+        monthlyBreakdown.push({
+          month,
+          consumption,
+          compensation: 0,
+          economy: 0,
+          valueWithoutGD: 0,
+          historyConsumption: consumption,
+        });
+      }
+    }
+    monthlyBreakdown.sort((a, b) => referenceMonthIndex(a.month) - referenceMonthIndex(b.month));
+
+    const totalConsumption = (yearAggregation._sum.totalEnergyConsumption || 0) + totalHistoryConsumption;
     const totalCompensation = yearAggregation._sum.compensatedEnergy || 0;
     const totalValueWithoutGD = yearAggregation._sum.totalValueWithoutGD || 0;
     const totalEconomy = Math.abs(yearAggregation._sum.gdEconomy || 0);
@@ -318,16 +472,51 @@ export class DashboardService {
       totalValueWithoutGD,
       economyPercentage,
       billsCount: yearAggregation._count,
-      monthlyBreakdown: monthlyData.map(item => ({
-        month: item.referenceMonth,
-        consumption: item._sum.totalEnergyConsumption || 0,
-        compensation: item._sum.compensatedEnergy || 0,
-        economy: Math.abs(item._sum.gdEconomy || 0),
-        valueWithoutGD: item._sum.totalValueWithoutGD || 0,
-      })),
+      totalHistoryConsumption,
+      monthlyBreakdown,
     };
   }
 
+  // Consumo do histórico (kWh por mês) dos pares cliente/mês que não têm fatura processada
+  private async getHistoryBackfill(year: number, customerNumber?: string): Promise<Map<string, number>> {
+    const history = await this.prisma.consumptionHistory.findMany({
+      where: {
+        referenceYear: year,
+        ...(customerNumber && {
+          customerNumber: {
+            contains: customerNumber,
+            mode: 'insensitive'
+          }
+        })
+      },
+      select: { customerNumber: true, referenceMonth: true, consumption: true },
+    });
+
+    const backfill = new Map<string, number>();
+    if (!history.length) {
+      return backfill;
+    }
+
+    // A fatura sempre prevalece sobre o histórico do mesmo mês
+    const bills = await this.prisma.energyBill.findMany({
+      where: {
+        processingStatus: ProcessingStatus.COMPLETED,
+        customerNumber: { in: Array.from(new Set(history.map(entry => entry.customerNumber))) },
+        referenceMonth: { in: Array.from(new Set(history.map(entry => entry.referenceMonth))) },
+      },
+      select: { customerNumber: true, referenceMonth: true },
+    });
+    const billedMonths = new Set(bills.map(bill => `${bill.customerNumber}|${bill.referenceMonth}`));
+
+    for (const entry of history) {
+      if (billedMonths.has(`${entry.customerNumber}|${entry.referenceMonth}`)) {
+        continue;
+      }
+      backfill.set(entry.referenceMonth, (backfill.get(entry.referenceMonth) || 0) + entry.consumption);
+    }
+    return backfill;
+  }
+
   private calculateYearComparison(currentYear: AnnualEconomyDto, previousYear: AnnualEconomyDto): AnnualComparisonDto {
     if (!previousYear || previousYear.billsCount === 0) {
       return {
@@ -359,9 +548,7 @@ export class DashboardService {
   private async getTopCustomersByEconomy(year: number, limit: number = 5, customerFilter?: string): Promise<TopCustomersDto[]> {
     const whereClause: any = {
       processingStatus: ProcessingStatus.COMPLETED,
-      referenceMonth: {
-        contains: year.toString()
-      }
+      referenceYear: year,
     };
 
     // Se tem filtro de cliente, aplicar
@@ -408,24 +595,20 @@ export class DashboardService {
           }
         })
       },
-      select: { referenceMonth: true },
-      distinct: ['referenceMonth'],
+      select: { referenceYear: true },
+      distinct: ['referenceYear'],
     });
 
-    const availableYears = Array.from(new Set(
-      yearsResult
-        .map(bill => bill.referenceMonth.split('/')[1])
-        .filter(y => y && !isNaN(parseInt(y)))
-        .map(y => parseInt(y))
-    )).sort((a, b) => b - a);
+    const availableYears = yearsResult
+      .map(bill => bill.referenceYear)
+      .filter(y => y !== null)
+      .sort((a, b) => b - a);
 
     // Clientes únicos do ano
     const customersCount = await this.prisma.energyBill.findMany({
       where: {
         processingStatus: ProcessingStatus.COMPLETED,
-        referenceMonth: {
-          contains: year.toString()
-        },
+        referenceYear: year,
         ...(customerNumber && {
           customerNumber: {
             contains: customerNumber,
@@ -441,9 +624,7 @@ export class DashboardService {
     const totalBills = await this.prisma.energyBill.count({
       where: {
         processingStatus: ProcessingStatus.COMPLETED,
-        referenceMonth: {
-          contains: year.toString()
-        },
+        referenceYear: year,
         ...(customerNumber && {
           customerNumber: {
             contains: customerNumber,
@@ -457,9 +638,7 @@ export class DashboardService {
     const yearEconomyData = await this.prisma.energyBill.aggregate({
       where: {
         processingStatus: ProcessingStatus.COMPLETED,
-        referenceMonth: {
-          contains: year.toString()
-        },
+        referenceYear: year,
         ...(customerNumber && {
           customerNumber: {
             contains: customerNumber,
@@ -482,6 +661,90 @@ export class DashboardService {
       averageMonthlyEconomy: Math.round(averageMonthlyEconomy * 100) / 100,
     };
   }
+  // =========================
+  // USO DO LLM
+  // =========================
+
+  // Tokens e custo das execuções de extração por mês de processamento, cliente e fatura
+  async getLlmUsage(filters: DashboardFilterDto = {}): Promise<LlmUsageDto> {
+    try {
+      // Aqui o período é o da execução da extração, não o mês de referência da fatura
+      const conditions: Prisma.Sql[] = [];
+      if (filters.startDate) {
+        conditions.push(Prisma.sql`r."createdAt" >= ${new Date(filters.startDate)}`);
+      }
+      if (filters.endDate) {
+        conditions.push(Prisma.sql`r."createdAt" <= ${new Date(filters.endDate)}`);
+      }
+      if (filters.customerNumber) {
+        conditions.push(Prisma.sql`strpos(lower(b."customerNumber"), lower(${filters.customerNumber})) > 0`);
+      }
+      // Execuções de faturas removidas entram apenas nos totais e no mês
+      const from = (withBill = false) => {
+        const where = withBill ? [...conditions, Prisma.sql`b."id" IS NOT NULL`] : conditions;
+        return Prisma.sql`
+          FROM "extraction_runs" r
+          LEFT JOIN "energy_bills" b ON b."id" = r."billId"
+          ${where.length ? Prisma.sql`WHERE ${Prisma.join(where, ' AND ')}` : Prisma.empty}`;
+      };
+
+      const [[totals], byMonth, byCustomer, byBill] = await Promise.all([
+        this.prisma.$queryRaw<(LlmUsageTotalsDto & { bills: number })[]>(Prisma.sql`
+          SELECT ${LLM_USAGE_COLUMNS}, COUNT(DISTINCT b."id")::int AS "bills"
+          ${from()}`),
+        this.prisma.$queryRaw<(LlmUsageTotalsDto & { month: Date })[]>(Prisma.sql`
+          SELECT date_trunc('month', r."createdAt") AS "month", ${LLM_USAGE_COLUMNS}
+          ${from()}
+          GROUP BY 1
+          ORDER BY 1`),
+        this.prisma.$queryRaw<LlmUsageByCustomerDto[]>(Prisma.sql`
+          SELECT b."customerNumber", COUNT(DISTINCT b."id")::int AS "bills", ${LLM_USAGE_COLUMNS}
+          ${from(true)}
+          GROUP BY b."customerNumber"
+          ORDER BY "costUsd" DESC`),
+        this.prisma.$queryRaw<LlmUsageByBillDto[]>(Prisma.sql`
+          SELECT b."id" AS "billId", b."customerNumber", b."referenceMonth", ${LLM_USAGE_COLUMNS}
+          ${from(true)}
+          GROUP BY b."id"
+          ORDER BY "costUsd" DESC, b."id"
+          LIMIT ${LLM_USAGE_BILLS_LIMIT}`),
+      ]);
+
+      const budget = await this.llmUsageService.getBudgetStatus();
+
+      return {
+        totals: {
+          ...this.roundLlmUsage(totals),
+          averageCostPerBill: totals.bills > 0 ? this.roundCost(totals.costUsd / totals.bills) : 0,
+        },
+        byMonth: byMonth.map(({ month, ...item }) => this.roundLlmUsage({ month: formatReferenceMonth(month), ...item })),
+        byCustomer: byCustomer.map(item => this.roundLlmUsage(item)),
+        byBill: byBill.map(item => this.roundLlmUsage(item)),
+        budget: {
+          ...budget,
+          spentUsd: this.roundCost(budget.spentUsd),
+          remainingUsd: budget.remainingUsd === null ? null : this.roundCost(budget.remainingUsd),
+        },
+        period: {
+          startDate: filters.startDate,
+          endDate: filters.endDate,
+          customerNumber: filters.customerNumber,
+        },
+      };
+    } catch (error) {
+      this.logger.error(`Erro ao buscar uso do LLM: ${error.message}`, error.stack);
+      throw new BadRequestException(`Erro no uso do LLM: ${error.message}`);
+    }
+  }
+
+  private roundLlmUsage<T extends LlmUsageTotalsDto>(usage: T): T {
+    return { ...usage, costUsd: this.roundCost(usage.costUsd) };
+  }
+
+  private roundCost(value: number): number {
+    return Math.round(value * 1_000_000) / 1_000_000;
+  }
+
   private buildWhereClause(filters: DashboardFilterDto): any {
     const where: any = {};
 
@@ -492,15 +755,11 @@ export class DashboardService {
       };
     }
 
-    if (filters.startDate || filters.endDate) {
-      where.createdAt = {};
-      if (filters.startDate) {
-        where.createdAt.gte = new Date(filters.startDate);
-      }
-      if (filters.endDate) {
-        where.createdAt.lte = new Date(filters.endDate);
-      }
-    }
+    // Período pelo mês de referência das faturas, com os meses das datas inclusivos
+    Object.assign(where, buildReferencePeriodFilter(
+      filters.startDate ? referencePeriodOfDate(new Date(filters.startDate)) : null,
+      filters.endDate ? referencePeriodOfDate(new Date(filters.endDate)) : null,
+    ));
 
     return where;
   }
@@ -47,10 +47,29 @@ export class FinancialResultsDto {
     economy: number;
     economyPercentage: number; // Percentual de economia
   };
+  taxes: {
+    icms: number; // R$
+    pis: number; // R$ (PIS/PASEP)
+    cofins: number; // R$
+    totalTaxes: number; // R$
+    effectiveTaxRate: number; // % sobre o valor a pagar
+  };
   monthlyData?: {
     month: string;
     totalValue: number;
     economy: number;
+    totalTaxes: number;
+    effectiveTaxRate: number;
+  }[];
+  taxesByCustomer?: {
+    month: string;
+    customerNumber: string;
+    icms: number;
+    pis: number;
+    cofins: number;
+    totalTaxes: number;
+    totalAmount: number; // Valor a pagar (R$)
+    effectiveTaxRate: number;
   }[];
 }
 
@@ -59,6 +78,7 @@ export class DashboardSummaryDto {
   processedBills: number;
   failedBills: number;
   pendingBills: number;
+  needsReviewBills: number; // Faturas com divergências aguardando revisão
   averageProcessingTime?: number;
   lastProcessedAt?: Date;
 }
@@ -86,12 +106,14 @@ export class AnnualEconomyDto {
   totalValueWithoutGD: number; // Valor total sem GD em R$
   economyPercentage: number; // Percentual de economia
   billsCount: number; // Quantidade de faturas processadas
+  totalHistoryConsumption: number; // Consumo (kWh) vindo do histórico em meses sem fatura
   monthlyBreakdown: {
     month: string; // Ex: "JAN/2024"
-    consumption: number;
+    consumption: number; // Inclui o consumo do histórico
     compensation: number;
     economy: number;
     valueWithoutGD: number;
+    historyConsumption: number; // Parte do consumo vinda do histórico (kWh)
   }[];
 }
 
@@ -124,4 +146,54 @@ export class AnnualDashboardDto {
     totalBillsProcessed: number;
     averageMonthlyEconomy: number;
   };
-}
\ No newline at end of file
+}
+// =========================
+// DTOs de Uso do LLM
+// =========================
+
+// Tokens e custo não incluem as respostas servidas pelo cache de extração
+export class LlmUsageTotalsDto {
+  runs: number; // Execuções de extração registradas
+  cachedRuns: number; // Execuções atendidas pelo cache
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number; // Custo em US$ pela tabela de preços
+}
+
+export class LlmUsageByMonthDto extends LlmUsageTotalsDto {
+  month: string; // Mês de processamento. Ex: "OUT/2024"
+}
+
+export class LlmUsageByCustomerDto extends LlmUsageTotalsDto {
+  customerNumber: string;
+  bills: number;
+}
+
+export class LlmUsageByBillDto extends LlmUsageTotalsDto {
+  billId: string;
+  customerNumber: string;
+  referenceMonth: string;
+}
+
+export class LlmUsageDto {
+  totals: LlmUsageTotalsDto & {
+    bills: number;
+    averageCostPerBill: number; // US$
+  };
+  byMonth: LlmUsageByMonthDto[];
+  byCustomer: LlmUsageByCustomerDto[];
+  byBill: LlmUsageByBillDto[]; // As 50 faturas de maior custo, da maior para a menor
+  budget: {
+    month: string;
+    budgetUsd: number | null; // null = sem limite configurado
+    spentUsd: number;
+    remainingUsd: number | null;
+    exceeded: boolean;
+  };
+  period: {
+    startDate?: string;
+    endDate?: string;
+    customerNumber?: string;
+  };
+}
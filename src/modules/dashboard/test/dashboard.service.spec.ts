@@ -9,6 +9,7 @@ enum ProcessingStatus {
 import { DashboardService } from '../dashboard.service';
 import { PrismaService } from '../../prisma/prisma.service';
 import { DashboardFilterDto } from '../dto/dashboard.dto';
+import { LlmUsageService } from '../../llm/usage/llm-usage.service';
 
 describe('DashboardService', () => {
   let service: DashboardService;
@@ -26,7 +27,8 @@ describe('DashboardService', () => {
 
   const mockMonthlyData = [
     {
-      referenceMonth: 'SET/2024',
+      referenceYear: 2024,
+      referenceMonthNumber: 9,
       _sum: {
         totalEnergyConsumption: 526,
         compensatedEnergy: 520,
@@ -35,7 +37,8 @@ describe('DashboardService', () => {
       },
     },
     {
-      referenceMonth: 'OUT/2024',
+      referenceYear: 2024,
+      referenceMonthNumber: 10,
       _sum: {
         totalEnergyConsumption: 474,
         compensatedEnergy: 430,
@@ -45,6 +48,24 @@ describe('DashboardService', () => {
     },
   ];
 
+  // Filtro esperado para o período de JAN/2024 a DEZ/2024
+  const period2024 = {
+    AND: [
+      {
+        OR: [
+          { referenceYear: { gt: 2024 } },
+          { referenceYear: 2024, referenceMonthNumber: { gte: 1 } },
+        ],
+      },
+      {
+        OR: [
+          { referenceYear: { lt: 2024 } },
+          { referenceYear: 2024, referenceMonthNumber: { lte: 12 } },
+        ],
+      },
+    ],
+  };
+
   const mockStatusCounts = [
     { processingStatus: ProcessingStatus.COMPLETED, _count: 145 },
     { processingStatus: ProcessingStatus.FAILED, _count: 3 },
@@ -57,10 +78,22 @@ describe('DashboardService', () => {
       groupBy: jest.fn(),
       count: jest.fn(),
       findFirst: jest.fn(),
+      findMany: jest.fn(),
     },
     processingLog: {
       aggregate: jest.fn(),
     },
+    consumptionHistory: {
+      findMany: jest.fn(),
+    },
+    extractionRun: {
+      findMany: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+  };
+
+  const mockLlmUsageService = {
+    getBudgetStatus: jest.fn(),
   };
 
   beforeEach(async () => {
@@ -71,6 +104,10 @@ describe('DashboardService', () => {
           provide: PrismaService,
           useValue: mockPrismaService,
         },
+        {
+          provide: LlmUsageService,
+          useValue: mockLlmUsageService,
+        },
       ],
     }).compile();
 
@@ -151,6 +188,28 @@ describe('DashboardService', () => {
       expect(result.monthlyData[0].month).toBe('SET/2024');
     });
 
+    it('should group months by the normalized period in chronological order', async () => {
+      mockPrismaService.energyBill.aggregate.mockResolvedValue(mockEnergyAggregation);
+      mockPrismaService.energyBill.groupBy.mockResolvedValue([
+        { referenceYear: 2023, referenceMonthNumber: 12, _sum: { totalEnergyConsumption: 300, compensatedEnergy: 280 } },
+        { referenceYear: 2024, referenceMonthNumber: 2, _sum: { totalEnergyConsumption: 310, compensatedEnergy: 290 } },
+      ]);
+
+      const result = await service.getEnergyResults();
+
+      expect(mockPrismaService.energyBill.groupBy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          by: ['referenceYear', 'referenceMonthNumber'],
+          where: expect.objectContaining({
+            referenceYear: { not: null },
+            referenceMonthNumber: { not: null },
+          }),
+          orderBy: [{ referenceYear: 'asc' }, { referenceMonthNumber: 'asc' }],
+        }),
+      );
+      expect(result.monthlyData.map(item => item.month)).toEqual(['DEZ/2023', 'FEV/2024']);
+    });
+
     it('should handle zero consumption correctly', async () => {
       mockPrismaService.energyBill.aggregate.mockResolvedValue({
         _sum: {
@@ -183,10 +242,7 @@ describe('DashboardService', () => {
             contains: '7202210726',
             mode: 'insensitive',
           },
-          createdAt: {
-            gte: new Date('2024-01-01'),
-            lte: new Date('2024-12-31'),
-          },
+          ...period2024,
           processingStatus: ProcessingStatus.COMPLETED,
         },
         _sum: {
@@ -212,6 +268,85 @@ describe('DashboardService', () => {
       expect(result.monthlyData).toHaveLength(2);
     });
 
+    it('should report total taxes and effective tax rate per month and customer', async () => {
+      mockPrismaService.energyBill.aggregate.mockResolvedValue({
+        _sum: {
+          ...mockEnergyAggregation._sum,
+          totalAmount: 1000,
+          totalTaxes: 250,
+          icmsValue: 180,
+          pisValue: 14,
+          cofinsValue: 56,
+        },
+      });
+      mockPrismaService.energyBill.groupBy
+        .mockResolvedValueOnce([
+          { referenceYear: 2024, referenceMonthNumber: 9, _sum: { totalValueWithoutGD: 461.62, gdEconomy: 438.17 } },
+        ])
+        .mockResolvedValueOnce([
+          { referenceYear: 2024, referenceMonthNumber: 9, _sum: { totalAmount: 400, totalTaxes: 100 } },
+        ])
+        .mockResolvedValueOnce([
+          {
+            referenceYear: 2024,
+            referenceMonthNumber: 9,
+            customerNumber: '7202210726',
+            _sum: { totalAmount: 400, totalTaxes: 100, icmsValue: 72, pisValue: 5.6, cofinsValue: 22.4 },
+          },
+        ]);
+
+      const result = await service.getFinancialResults();
+
+      expect(result.taxes).toEqual({ icms: 180, pis: 14, cofins: 56, totalTaxes: 250, effectiveTaxRate: 25 });
+      expect(result.monthlyData[0]).toMatchObject({ month: 'SET/2024', totalTaxes: 100, effectiveTaxRate: 25 });
+      expect(result.taxesByCustomer).toEqual([
+        {
+          month: 'SET/2024',
+          customerNumber: '7202210726',
+          icms: 72,
+          pis: 5.6,
+          cofins: 22.4,
+          totalTaxes: 100,
+          totalAmount: 400,
+          effectiveTaxRate: 25,
+        },
+      ]);
+    });
+
+    it('should compute the effective tax rate only from bills with tax data', async () => {
+      // Faturas de SET/2024: uma com tributos (R$ 400, tributos R$ 100) e uma sem o bloco "Tributos" (R$ 600)
+      mockPrismaService.energyBill.aggregate
+        .mockResolvedValueOnce({ _sum: { totalValueWithoutGD: 1200, gdEconomy: 300 } })
+        .mockResolvedValueOnce({ _sum: { totalAmount: 400, totalTaxes: 100, icmsValue: 72, pisValue: 5.6, cofinsValue: 22.4 } });
+      mockPrismaService.energyBill.groupBy
+        .mockResolvedValueOnce([
+          { referenceYear: 2024, referenceMonthNumber: 9, _sum: { totalValueWithoutGD: 1200, gdEconomy: 300 } },
+          { referenceYear: 2024, referenceMonthNumber: 10, _sum: { totalValueWithoutGD: 500, gdEconomy: 100 } },
+        ])
+        .mockResolvedValueOnce([
+          { referenceYear: 2024, referenceMonthNumber: 9, _sum: { totalAmount: 400, totalTaxes: 100 } },
+        ])
+        .mockResolvedValueOnce([]);
+
+      const result = await service.getFinancialResults();
+
+      const withTaxData = { totalTaxes: { not: null }, totalAmount: { not: null } };
+      const [[financial], [taxes]] = mockPrismaService.energyBill.aggregate.mock.calls;
+      const [[monthly], [monthlyTaxes], [byCustomer]] = mockPrismaService.energyBill.groupBy.mock.calls;
+      expect(financial.where).not.toHaveProperty('totalTaxes');
+      expect(monthly.where).not.toHaveProperty('totalTaxes');
+      expect(taxes.where).toMatchObject(withTaxData);
+      expect(monthlyTaxes.where).toMatchObject(withTaxData);
+      expect(byCustomer.where).toMatchObject(withTaxData);
+
+      expect(result.totalValueWithoutGD).toBe(1200);
+      expect(result.taxes).toMatchObject({ totalTaxes: 100, effectiveTaxRate: 25 });
+      expect(result.monthlyData).toEqual([
+        { month: 'SET/2024', totalValue: 1200, economy: 300, totalTaxes: 100, effectiveTaxRate: 25 },
+        { month: 'OUT/2024', totalValue: 500, economy: 100, totalTaxes: 0, effectiveTaxRate: 0 },
+      ]);
+    });
+
     it('should handle zero total value correctly', async () => {
       mockPrismaService.energyBill.aggregate.mockResolvedValue({
         _sum: {
@@ -227,6 +362,125 @@ describe('DashboardService', () => {
     });
   });
 
+  describe('getYearEconomyData', () => {
+    it('should backfill months without bills from the consumption history', async () => {
+      mockPrismaService.energyBill.aggregate.mockResolvedValue({ ...mockEnergyAggregation, _count: 2 });
+      mockPrismaService.energyBill.groupBy.mockResolvedValue(mockMonthlyData);
+      mockPrismaService.consumptionHistory.findMany.mockResolvedValue([
+        { customerNumber: '7202210726', referenceMonth: 'SET/2024', consumption: 500 },
+        { customerNumber: '7202210726', referenceMonth: 'AGO/2024', consumption: 480 },
+        { customerNumber: '7204076116', referenceMonth: 'SET/2024', consumption: 120 },
+      ]);
+      mockPrismaService.energyBill.findMany.mockResolvedValue([
+        { customerNumber: '7202210726', referenceMonth: 'SET/2024' },
+      ]);
+
+      const result = await (service as any).getYearEconomyData(2024);
+
+      expect(result.totalConsumption).toBe(1000 + 480 + 120);
+      expect(result.totalHistoryConsumption).toBe(600);
+      expect(result.monthlyBreakdown.map(item => item.month)).toEqual(['AGO/2024', 'SET/2024', 'OUT/2024']);
+      expect(result.monthlyBreakdown[0]).toEqual({
+        month: 'AGO/2024',
+        consumption: 480,
+        compensation: 0,
+        economy: 0,
+        valueWithoutGD: 0,
+        historyConsumption: 480,
+      });
+      expect(result.monthlyBreakdown[1].consumption).toBe(526 + 120);
+      expect(result.monthlyBreakdown[1].historyConsumption).toBe(120);
+    });
+
+    it('should filter the year by the normalized reference year', async () => {
+      mockPrismaService.energyBill.aggregate.mockResolvedValue({ ...mockEnergyAggregation, _count: 0 });
+      mockPrismaService.energyBill.groupBy.mockResolvedValue([]);
+      mockPrismaService.consumptionHistory.findMany.mockResolvedValue([]);
+
+      await (service as any).getYearEconomyData(2024);
+
+      expect(mockPrismaService.energyBill.aggregate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { processingStatus: ProcessingStatus.COMPLETED, referenceYear: 2024 },
+        }),
+      );
+      expect(mockPrismaService.consumptionHistory.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { referenceYear: 2024 } }),
+      );
+    });
+  });
+
+  describe('getLlmUsage', () => {
+    const usage = (overrides: Record<string, unknown>) => ({
+      runs: 1,
+      cachedRuns: 0,
+      promptTokens: 1000,
+      completionTokens: 200,
+      totalTokens: 1200,
+      costUsd: 0.0045,
+      ...overrides,
+    });
+    const sqlOf = (call: number) => mockPrismaService.$queryRaw.mock.calls[call][0];
+
+    beforeEach(() => {
+      mockLlmUsageService.getBudgetStatus.mockResolvedValue({
+        month: 'OUT/2024',
+        budgetUsd: 10,
+        spentUsd: 0.0135,
+        remainingUsd: 9.9865,
+        exceeded: false,
+      });
+    });
+
+    it('should return the totals per month, customer and bill summed by the database', async () => {
+      mockPrismaService.$queryRaw
+        .mockResolvedValueOnce([usage({ runs: 4, totalTokens: 4800, costUsd: 0.0190000001, bills: 2 })])
+        .mockResolvedValueOnce([
+          usage({ month: new Date('2024-10-01T00:00:00Z'), runs: 3, costUsd: 0.0145 }),
+          usage({ month: new Date('2024-11-01T00:00:00Z'), costUsd: 0.0045 }),
+        ])
+        .mockResolvedValueOnce([usage({ customerNumber: '7202210726', bills: 1, runs: 2, costUsd: 0.009 })])
+        .mockResolvedValueOnce([
+          usage({ billId: 'bill-1', customerNumber: '7202210726', referenceMonth: 'SET/2024', costUsd: 0.009 }),
+          usage({ billId: 'bill-2', customerNumber: '7204076116', referenceMonth: 'SET/2024', costUsd: 0.009 }),
+        ]);
+
+      const result = await service.getLlmUsage();
+
+      expect(result.totals).toMatchObject({ runs: 4, totalTokens: 4800, costUsd: 0.019, bills: 2, averageCostPerBill: 0.0095 });
+      expect(result.byMonth.map(item => [item.month, item.costUsd])).toEqual([
+        ['OUT/2024', 0.0145],
+        ['NOV/2024', 0.0045],
+      ]);
+      expect(result.byCustomer[0]).toMatchObject({ customerNumber: '7202210726', bills: 1, runs: 2, costUsd: 0.009 });
+      expect(result.byBill.map(item => item.billId)).toEqual(['bill-1', 'bill-2']);
+      expect(result.budget.budgetUsd).toBe(10);
+    });
+
+    it('should group and cap the breakdown in SQL without loading the runs', async () => {
+      mockPrismaService.$queryRaw.mockResolvedValueOnce([usage({ bills: 0 })]).mockResolvedValue([]);
+
+      await service.getLlmUsage();
+
+      expect(mockPrismaService.extractionRun.findMany).not.toHaveBeenCalled();
+      expect(sqlOf(0).text).toContain('FILTER (WHERE NOT r."cached")');
+      expect(sqlOf(1).text).toContain("date_trunc('month', r.\"createdAt\")");
+      expect(sqlOf(2).text).toContain('GROUP BY b."customerNumber"');
+      expect(sqlOf(3).text).toMatch(/ORDER BY "costUsd" DESC, b."id"\s+LIMIT \$1/);
+      expect(sqlOf(3).values).toEqual([50]);
+    });
+
+    it('should filter runs by the customer of the bill and processing date', async () => {
+      mockPrismaService.$queryRaw.mockResolvedValueOnce([usage({ bills: 0 })]).mockResolvedValue([]);
+
+      await service.getLlmUsage({ customerNumber: '7202210726', startDate: '2024-10-01' });
+
+      expect(sqlOf(0).text).toContain('WHERE r."createdAt" >= $1 AND strpos(lower(b."customerNumber"), lower($2)) > 0');
+      expect(sqlOf(0).values).toEqual([new Date('2024-10-01'), '7202210726']);
+      expect(sqlOf(3).text).toContain('AND b."id" IS NOT NULL');
+    });
+  });
+
   describe('buildWhereClause', () => {
     it('should build where clause with customer number filter', () => {
       const filters: DashboardFilterDto = {
@@ -251,12 +505,7 @@ describe('DashboardService', () => {
 
       const whereClause = (service as any).buildWhereClause(filters);
 
-      expect(whereClause).toEqual({
-        createdAt: {
-          gte: new Date('2024-01-01'),
-          lte: new Date('2024-12-31'),
-        },
-      });
+      expect(whereClause).toEqual(period2024);
     });
 
     it('should build where clause with all filters', () => {
@@ -273,10 +522,7 @@ describe('DashboardService', () => {
           contains: '7202210726',
           mode: 'insensitive',
         },
-        createdAt: {
-          gte: new Date('2024-01-01'),
-          lte: new Date('2024-12-31'),
-        },
+        ...period2024,
       });
     });
 
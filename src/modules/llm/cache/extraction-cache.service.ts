@@ -0,0 +1,111 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ExtractionCompletion } from '../providers/extraction-provider.interface';
+
+export interface ExtractionCacheKey {
+  textHash: string;
+  promptVersion: string;
+  model: string;
+}
+
+// 30 dias
+const DEFAULT_TTL_HOURS = 720;
+
+// Cache das respostas do provedor em Postgres. Erros de leitura ou escrita são
+// tratados como cache miss para nunca interromper a extração.
+@Injectable()
+export class ExtractionCacheService {
+  private readonly logger = new Logger(ExtractionCacheService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  isEnabled(): boolean {
+    return (
+      this.configService.get<string>('EXTRACTION_CACHE_ENABLED') !== 'false'
+    );
+  }
+
+  async get(key: ExtractionCacheKey): Promise<ExtractionCompletion | null> {
+    try {
+      const entry = await this.prisma.extractionCacheEntry.findUnique({
+        where: { textHash_promptVersion_model: key },
+      });
+      if (!entry) {
+        return null;
+      }
+
+      if (entry.expiresAt <= new Date()) {
+        await this.prisma.extractionCacheEntry.delete({
+          where: { id: entry.id },
+        });
+        return null;
+      }
+
+      await this.prisma.extractionCacheEntry.update({
+        where: { id: entry.id },
+        data: { hits: { increment: 1 } },
+      });
+
+      return {
+        content: entry.content,
+        model: entry.model,
+        usage:
+          entry.totalTokens !== null
+            ? {
+                promptTokens: entry.promptTokens,
+                completionTokens: entry.completionTokens,
+                totalTokens: entry.totalTokens,
+              }
+            : undefined,
+      };
+    } catch (error) {
+      this.logger.warn(`Falha ao ler o cache de extração: ${error.message}`);
+      return null;
+    }
+  }
+
+  async set(
+    key: ExtractionCacheKey,
+    provider: string,
+    completion: ExtractionCompletion,
+  ): Promise<void> {
+    const ttlHours =
+      Number(this.configService.get<string>('EXTRACTION_CACHE_TTL_HOURS')) ||
+      DEFAULT_TTL_HOURS;
+    const data = {
+      provider,
+      content: completion.content,
+      promptTokens: completion.usage?.promptTokens,
+      completionTokens: completion.usage?.completionTokens,
+      totalTokens: completion.usage?.totalTokens,
+      expiresAt: new Date(Date.now() + ttlHours * 60 * 60 * 1000),
+    };
+
+    try {
+      await this.prisma.extractionCacheEntry.upsert({
+        where: { textHash_promptVersion_model: key },
+        create: { ...key, ...data },
+        update: { ...data, hits: 0 },
+      });
+    } catch (error) {
+      this.logger.warn(`Falha ao gravar o cache de extração: ${error.message}`);
+    }
+  }
+
+  // Remove as entradas dos textos informados (todas as versões de prompt e modelos)
+  async invalidate(textHashes: string[]): Promise<number> {
+    if (!textHashes.length) {
+      return 0;
+    }
+
+    const { count } = await this.prisma.extractionCacheEntry.deleteMany({
+      where: { textHash: { in: textHashes } },
+    });
+    this.logger.log(`${count} entrada(s) removida(s) do cache de extração`);
+    return count;
+  }
+}
@@ -0,0 +1,231 @@
+import { DistributorCode, LineItemCategory } from '../dto/llm-extraction.dto';
+import { CategoryRule } from '../extractors/line-items';
+
+// Pesos dos sinais de detecção: o CNPJ identifica a distribuidora com
+// segurança, o nome/logo quase sempre e os marcadores de layout só reforçam
+const CNPJ_WEIGHT = 3;
+const LOGO_WEIGHT = 2;
+const LAYOUT_MARKER_WEIGHT = 1;
+
+// Pontuação mínima para aceitar a detecção (nome/logo ou CNPJ)
+const MIN_DETECTION_SCORE = LOGO_WEIGHT;
+
+const CNPJ_PATTERN = /\b\d{2}\.?\d{3}\.?\d{3}\/?\d{4}-?\d{2}\b/g;
+
+export interface DistributorProfile {
+  code: DistributorCode;
+  name: string; // Nome gravado na fatura quando o modelo não informa a distribuidora
+  states: string[]; // UFs atendidas
+  detection: {
+    cnpjs: string[]; // Apenas dígitos
+    logoText: RegExp[];
+    layoutMarkers: RegExp[];
+  };
+  // Rótulos como impressos no layout da distribuidora, usados no prompt
+  labels: {
+    customerNumber: string;
+    installationNumber: string;
+    referenceMonth: string;
+    lineItems: string;
+  };
+  // Nomes dos itens no layout da distribuidora e a categoria comum de cada um
+  itemRules: CategoryRule[];
+  ruleExtractor?: boolean; // Layout coberto pelo extrator determinístico (CemigRuleExtractor)
+}
+
+export interface DistributorDetection {
+  code: DistributorCode;
+  score: number;
+  signals: string[]; // Sinais encontrados no texto (ex: cnpj:06981180000116)
+}
+
+export const DISTRIBUTOR_PROFILES: DistributorProfile[] = [
+  {
+    code: DistributorCode.CEMIG,
+    name: 'CEMIG',
+    states: ['MG'],
+    detection: {
+      cnpjs: ['06981180000116'],
+      logoText: [/\bCEMIG\b/i],
+      layoutMarkers: [/Energia SCEEE?/i, /Energia compensada GD/i],
+    },
+    labels: {
+      customerNumber: 'Nº DO CLIENTE',
+      installationNumber: 'Nº DA INSTALAÇÃO',
+      referenceMonth: 'Referente a',
+      lineItems: 'Itens da Fatura',
+    },
+    itemRules: [],
+    ruleExtractor: true,
+  },
+  {
+    code: DistributorCode.ENEL,
+    name: 'ENEL',
+    states: ['SP', 'RJ', 'CE', 'GO'],
+    detection: {
+      // Enel SP (Eletropaulo), Enel RJ (Ampla) e Enel CE (Coelce)
+      cnpjs: ['61695227000193', '33050071000158', '07047251000170'],
+      logoText: [/\bEnel\b/i, /\bEletropaulo\b/i, /\bCoelce\b/i],
+      layoutMarkers: [/Energia Ativa Fornecida/i, /Consumo Ativo/i],
+    },
+    labels: {
+      customerNumber: 'Nº do Cliente',
+      installationNumber: 'Nº da Instalação',
+      referenceMonth: 'Mês/Ano de referência',
+      lineItems: 'Descrição do Faturamento',
+    },
+    itemRules: [
+      { pattern: /injetad/i, category: LineItemCategory.COMPENSATED_ENERGY },
+      {
+        pattern: /energia ativa fornecida|consumo ativo|^consumo\b/i,
+        category: LineItemCategory.ELECTRIC_ENERGY,
+      },
+      {
+        pattern: /\bCIP\b|\bCOSIP\b/i,
+        category: LineItemCategory.PUBLIC_LIGHTING,
+      },
+    ],
+  },
+  {
+    code: DistributorCode.LIGHT,
+    name: 'LIGHT',
+    states: ['RJ'],
+    detection: {
+      cnpjs: ['60444437000146'],
+      logoText: [
+        /\bLight\s+S\.?\/?A\b/i,
+        /\bLight Servi[çc]os de Eletricidade\b/i,
+      ],
+      layoutMarkers: [
+        /C[óo]digo de Instala[çc][ãa]o/i,
+        /Discrimina[çc][ãa]o da Opera[çc][ãa]o/i,
+      ],
+    },
+    labels: {
+      customerNumber: 'Código do Cliente',
+      installationNumber: 'Código de Instalação',
+      referenceMonth: 'Referência',
+      lineItems: 'Discriminação da Operação',
+    },
+    itemRules: [
+      { pattern: /injetad/i, category: LineItemCategory.COMPENSATED_ENERGY },
+      {
+        pattern: /energia ativa|^consumo\b/i,
+        category: LineItemCategory.ELECTRIC_ENERGY,
+      },
+      {
+        pattern: /custeio\s+(?:de\s+)?IP|\bCOSIP\b|\bCIP\b/i,
+        category: LineItemCategory.PUBLIC_LIGHTING,
+      },
+    ],
+  },
+  {
+    code: DistributorCode.CPFL,
+    name: 'CPFL',
+    states: ['SP', 'RS'],
+    detection: {
+      // CPFL Paulista e CPFL Piratininga
+      cnpjs: ['33050196000188', '04172213000151'],
+      logoText: [/\bCPFL\b/i, /Companhia Paulista de For[çc]a e Luz/i],
+      layoutMarkers: [/Seu C[óo]digo/i, /Consumo Uso Sistema/i],
+    },
+    labels: {
+      customerNumber: 'Seu Código',
+      installationNumber: 'Nº da Instalação',
+      referenceMonth: 'Conta do mês',
+      lineItems: 'Descrição',
+    },
+    // O consumo vem dividido em TUSD e TE: as duas linhas somam a energia elétrica
+    itemRules: [
+      { pattern: /\binj/i, category: LineItemCategory.COMPENSATED_ENERGY },
+      {
+        pattern: /consumo\s+uso\s+sistema|consumo\s*-\s*TE\b/i,
+        category: LineItemCategory.ELECTRIC_ENERGY,
+      },
+      {
+        pattern: /custeio\s+IP|\bCIP\b/i,
+        category: LineItemCategory.PUBLIC_LIGHTING,
+      },
+    ],
+  },
+  {
+    code: DistributorCode.EQUATORIAL,
+    name: 'EQUATORIAL',
+    states: ['PA', 'MA', 'PI', 'AL', 'AP', 'RS', 'GO'],
+    detection: {
+      // Equatorial Pará, Maranhão, Piauí e Alagoas
+      cnpjs: [
+        '04895728000180',
+        '06272793000184',
+        '06840748000189',
+        '12272084000100',
+      ],
+      logoText: [
+        /\bEquatorial\s+(?:Energia|Par[áa]|Maranh[ãa]o|Piau[íi]|Alagoas|Amap[áa]|Goi[áa]s|CEEE)/i,
+      ],
+      layoutMarkers: [/Conta Contrato/i, /Conta referente a/i],
+    },
+    labels: {
+      customerNumber: 'Conta Contrato',
+      installationNumber: 'Unidade Consumidora (UC)',
+      referenceMonth: 'Conta referente a',
+      lineItems: 'Itens de Fatura',
+    },
+    itemRules: [
+      { pattern: /injetad/i, category: LineItemCategory.COMPENSATED_ENERGY },
+      {
+        pattern: /^consumo\b|energia ativa/i,
+        category: LineItemCategory.ELECTRIC_ENERGY,
+      },
+      {
+        pattern: /\bCIP\b|\bCOSIP\b/i,
+        category: LineItemCategory.PUBLIC_LIGHTING,
+      },
+    ],
+  },
+];
+
+export function getDistributorProfile(
+  code: DistributorCode | string | null | undefined,
+): DistributorProfile | undefined {
+  return DISTRIBUTOR_PROFILES.find(profile => profile.code === code);
+}
+
+// Identifica a distribuidora pelo texto da fatura somando os sinais de cada
+// perfil. Retorna null quando nenhum perfil atinge a pontuação mínima ou
+// quando dois perfis empatam (ex: fatura que cita outra distribuidora)
+export function detectDistributor(text: string): DistributorDetection | null {
+  const cnpjs = new Set(
+    (text.match(CNPJ_PATTERN) || []).map(cnpj => cnpj.replace(/\D/g, '')),
+  );
+
+  const candidates = DISTRIBUTOR_PROFILES.map(profile => {
+    const signals: string[] = [];
+    let score = 0;
+
+    const cnpj = profile.detection.cnpjs.find(value => cnpjs.has(value));
+    if (cnpj) {
+      score += CNPJ_WEIGHT;
+      signals.push(`cnpj:${cnpj}`);
+    }
+    const logo = profile.detection.logoText.find(pattern => pattern.test(text));
+    if (logo) {
+      score += LOGO_WEIGHT;
+      signals.push(`logo:${text.match(logo)[0]}`);
+    }
+    for (const marker of profile.detection.layoutMarkers) {
+      const match = text.match(marker);
+      if (match) {
+        score += LAYOUT_MARKER_WEIGHT;
+        signals.push(`layout:${match[0]}`);
+      }
+    }
+    return { code: profile.code, score, signals };
+  }).sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = candidates;
+  if (best.score < MIN_DETECTION_SCORE || best.score === runnerUp?.score) {
+    return null;
+  }
+  return best;
+}
@@ -1,6 +1,94 @@
-import { IsString, IsNumber, IsOptional, ValidateNested } from 'class-validator';
+import { IsString, IsNumber, IsOptional, ValidateNested, IsEnum } from 'class-validator';
 import { Type } from 'class-transformer';
 
+export enum TextSource {
+  NATIVE = 'NATIVE', // Camada de texto do próprio PDF
+  OCR = 'OCR', // PDF escaneado, texto obtido por OCR
+}
+
+export enum ExtractionOutcome {
+  SUCCESS = 'SUCCESS',
+  PROVIDER_ERROR = 'PROVIDER_ERROR', // Falha na chamada ao provedor
+  INVALID_JSON = 'INVALID_JSON', // Resposta não é JSON válido
+  VALIDATION_ERROR = 'VALIDATION_ERROR', // JSON sem os campos obrigatórios
+}
+
+// Classificação das falhas de extração, devolvida na resposta de erro e gravada na execução
+export enum ExtractionErrorCode {
+  UNSUPPORTED_FILE = 'UNSUPPORTED_FILE', // Arquivo não é PDF
+  INVALID_FILE = 'INVALID_FILE', // Conteúdo do arquivo ausente
+  PDF_READ_ERROR = 'PDF_READ_ERROR', // pdf-parse não conseguiu ler o arquivo
+  EMPTY_DOCUMENT = 'EMPTY_DOCUMENT', // PDF sem texto (nem por OCR)
+  PROVIDER_UNAVAILABLE = 'PROVIDER_UNAVAILABLE', // Circuito aberto ou tentativas esgotadas
+  PROVIDER_REJECTED = 'PROVIDER_REJECTED', // Provedor recusou a requisição (4xx exceto 429, ex: 400, 401, 404)
+  PROVIDER_ERROR = 'PROVIDER_ERROR', // Outro erro não transitório na chamada ao provedor
+  EMPTY_RESPONSE = 'EMPTY_RESPONSE', // Modelo não retornou conteúdo
+  TRUNCATED_RESPONSE = 'TRUNCATED_RESPONSE', // Resposta cortada pelo limite de tokens do provedor
+  INVALID_JSON = 'INVALID_JSON', // Resposta não é um objeto JSON
+  SCHEMA_VIOLATION = 'SCHEMA_VIOLATION', // JSON fora do schema de extração
+  UNPARSEABLE_FIELD = 'UNPARSEABLE_FIELD', // Número ou data em formato não reconhecido
+  MISSING_REQUIRED_FIELD = 'MISSING_REQUIRED_FIELD', // Cliente, mês de referência ou energia ausentes
+}
+
+export enum LineItemCategory {
+  ELECTRIC_ENERGY = 'ELECTRIC_ENERGY', // Energia Elétrica
+  SCEEE_ENERGY = 'SCEEE_ENERGY', // Energia SCEEE s/ICMS
+  COMPENSATED_ENERGY = 'COMPENSATED_ENERGY', // Energia compensada GD I
+  INJECTED_ENERGY = 'INJECTED_ENERGY', // Energia injetada
+  PUBLIC_LIGHTING = 'PUBLIC_LIGHTING', // Contrib Ilum Publica Municipal
+  FINE = 'FINE', // Multas
+  INTEREST = 'INTEREST', // Juros de mora
+  PREVIOUS_CREDIT = 'PREVIOUS_CREDIT', // Créditos de meses anteriores
+  ADJUSTMENT = 'ADJUSTMENT', // Ajustes e correções
+  OTHER = 'OTHER',
+}
+
+// Distribuidoras com perfil de extração próprio (ver distributors/distributor-registry)
+export enum DistributorCode {
+  CEMIG = 'CEMIG',
+  ENEL = 'ENEL',
+  LIGHT = 'LIGHT',
+  CPFL = 'CPFL',
+  EQUATORIAL = 'EQUATORIAL',
+}
+
+// Dados pessoais mascarados antes do envio do texto ao provedor (ver redaction/pii-redactor)
+export enum PiiType {
+  CPF = 'CPF',
+  CNPJ = 'CNPJ',
+  NAME = 'NAME', // Nome do titular
+  ADDRESS = 'ADDRESS',
+  CEP = 'CEP',
+  EMAIL = 'EMAIL',
+  PHONE = 'PHONE',
+  BARCODE = 'BARCODE', // Código de barras e linha digitável
+  CUSTOMER_NUMBER = 'CUSTOMER_NUMBER',
+  INSTALLATION_NUMBER = 'INSTALLATION_NUMBER',
+}
+
+export class LineItemDto {
+  @IsString()
+  description: string; // Descrição como impressa na fatura
+
+  @IsString()
+  @IsOptional()
+  unit?: string; // kWh, kW...
+
+  @IsNumber()
+  @IsOptional()
+  quantity?: number;
+
+  @IsNumber()
+  @IsOptional()
+  unitPrice?: number; // R$ por unidade
+
+  @IsNumber()
+  value: number; // R$ (negativo para créditos)
+
+  @IsEnum(LineItemCategory)
+  category: LineItemCategory;
+}
+
 export class EnergyItemDto {
   @IsNumber()
   quantity: number; // kWh
@@ -9,6 +97,67 @@ export class EnergyItemDto {
   value: number; // R$
 }
 
+export class ReadingPeriodDto {
+  @IsString()
+  startDate: string; // Leitura anterior (YYYY-MM-DD)
+
+  @IsString()
+  endDate: string; // Leitura atual (YYYY-MM-DD)
+}
+
+export class TaxDto {
+  @IsNumber()
+  base: number; // Base de cálculo (R$)
+
+  @IsNumber()
+  rate: number; // Alíquota (%)
+
+  @IsNumber()
+  value: number; // R$
+}
+
+export class TaxBreakdownDto {
+  @ValidateNested()
+  @Type(() => TaxDto)
+  @IsOptional()
+  icms?: TaxDto;
+
+  @ValidateNested()
+  @Type(() => TaxDto)
+  @IsOptional()
+  pis?: TaxDto; // PIS/PASEP
+
+  @ValidateNested()
+  @Type(() => TaxDto)
+  @IsOptional()
+  cofins?: TaxDto;
+}
+
+export class ConsumptionHistoryItemDto {
+  @IsString()
+  month: string; // Mês do histórico (ex: AGO/2024)
+
+  @IsNumber()
+  consumption: number; // kWh
+
+  @IsNumber()
+  @IsOptional()
+  days?: number; // Dias faturados
+}
+
+export class FieldProvenanceDto {
+  @IsNumber()
+  confidence: number; // 0 a 1
+
+  @IsString()
+  @IsOptional()
+  snippet?: string; // Trecho do texto de onde o valor foi extraído
+
+  @IsNumber()
+  @IsOptional()
+  page?: number; // Página do PDF (começando em 1)
+}
+
 export class LlmExtractionResponseDto {
   @IsString()
   customerNumber: string; // Número do cliente (ex: 7202210726)
@@ -33,10 +182,77 @@ export class LlmExtractionResponseDto {
   @IsNumber()
   @IsOptional()
   publicLightingContrib?: number; // Contrib Ilum Publica Municipal (R$)
+
+  @IsString()
+  @IsOptional()
+  dueDate?: string; // Vencimento (YYYY-MM-DD)
+
+  @IsNumber()
+  @IsOptional()
+  totalAmount?: number; // Valor a pagar (R$)
+
+  @IsString()
+  @IsOptional()
+  installationNumber?: string; // Nº da instalação (UC)
+
+  @IsString()
+  @IsOptional()
+  distributor?: string; // Distribuidora (ex: CEMIG)
+
+  @IsEnum(DistributorCode)
+  @IsOptional()
+  distributorCode?: DistributorCode; // Distribuidora detectada no texto, não informada pelo modelo
+
+  @IsString()
+  @IsOptional()
+  tariffClass?: string; // Classe tarifária (ex: Residencial)
+
+  @IsString()
+  @IsOptional()
+  tariffSubgroup?: string; // Subgrupo tarifário (ex: B1)
+
+  @ValidateNested()
+  @Type(() => ReadingPeriodDto)
+  @IsOptional()
+  readingPeriod?: ReadingPeriodDto; // Período de leitura
+
+  @ValidateNested({ each: true })
+  @Type(() => LineItemDto)
+  @IsOptional()
+  lineItems?: LineItemDto[]; // Todas as linhas da tabela "Itens da fatura"
+
+  @ValidateNested({ each: true })
+  @Type(() => ConsumptionHistoryItemDto)
+  @IsOptional()
+  consumptionHistory?: ConsumptionHistoryItemDto[]; // Histórico de consumo impresso na fatura
+
+  @ValidateNested()
+  @Type(() => TaxBreakdownDto)
+  @IsOptional()
+  taxes?: TaxBreakdownDto; // Bloco de tributos (ICMS, PIS/PASEP e COFINS)
+
+  @IsEnum(TextSource)
+  @IsOptional()
+  textSource?: TextSource; // Origem do texto usado na extração
+
+  @IsOptional()
+  fieldProvenance?: Record<string, FieldProvenanceDto>; // Confiança e origem de cada campo extraído
+}
+
+// Intervalo de páginas de uma fatura dentro do PDF (começando em 1, inclusivo)
+export class PageRangeDto {
+  start: number;
+  end: number;
 }
 
 export class ExtractBillDataDto {
   filePath: string;
   fileName: string;
   fileBuffer: Buffer;
-}
\ No newline at end of file
+  billId?: string; // Fatura à qual as tentativas de extração ficam vinculadas
+  bypassCache?: boolean; // Ignora o cache de extração e chama o provedor novamente
+  pageRange?: PageRangeDto; // PDF com várias faturas: extrair apenas estas páginas
+  onProgress?: (stage: ExtractionProgressStage, metadata: Record<string, unknown>) => Promise<void>; // Acompanhamento das etapas da extração
+}
+
+export type ExtractionProgressStage = 'text_extracted' | 'llm_called';
\ No newline at end of file
@@ -0,0 +1,377 @@
+import { LlmExtractionResponseDto } from '../dto/llm-extraction.dto';
+
+// Campos comparados com o gabarito. Só entram na conta das fixtures cujo
+// gabarito define o campo (null = campo ausente na fatura)
+export const EVALUATED_FIELDS = [
+  'customerNumber',
+  'referenceMonth',
+  'electricEnergy.quantity',
+  'electricEnergy.value',
+  'sceeeEnergy.quantity',
+  'sceeeEnergy.value',
+  'compensatedEnergy.quantity',
+  'compensatedEnergy.value',
+  'publicLightingContrib',
+  'dueDate',
+  'totalAmount',
+  'installationNumber',
+  'distributor',
+  'distributorCode',
+];
+
+// Itens que podem ou não existir na fatura: avaliados por precisão/recall
+export const OPTIONAL_ITEMS = ['sceeeEnergy', 'compensatedEnergy'];
+
+export interface FieldComparison {
+  expected: unknown;
+  actual: unknown;
+  exact: boolean;
+  withinTolerance: boolean; // Números com diferença até a tolerância, textos sem diferenciar caixa e espaços
+}
+
+export interface FixtureResult {
+  fixture: string;
+  provider?: string; // Provedor da última tentativa (rules, openai, recorded...)
+  model?: string;
+  errorCode?: string; // Extração falhou: todos os campos contam como errados
+  errorMessage?: string;
+  latencyMs?: number;
+  totalTokens?: number;
+  costUsd?: number | null;
+  repairAttempts?: number;
+  fields: Record<string, FieldComparison>;
+  optionalItems: Record<string, { expected: boolean; predicted: boolean }>;
+}
+
+export interface FieldScore {
+  field: string;
+  evaluated: number;
+  exact: number;
+  withinTolerance: number;
+  exactAccuracy: number | null;
+  toleranceAccuracy: number | null;
+}
+
+export interface OptionalItemScore {
+  item: string;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface EvaluationReport {
+  generatedAt: string;
+  promptVersion: string;
+  provider: string;
+  model: string;
+  tolerance: number;
+  fixtures: FixtureResult[];
+  failures: number;
+  fields: FieldScore[];
+  optionalItems: OptionalItemScore[];
+  totals: {
+    totalTokens: number;
+    costUsd: number;
+    averageLatencyMs: number | null;
+  };
+}
+
+export interface FieldChange {
+  fixture: string;
+  field: string;
+  baseline: unknown;
+  candidate: unknown;
+}
+
+export interface EvaluationDiff {
+  baseline: Pick<EvaluationReport, 'promptVersion' | 'provider' | 'model'>;
+  candidate: Pick<EvaluationReport, 'promptVersion' | 'provider' | 'model'>;
+  fields: {
+    field: string;
+    exactAccuracyDelta: number | null;
+    toleranceAccuracyDelta: number | null;
+  }[];
+  optionalItems: {
+    item: string;
+    precisionDelta: number | null;
+    recallDelta: number | null;
+  }[];
+  regressions: FieldChange[]; // Certo no baseline, errado no candidato (pela tolerância)
+  improvements: FieldChange[];
+  missingFixtures: string[]; // Avaliadas em apenas um dos relatórios
+}
+
+// =========================
+// COMPARAÇÃO DE UMA FIXTURE
+// =========================
+
+export function scoreFixture(
+  fixture: string,
+  expected: Partial<LlmExtractionResponseDto>,
+  actual: LlmExtractionResponseDto | null,
+  tolerance: number,
+): Pick<FixtureResult, 'fixture' | 'fields' | 'optionalItems'> {
+  const fields: Record<string, FieldComparison> = {};
+  for (const field of EVALUATED_FIELDS) {
+    const expectedValue = readPath(expected, field);
+    if (expectedValue === undefined) {
+      continue;
+    }
+    const actualValue = actual
+      ? normalizeMissing(readPath(actual, field))
+      : null;
+    fields[field] = compareValues(
+      normalizeMissing(expectedValue),
+      actualValue,
+      tolerance,
+    );
+  }
+
+  const optionalItems: FixtureResult['optionalItems'] = {};
+  for (const item of OPTIONAL_ITEMS) {
+    if (expected[item] === undefined) {
+      continue;
+    }
+    optionalItems[item] = {
+      expected: isPresent(expected[item]),
+      predicted: actual ? isPresent(actual[item]) : false,
+    };
+  }
+
+  return { fixture, fields, optionalItems };
+}
+
+export function compareValues(
+  expected: unknown,
+  actual: unknown,
+  tolerance: number,
+): FieldComparison {
+  const exact = expected === actual;
+  let withinTolerance = exact;
+
+  if (!exact && typeof expected === 'number' && typeof actual === 'number') {
+    // Margem para erros de ponto flutuante na comparação com a tolerância
+    withinTolerance = Math.abs(expected - actual) <= tolerance + 1e-9;
+  } else if (
+    !exact &&
+    typeof expected === 'string' &&
+    typeof actual === 'string'
+  ) {
+    withinTolerance = normalizeText(expected) === normalizeText(actual);
+  }
+
+  return { expected, actual, exact, withinTolerance };
+}
+
+// =========================
+// CONSOLIDAÇÃO
+// =========================
+
+export function summarizeFields(results: FixtureResult[]): FieldScore[] {
+  return EVALUATED_FIELDS.map(field => {
+    const comparisons = results
+      .map(result => result.fields[field])
+      .filter(Boolean);
+    const exact = comparisons.filter(comparison => comparison.exact).length;
+    const withinTolerance = comparisons.filter(
+      comparison => comparison.withinTolerance,
+    ).length;
+    return {
+      field,
+      evaluated: comparisons.length,
+      exact,
+      withinTolerance,
+      exactAccuracy: ratio(exact, comparisons.length),
+      toleranceAccuracy: ratio(withinTolerance, comparisons.length),
+    };
+  }).filter(score => score.evaluated > 0);
+}
+
+export function summarizeOptionalItems(
+  results: FixtureResult[],
+): OptionalItemScore[] {
+  return OPTIONAL_ITEMS.map(item => {
+    const outcomes = results
+      .map(result => result.optionalItems[item])
+      .filter(Boolean);
+    const truePositives = outcomes.filter(
+      o => o.expected && o.predicted,
+    ).length;
+    const falsePositives = outcomes.filter(
+      o => !o.expected && o.predicted,
+    ).length;
+    const falseNegatives = outcomes.filter(
+      o => o.expected && !o.predicted,
+    ).length;
+    return {
+      item,
+      truePositives,
+      falsePositives,
+      falseNegatives,
+      precision: ratio(truePositives, truePositives + falsePositives),
+      recall: ratio(truePositives, truePositives + falseNegatives),
+    };
+  });
+}
+
+export function buildReport(
+  meta: Pick<
+    EvaluationReport,
+    'promptVersion' | 'provider' | 'model' | 'tolerance'
+  >,
+  fixtures: FixtureResult[],
+  generatedAt: Date = new Date(),
+): EvaluationReport {
+  const latencies = fixtures
+    .map(fixture => fixture.latencyMs)
+    .filter(latency => latency !== undefined);
+  return {
+    generatedAt: generatedAt.toISOString(),
+    ...meta,
+    fixtures,
+    failures: fixtures.filter(fixture => fixture.errorCode).length,
+    fields: summarizeFields(fixtures),
+    optionalItems: summarizeOptionalItems(fixtures),
+    totals: {
+      totalTokens: fixtures.reduce(
+        (sum, fixture) => sum + (fixture.totalTokens || 0),
+        0,
+      ),
+      costUsd: round(
+        fixtures.reduce((sum, fixture) => sum + (fixture.costUsd || 0), 0),
+        6,
+      ),
+      averageLatencyMs: latencies.length
+        ? Math.round(
+            latencies.reduce((sum, latency) => sum + latency, 0) /
+              latencies.length,
+          )
+        : null,
+    },
+  };
+}
+
+// =========================
+// DIFERENÇA ENTRE DOIS RELATÓRIOS
+// =========================
+
+// Compara duas execuções sobre o mesmo corpus (versões de prompt ou provedores
+// diferentes), campo a campo e fixture a fixture
+export function compareReports(
+  baseline: EvaluationReport,
+  candidate: EvaluationReport,
+): EvaluationDiff {
+  const baselineFixtures = new Map(
+    baseline.fixtures.map(fixture => [fixture.fixture, fixture]),
+  );
+  const candidateFixtures = new Map(
+    candidate.fixtures.map(fixture => [fixture.fixture, fixture]),
+  );
+
+  const regressions: FieldChange[] = [];
+  const improvements: FieldChange[] = [];
+  for (const [name, before] of baselineFixtures) {
+    const after = candidateFixtures.get(name);
+    if (!after) {
+      continue;
+    }
+    for (const [field, comparison] of Object.entries(before.fields)) {
+      const next = after.fields[field];
+      if (!next || comparison.withinTolerance === next.withinTolerance) {
+        continue;
+      }
+      const change = {
+        fixture: name,
+        field,
+        baseline: comparison.actual,
+        candidate: next.actual,
+      };
+      (comparison.withinTolerance ? regressions : improvements).push(change);
+    }
+  }
+
+  const fieldScores = new Map(
+    baseline.fields.map(score => [score.field, score]),
+  );
+  const itemScores = new Map(
+    baseline.optionalItems.map(score => [score.item, score]),
+  );
+  return {
+    baseline: pickMeta(baseline),
+    candidate: pickMeta(candidate),
+    fields: candidate.fields.map(score => ({
+      field: score.field,
+      exactAccuracyDelta: delta(
+        fieldScores.get(score.field)?.exactAccuracy,
+        score.exactAccuracy,
+      ),
+      toleranceAccuracyDelta: delta(
+        fieldScores.get(score.field)?.toleranceAccuracy,
+        score.toleranceAccuracy,
+      ),
+    })),
+    optionalItems: candidate.optionalItems.map(score => ({
+      item: score.item,
+      precisionDelta: delta(
+        itemScores.get(score.item)?.precision,
+        score.precision,
+      ),
+      recallDelta: delta(itemScores.get(score.item)?.recall, score.recall),
+    })),
+    regressions,
+    improvements,
+    missingFixtures: [
+      ...[...baselineFixtures.keys()].filter(
+        name => !candidateFixtures.has(name),
+      ),
+      ...[...candidateFixtures.keys()].filter(
+        name => !baselineFixtures.has(name),
+      ),
+    ],
+  };
+}
+
+function pickMeta(report: EvaluationReport): EvaluationDiff['baseline'] {
+  return {
+    promptVersion: report.promptVersion,
+    provider: report.provider,
+    model: report.model,
+  };
+}
+
+function readPath(source: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .reduce((value, key) => (value == null ? undefined : value[key]), source);
+}
+
+// Campo não extraído e campo null equivalem a "ausente"
+function normalizeMissing(value: unknown): unknown {
+  return value === undefined ? null : value;
+}
+
+function isPresent(value: unknown): boolean {
+  return value !== null && value !== undefined;
+}
+
+function normalizeText(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toUpperCase();
+}
+
+function ratio(part: number, total: number): number | null {
+  return total > 0 ? round(part / total, 4) : null;
+}
+
+function delta(
+  before: number | null | undefined,
+  after: number | null,
+): number | null {
+  return before == null || after == null ? null : round(after - before, 4);
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
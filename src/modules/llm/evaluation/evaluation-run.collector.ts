@@ -0,0 +1,20 @@
+import { Injectable } from '@nestjs/common';
+import { ExtractionRunRecord } from '../runs/extraction-run.service';
+
+// Substitui o ExtractionRunService durante a avaliação: as tentativas ficam em
+// memória (tokens, custo, latência, reparos) em vez de irem para o banco
+@Injectable()
+export class EvaluationRunCollector {
+  private runs: ExtractionRunRecord[] = [];
+
+  async record(run: ExtractionRunRecord): Promise<void> {
+    this.runs.push(run);
+  }
+
+  // Retorna e descarta as tentativas registradas desde a última chamada
+  drain(): ExtractionRunRecord[] {
+    const runs = this.runs;
+    this.runs = [];
+    return runs;
+  }
+}
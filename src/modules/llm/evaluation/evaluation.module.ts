@@ -0,0 +1,56 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { LlmService } from '../llm.service';
+import { EXTRACTION_PROVIDER } from '../providers/extraction-provider.interface';
+import { createExtractionProvider } from '../providers/extraction-provider.factory';
+import { CemigRuleExtractor } from '../extractors/cemig-rule.extractor';
+import { OcrService } from '../ocr/ocr.service';
+import { ExtractionRunService } from '../runs/extraction-run.service';
+import { ExtractionCacheService } from '../cache/extraction-cache.service';
+import { LlmUsageService } from '../usage/llm-usage.service';
+import { LlmResilienceService } from '../resilience/llm-resilience.service';
+import { RedactionService } from '../redaction/redaction.service';
+import { EvaluationRunCollector } from './evaluation-run.collector';
+import { ExtractionEvaluationService } from './extraction-evaluation.service';
+
+// Pipeline de extração sem banco de dados, usado pelo comando de avaliação.
+// As tentativas ficam em memória e o cache de extração nunca é consultado
+@Module({
+  imports: [ConfigModule.forRoot({ isGlobal: true })],
+  providers: [
+    LlmService,
+    CemigRuleExtractor,
+    OcrService,
+    LlmResilienceService,
+    EvaluationRunCollector,
+    ExtractionEvaluationService,
+    {
+      provide: ExtractionRunService,
+      useExisting: EvaluationRunCollector,
+    },
+    {
+      provide: ExtractionCacheService,
+      useValue: { isEnabled: () => false },
+    },
+    {
+      // Só o cálculo de custo é usado; orçamento mensal não se aplica à avaliação
+      provide: LlmUsageService,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        new LlmUsageService(null, configService),
+    },
+    {
+      // Mascara o texto como em produção; as fixtures não têm fatura para o registro
+      provide: RedactionService,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        new RedactionService(null, configService),
+    },
+    {
+      provide: EXTRACTION_PROVIDER,
+      inject: [ConfigService],
+      useFactory: createExtractionProvider,
+    },
+  ],
+})
+export class EvaluationModule {}
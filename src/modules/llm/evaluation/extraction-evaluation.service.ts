@@ -0,0 +1,132 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { readdir, readFile } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import { LlmService, PROMPT_VERSION } from '../llm.service';
+import { LlmExtractionResponseDto } from '../dto/llm-extraction.dto';
+import {
+  EXTRACTION_PROVIDER,
+  ExtractionProvider,
+} from '../providers/extraction-provider.interface';
+import { EvaluationRunCollector } from './evaluation-run.collector';
+import {
+  EvaluationReport,
+  FixtureResult,
+  buildReport,
+  scoreFixture,
+} from './evaluation-metrics';
+
+// Gabarito de cada PDF: <nome>.pdf -> <nome>.expected.json
+const EXPECTED_SUFFIX = '.expected.json';
+
+export interface EvaluationFixture {
+  name: string;
+  pdfPath: string;
+  expected: Partial<LlmExtractionResponseDto>;
+}
+
+@Injectable()
+export class ExtractionEvaluationService {
+  private readonly logger = new Logger(ExtractionEvaluationService.name);
+
+  constructor(
+    private readonly llmService: LlmService,
+    @Inject(EXTRACTION_PROVIDER) private readonly provider: ExtractionProvider,
+    private readonly runCollector: EvaluationRunCollector,
+  ) {}
+
+  async loadFixtures(fixturesDir: string): Promise<EvaluationFixture[]> {
+    const files = (await readdir(fixturesDir)).sort();
+    const fixtures: EvaluationFixture[] = [];
+
+    for (const file of files.filter(name =>
+      name.toLowerCase().endsWith('.pdf'),
+    )) {
+      const name = basename(file, '.pdf');
+      const expectedFile = `${name}${EXPECTED_SUFFIX}`;
+      if (!files.includes(expectedFile)) {
+        this.logger.warn(
+          `Fixture ${file} sem gabarito ${expectedFile}, ignorada`,
+        );
+        continue;
+      }
+      const expected = JSON.parse(
+        await readFile(join(fixturesDir, expectedFile), 'utf-8'),
+      );
+      fixtures.push({ name, pdfPath: join(fixturesDir, file), expected });
+    }
+
+    return fixtures;
+  }
+
+  // Roda o pipeline completo (regras, OCR, provedor, reparo) em cada fixture,
+  // sempre sem cache, e compara o resultado com o gabarito
+  async evaluate(
+    fixturesDir: string,
+    tolerance: number,
+  ): Promise<EvaluationReport> {
+    const fixtures = await this.loadFixtures(fixturesDir);
+    this.logger.log(
+      `Avaliando ${fixtures.length} fixture(s) de ${fixturesDir} com o provedor ${this.provider.name}`,
+    );
+
+    const results: FixtureResult[] = [];
+    for (const fixture of fixtures) {
+      results.push(await this.evaluateFixture(fixture, tolerance));
+    }
+
+    return buildReport(
+      {
+        promptVersion: PROMPT_VERSION,
+        provider: this.provider.name,
+        model: this.provider.model,
+        tolerance,
+      },
+      results,
+    );
+  }
+
+  private async evaluateFixture(
+    fixture: EvaluationFixture,
+    tolerance: number,
+  ): Promise<FixtureResult> {
+    this.runCollector.drain();
+
+    let actual: LlmExtractionResponseDto | null = null;
+    let error: { code?: string; message: string } | null = null;
+    try {
+      actual = await this.llmService.extractBillData({
+        filePath: fixture.pdfPath,
+        fileName: `${fixture.name}.pdf`,
+        fileBuffer: await readFile(fixture.pdfPath),
+        bypassCache: true,
+      });
+    } catch (extractionError) {
+      error = extractionError;
+      this.logger.warn(
+        `Fixture ${fixture.name} falhou: ${extractionError.message}`,
+      );
+    }
+
+    const runs = this.runCollector.drain();
+    const lastRun = runs[runs.length - 1];
+    return {
+      ...scoreFixture(fixture.name, fixture.expected, actual, tolerance),
+      provider: lastRun?.provider,
+      model: lastRun?.model,
+      ...(error && {
+        errorCode: error.code || 'UNKNOWN',
+        errorMessage: error.message,
+      }),
+      latencyMs: runs.reduce((sum, run) => sum + run.latencyMs, 0),
+      totalTokens: runs.reduce(
+        (sum, run) => sum + (run.usage?.totalTokens || 0),
+        0,
+      ),
+      costUsd: runs.reduce((sum, run) => sum + (run.costUsd || 0), 0),
+      repairAttempts: runs.reduce(
+        (sum, run) => sum + (run.repairAttempts || 0),
+        0,
+      ),
+    };
+  }
+}
@@ -0,0 +1,46 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ExtractionErrorCode } from './dto/llm-extraction.dto';
+
+// Problemas no arquivo enviado são 400; requisição recusada pelo provedor
+// (chave, modelo ou parâmetros inválidos), 424; respostas do modelo fora do contrato, 422
+const ERROR_STATUS: Partial<Record<ExtractionErrorCode, HttpStatus>> = {
+  [ExtractionErrorCode.UNSUPPORTED_FILE]: HttpStatus.BAD_REQUEST,
+  [ExtractionErrorCode.INVALID_FILE]: HttpStatus.BAD_REQUEST,
+  [ExtractionErrorCode.PDF_READ_ERROR]: HttpStatus.BAD_REQUEST,
+  [ExtractionErrorCode.EMPTY_DOCUMENT]: HttpStatus.BAD_REQUEST,
+  [ExtractionErrorCode.PROVIDER_REJECTED]: HttpStatus.FAILED_DEPENDENCY,
+  [ExtractionErrorCode.PROVIDER_ERROR]: HttpStatus.BAD_GATEWAY,
+};
+
+// Falhas da resposta do modelo que uma rodada de reparo pode corrigir
+const REPAIRABLE_CODES = [
+  ExtractionErrorCode.EMPTY_RESPONSE,
+  ExtractionErrorCode.INVALID_JSON,
+  ExtractionErrorCode.SCHEMA_VIOLATION,
+  ExtractionErrorCode.UNPARSEABLE_FIELD,
+  ExtractionErrorCode.MISSING_REQUIRED_FIELD,
+];
+
+export class ExtractionException extends HttpException {
+  constructor(
+    readonly code: ExtractionErrorCode,
+    message: string,
+    readonly details: string[] = [],
+  ) {
+    const status = ERROR_STATUS[code] ?? HttpStatus.UNPROCESSABLE_ENTITY;
+    super(
+      {
+        statusCode: status,
+        error: 'Extraction Failed',
+        code,
+        message,
+        ...(details.length && { details }),
+      },
+      status,
+    );
+  }
+
+  get repairable(): boolean {
+    return REPAIRABLE_CODES.includes(this.code);
+  }
+}
@@ -0,0 +1,58 @@
+import { PageRangeDto } from '../dto/llm-extraction.dto';
+import { MONTH_ABBREVIATIONS } from './reference-month';
+
+const MONTHS = MONTH_ABBREVIATIONS.join('|');
+
+// Cabeçalho da fatura: mês de referência impresso junto de um rótulo
+const REFERENCE_MONTH_PATTERN = new RegExp(
+  `(?:Referente a|M[êe]s de refer[êe]ncia|M[êe]s\\s*/\\s*Ano|Conta de)[\\s\\S]{0,120}?\\b(${MONTHS})\\s*/\\s*(\\d{4})\\b`,
+  'i',
+);
+
+// Identificação do cliente e da instalação (UC) no cabeçalho
+const CUSTOMER_PATTERN =
+  /(?:N[ºo°]\s*DO\s*CLIENTE|C[óo]digo do Cliente)[\s\S]{0,120}?(\d{6,12})(?:\s+(\d{6,12}))?/i;
+const INSTALLATION_PATTERN =
+  /(?:N[ºo°]\s*DA\s*INSTALA[ÇC][ÃA]O|Unidade Consumidora|\bUC\b)[\s\S]{0,80}?(\d{6,12})/i;
+
+// Chave que identifica a fatura impressa na página, ou null quando a página
+// não tem cabeçalho (continuação da fatura anterior)
+function pageBillKey(text: string): string | null {
+  const month = text.match(REFERENCE_MONTH_PATTERN);
+  if (!month) {
+    return null;
+  }
+
+  const customer = text.match(CUSTOMER_PATTERN);
+  const installation =
+    customer?.[2] ?? text.match(INSTALLATION_PATTERN)?.[1] ?? '';
+  return [
+    customer?.[1] ?? '',
+    installation,
+    `${month[1].toUpperCase()}/${month[2]}`,
+  ].join('|');
+}
+
+// Divide as páginas de um PDF em faturas. Uma página abre uma nova fatura
+// quando o cabeçalho (cliente, instalação e mês de referência) difere do da
+// fatura atual; páginas sem cabeçalho continuam a fatura anterior. Retorna
+// intervalos de páginas começando em 1
+export function segmentBillPages(pages: string[]): PageRangeDto[] {
+  const segments: PageRangeDto[] = [];
+  let currentKey: string | null = null;
+
+  pages.forEach((text, index) => {
+    const page = index + 1;
+    const key = pageBillKey(text);
+    const current = segments[segments.length - 1];
+
+    if (!current || (key && currentKey && key !== currentKey)) {
+      segments.push({ start: page, end: page });
+    } else {
+      current.end = page;
+    }
+    currentKey = key ?? currentKey;
+  });
+
+  return segments;
+}
@@ -0,0 +1,338 @@
+import { Injectable } from '@nestjs/common';
+import {
+  ConsumptionHistoryItemDto,
+  LineItemCategory,
+  LineItemDto,
+  LlmExtractionResponseDto,
+  TaxBreakdownDto,
+} from '../dto/llm-extraction.dto';
+import { categorizeLineItem, summarizeLineItems } from './line-items';
+import { normalizeReferenceMonth } from './reference-month';
+import { parseBrazilianNumber } from '../schema/locale-values';
+
+// Número no formato pt-BR: 2.300 | 0,50854704 | -1.104,84
+const NUMBER = '-?\\d{1,3}(?:\\.\\d{3})+(?:,\\d+)?|-?\\d+(?:,\\d+)?';
+const MONTHS = 'JAN|FEV|MAR|ABR|MAI|JUN|JUL|AGO|SET|OUT|NOV|DEZ';
+const TARIFF_SUBGROUPS = /\b(A1|A2|A3a|A3|A4|AS|B1|B2|B3|B4)\b/i;
+const TARIFF_CLASSES =
+  /^(Residencial|Comercial|Industrial|Rural|Poder P[úu]blico|Servi[çc]o P[úu]blico|Ilumina[çc][ãa]o P[úu]blica)/i;
+
+// Linha da tabela "Itens da fatura": descrição, unidade opcional (colada na
+// descrição pelo pdf-parse) e as colunas numéricas
+const LINE_ITEM_PATTERN = new RegExp(
+  `^(.*?[^\\s\\d-])\\s*(kWh|kVArh|kW)?\\s+((?:${NUMBER})(?:\\s+(?:${NUMBER}))*)\\s*$`,
+  'i',
+);
+
+// Linha do histórico de consumo: MÊS/ANO, consumo kWh, média kWh/dia e dias
+const HISTORY_ROW_PATTERN = new RegExp(
+  `^((?:${MONTHS})\\s*/\\s*(?:\\d{4}|\\d{2}))\\s+(${NUMBER})\\s+(?:${NUMBER})\\s+(\\d{1,3})$`,
+  'i',
+);
+
+// Linha do bloco de tributos: nome, base de cálculo, alíquota (%) e valor
+const TAX_ROW_PATTERN = new RegExp(
+  `^\\s*(ICMS|PIS(?:/PASEP)?|COFINS)\\s+(${NUMBER})\\s+(${NUMBER})\\s+(${NUMBER})\\s*$`,
+  'gim',
+);
+
+// Campos resumidos e a categoria de item que os alimenta
+const SUMMARY_FIELDS: Record<string, LineItemCategory> = {
+  electricEnergy: LineItemCategory.ELECTRIC_ENERGY,
+  sceeeEnergy: LineItemCategory.SCEEE_ENERGY,
+  compensatedEnergy: LineItemCategory.COMPENSATED_ENERGY,
+  publicLightingContrib: LineItemCategory.PUBLIC_LIGHTING,
+};
+
+export interface RuleExtractionResult {
+  data: LlmExtractionResponseDto | null;
+  confidence: number; // 0 a 1 - proporção das verificações que passaram
+  failedChecks: string[];
+  evidence: Record<string, string>; // Trecho do texto reconhecido para cada campo
+}
+
+// Extrator determinístico para o layout da CEMIG, aplicado sobre o texto do pdf-parse.
+// Só deve substituir o LLM quando atingir confiança total.
+@Injectable()
+export class CemigRuleExtractor {
+  extract(text: string): RuleExtractionResult {
+    const checks: Record<string, boolean> = {};
+    const evidence: Record<string, string> = {};
+
+    const distributorLine = text.match(/[^\n]*CEMIG[^\n]*/i);
+    checks.distributor = !!distributorLine;
+    if (distributorLine) {
+      evidence.distributor = distributorLine[0].trim();
+    }
+
+    const customerNumber = this.extractCustomerNumber(text, evidence);
+    checks.customerNumber = !!customerNumber;
+
+    const referenceMonth = this.extractReferenceMonth(text, evidence);
+    checks.referenceMonth = !!referenceMonth;
+
+    // Vencimento e valor a pagar são impressos na mesma linha do mês de referência
+    const payment = this.extractPayment(text, evidence);
+    checks.payment = !!payment;
+
+    // Todas as linhas da tabela de itens precisam ser reconhecidas
+    const table = this.extractLineItems(text, evidence);
+    checks.lineItems = !!table && table.unparsedRows.length === 0;
+
+    const lineItems = table ? table.items : [];
+    const summary = summarizeLineItems(lineItems);
+    checks.electricEnergy =
+      !!summary.electricEnergy && summary.electricEnergy.quantity > 0;
+
+    const failedChecks = Object.keys(checks).filter(key => !checks[key]);
+    const confidence =
+      (Object.keys(checks).length - failedChecks.length) /
+      Object.keys(checks).length;
+
+    if (!customerNumber || !referenceMonth || !summary.electricEnergy) {
+      return { data: null, confidence, failedChecks, evidence };
+    }
+
+    return {
+      data: {
+        customerNumber,
+        referenceMonth,
+        electricEnergy: summary.electricEnergy,
+        sceeeEnergy: summary.sceeeEnergy || null,
+        compensatedEnergy: summary.compensatedEnergy || null,
+        publicLightingContrib: summary.publicLightingContrib ?? null,
+        dueDate: payment?.dueDate,
+        totalAmount: payment?.totalAmount,
+        installationNumber: this.extractInstallationNumber(text, evidence),
+        distributor: 'CEMIG',
+        ...this.extractTariff(text, evidence),
+        lineItems,
+        consumptionHistory: this.extractConsumptionHistory(text),
+        ...this.extractTaxes(text, evidence),
+      },
+      confidence,
+      failedChecks,
+      evidence,
+    };
+  }
+
+  private extractCustomerNumber(
+    text: string,
+    evidence: Record<string, string>,
+  ): string | null {
+    // O número do cliente vem logo após o cabeçalho "Nº DO CLIENTE", antes do nº da instalação
+    const match = text.match(/N[ºo°]\s*DO\s*CLIENTE[\s\S]{0,120}?(\d{7,12})/i);
+    if (!match) {
+      return null;
+    }
+    evidence.customerNumber = match[0].trim();
+    return match[1];
+  }
+
+  private extractReferenceMonth(
+    text: string,
+    evidence: Record<string, string>,
+  ): string | null {
+    const pattern = new RegExp(
+      `Referente a[\\s\\S]{0,120}?\\b(${MONTHS})\\s*/\\s*(\\d{4})\\b`,
+      'i',
+    );
+    const match = text.match(pattern);
+    if (!match) {
+      return null;
+    }
+    evidence.referenceMonth = match[0].trim();
+    return `${match[1].toUpperCase()}/${match[2]}`;
+  }
+
+  private extractPayment(
+    text: string,
+    evidence: Record<string, string>,
+  ): { dueDate: string; totalAmount: number } | null {
+    const pattern = new RegExp(
+      `\\b(?:${MONTHS})\\s*/\\s*\\d{4}\\s+(\\d{2})/(\\d{2})/(\\d{4})\\s+(${NUMBER})`,
+      'i',
+    );
+    const match = text.match(pattern);
+    if (!match) {
+      return null;
+    }
+
+    const totalAmount = this.parseNumber(match[4]);
+    if (Number.isNaN(totalAmount)) {
+      return null;
+    }
+
+    evidence.dueDate = match[0].trim();
+    evidence.totalAmount = match[0].trim();
+    return { dueDate: `${match[3]}-${match[2]}-${match[1]}`, totalAmount };
+  }
+
+  private extractInstallationNumber(
+    text: string,
+    evidence: Record<string, string>,
+  ): string | undefined {
+    // Segundo número abaixo do cabeçalho "Nº DO CLIENTE  Nº DA INSTALAÇÃO"
+    const match = text.match(
+      /N[ºo°]\s*DO\s*CLIENTE[\s\S]{0,120}?\d{7,12}\s+(\d{7,12})/i,
+    );
+    if (!match) {
+      return undefined;
+    }
+    evidence.installationNumber = match[0].trim();
+    return match[1];
+  }
+
+  private extractTariff(
+    text: string,
+    evidence: Record<string, string>,
+  ): { tariffClass?: string; tariffSubgroup?: string } {
+    // Linha abaixo do cabeçalho "Classe  Subclasse  Modalidade Tarifária"
+    const match = text.match(/Modalidade Tarif[áa]ria[^\n]*\n\s*([^\n]+)/i);
+    if (!match) {
+      return {};
+    }
+
+    const line = match[1].trim();
+    const tariffClass = line.match(TARIFF_CLASSES)?.[1];
+    const tariffSubgroup = line.match(TARIFF_SUBGROUPS)?.[1]?.toUpperCase();
+    if (tariffClass) {
+      evidence.tariffClass = line;
+    }
+    if (tariffSubgroup) {
+      evidence.tariffSubgroup = line;
+    }
+    return { tariffClass, tariffSubgroup };
+  }
+
+  private extractTaxes(
+    text: string,
+    evidence: Record<string, string>,
+  ): { taxes?: TaxBreakdownDto } {
+    const taxes: TaxBreakdownDto = {};
+    const rows: string[] = [];
+
+    for (const match of text.matchAll(TAX_ROW_PATTERN)) {
+      const [base, rate, value] = match
+        .slice(2, 5)
+        .map(raw => this.parseNumber(raw));
+      const tax = match[1].toUpperCase().startsWith('PIS')
+        ? 'pis'
+        : (match[1].toLowerCase() as 'icms' | 'cofins');
+      if (!taxes[tax]) {
+        taxes[tax] = { base, rate, value };
+        rows.push(match[0].trim());
+      }
+    }
+
+    if (!rows.length) {
+      return {};
+    }
+    evidence.taxes = rows[0];
+    return { taxes };
+  }
+
+  // O histórico é opcional: não entra nas verificações de confiança
+  private extractConsumptionHistory(text: string): ConsumptionHistoryItemDto[] {
+    const section = text.match(/Hist[óo]rico de Consumo[\s\S]*$/i);
+    if (!section) {
+      return [];
+    }
+
+    const history: ConsumptionHistoryItemDto[] = [];
+    for (const row of section[0].split('\n').map(line => line.trim())) {
+      const match = row.match(HISTORY_ROW_PATTERN);
+      if (!match) {
+        continue;
+      }
+
+      const month = normalizeReferenceMonth(match[1]);
+      const consumption = this.parseNumber(match[2]);
+      if (month && !Number.isNaN(consumption)) {
+        history.push({ month, consumption, days: Number(match[3]) });
+      }
+    }
+    return history;
+  }
+
+  private extractLineItems(
+    text: string,
+    evidence: Record<string, string>,
+  ): { items: LineItemDto[]; unparsedRows: string[] } | null {
+    // A tabela começa no cabeçalho "Itens da Fatura" e termina na linha do TOTAL
+    const table = text.match(/Itens da Fatura[^\n]*\n([\s\S]*?)^\s*TOTAL\b/im);
+    if (!table) {
+      return null;
+    }
+
+    const items: LineItemDto[] = [];
+    const unparsedRows: string[] = [];
+
+    for (const row of table[1].split('\n').map(line => line.trim())) {
+      if (!row) {
+        continue;
+      }
+
+      const item = this.parseLineItem(row);
+      if (!item) {
+        unparsedRows.push(row);
+        continue;
+      }
+
+      items.push(item);
+
+      // O primeiro item de cada categoria resumida serve de evidência do campo
+      const field = Object.keys(SUMMARY_FIELDS).find(
+        key => SUMMARY_FIELDS[key] === item.category,
+      );
+      if (field && !evidence[field]) {
+        evidence[field] = row;
+      }
+    }
+
+    return { items, unparsedRows };
+  }
+
+  private parseLineItem(row: string): LineItemDto | null {
+    const match = row.match(LINE_ITEM_PATTERN);
+    if (!match) {
+      return null;
+    }
+
+    const description = match[1].trim();
+    const unit = match[2];
+    const numbers = match[3].split(/\s+/).map(raw => this.parseNumber(raw));
+    if (numbers.some(number => Number.isNaN(number))) {
+      return null;
+    }
+
+    const category = categorizeLineItem(description);
+
+    // Sem unidade: apenas o valor (ex: Contrib Ilum Publica Municipal).
+    // Unidade no meio da descrição indica colunas ilegíveis
+    if (!unit) {
+      if (/kW/i.test(description)) {
+        return null;
+      }
+      return { description, value: numbers[0], category };
+    }
+
+    // Com unidade: quantidade, preço unitário, valor e colunas de tributos
+    if (numbers.length < 3) {
+      return null;
+    }
+
+    return {
+      description,
+      unit,
+      quantity: Math.abs(numbers[0]),
+      unitPrice: numbers[1],
+      value: numbers[2],
+      category,
+    };
+  }
+
+  private parseNumber(raw: string): number {
+    return parseBrazilianNumber(raw) ?? Number.NaN;
+  }
+}
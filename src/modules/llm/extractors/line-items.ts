@@ -0,0 +1,86 @@
+import {
+  EnergyItemDto,
+  LineItemCategory,
+  LineItemDto,
+} from '../dto/llm-extraction.dto';
+
+export interface CategoryRule {
+  pattern: RegExp;
+  category: LineItemCategory;
+}
+
+// A ordem importa: a primeira regra que casar com a descrição define a categoria
+const CATEGORY_RULES: CategoryRule[] = [
+  {
+    pattern: /energia\s+el[ée]trica/i,
+    category: LineItemCategory.ELECTRIC_ENERGY,
+  },
+  { pattern: /scee/i, category: LineItemCategory.SCEEE_ENERGY },
+  { pattern: /compensada/i, category: LineItemCategory.COMPENSATED_ENERGY },
+  { pattern: /injetada/i, category: LineItemCategory.INJECTED_ENERGY },
+  { pattern: /ilum/i, category: LineItemCategory.PUBLIC_LIGHTING },
+  { pattern: /multa/i, category: LineItemCategory.FINE },
+  { pattern: /juros|mora/i, category: LineItemCategory.INTEREST },
+  { pattern: /cr[ée]dito|devolu/i, category: LineItemCategory.PREVIOUS_CREDIT },
+  {
+    pattern: /ajuste|acerto|corre[çc][ãa]o|restitui/i,
+    category: LineItemCategory.ADJUSTMENT,
+  },
+];
+
+// Regras da distribuidora (nomes dos itens no layout dela) têm precedência
+// sobre as regras genéricas
+export function categorizeLineItem(
+  description: string,
+  distributorRules: CategoryRule[] = [],
+): LineItemCategory {
+  const rule = [...distributorRules, ...CATEGORY_RULES].find(({ pattern }) =>
+    pattern.test(description),
+  );
+  return rule ? rule.category : LineItemCategory.OTHER;
+}
+
+function sumItems(items: LineItemDto[]): EnergyItemDto {
+  return {
+    quantity: items.reduce((total, item) => total + (item.quantity || 0), 0),
+    value:
+      Math.round(items.reduce((total, item) => total + item.value, 0) * 100) /
+      100,
+  };
+}
+
+// Consolida os itens categorizados nos campos resumidos usados pelo cálculo das
+// variáveis derivadas. Só retorna os campos cujas categorias aparecem nos itens.
+export function summarizeLineItems(items: LineItemDto[]): {
+  electricEnergy?: EnergyItemDto;
+  sceeeEnergy?: EnergyItemDto;
+  compensatedEnergy?: EnergyItemDto;
+  publicLightingContrib?: number;
+} {
+  const byCategory = (category: LineItemCategory) =>
+    items.filter(item => item.category === category);
+
+  const summary: ReturnType<typeof summarizeLineItems> = {};
+
+  const electric = byCategory(LineItemCategory.ELECTRIC_ENERGY);
+  if (electric.length) {
+    summary.electricEnergy = sumItems(electric);
+  }
+
+  const sceee = byCategory(LineItemCategory.SCEEE_ENERGY);
+  if (sceee.length) {
+    summary.sceeeEnergy = sumItems(sceee);
+  }
+
+  const compensated = byCategory(LineItemCategory.COMPENSATED_ENERGY);
+  if (compensated.length) {
+    summary.compensatedEnergy = sumItems(compensated);
+  }
+
+  const lighting = byCategory(LineItemCategory.PUBLIC_LIGHTING);
+  if (lighting.length) {
+    summary.publicLightingContrib = sumItems(lighting).value;
+  }
+
+  return summary;
+}
@@ -0,0 +1,121 @@
+// Abreviações dos meses como impressas nas faturas (ex: SET/2024)
+export const MONTH_ABBREVIATIONS = [
+  'JAN',
+  'FEV',
+  'MAR',
+  'ABR',
+  'MAI',
+  'JUN',
+  'JUL',
+  'AGO',
+  'SET',
+  'OUT',
+  'NOV',
+  'DEZ',
+];
+
+// Normaliza "set/24", "SET / 2024" para "SET/2024". Retorna null se não reconhecer
+export function normalizeReferenceMonth(raw: unknown): string | null {
+  const match = String(raw ?? '')
+    .trim()
+    .toUpperCase()
+    .match(/^([A-Z]{3})\s*\/\s*(\d{2}|\d{4})$/);
+  if (!match || !MONTH_ABBREVIATIONS.includes(match[1])) {
+    return null;
+  }
+
+  const year = match[2].length === 2 ? `20${match[2]}` : match[2];
+  return `${match[1]}/${year}`;
+}
+
+// Índice cronológico (ano * 12 + mês) para ordenar e comparar meses de referência
+export function referenceMonthIndex(month: string): number {
+  const normalized = normalizeReferenceMonth(month);
+  if (!normalized) {
+    return Number.NaN;
+  }
+
+  const [abbreviation, year] = normalized.split('/');
+  return Number(year) * 12 + MONTH_ABBREVIATIONS.indexOf(abbreviation);
+}
+
+// Mês de referência (ex: OUT/2024) de uma data, em UTC
+export function formatReferenceMonth(date: Date): string {
+  return `${MONTH_ABBREVIATIONS[date.getUTCMonth()]}/${date.getUTCFullYear()}`;
+}
+
+export interface ReferencePeriod {
+  year: number;
+  month: number; // 1 a 12
+}
+
+// Ano e número do mês de "SET/2024", "set/24" ou "2024-09". Retorna null se não reconhecer
+export function parseReferenceMonth(raw: unknown): ReferencePeriod | null {
+  const iso = String(raw ?? '')
+    .trim()
+    .match(/^(\d{4})-(\d{2})$/);
+  if (iso) {
+    const month = Number(iso[2]);
+    return month >= 1 && month <= 12 ? { year: Number(iso[1]), month } : null;
+  }
+
+  const normalized = normalizeReferenceMonth(raw);
+  if (!normalized) {
+    return null;
+  }
+  const [abbreviation, year] = normalized.split('/');
+  return {
+    year: Number(year),
+    month: MONTH_ABBREVIATIONS.indexOf(abbreviation) + 1,
+  };
+}
+
+// Mês de referência de uma data, em UTC
+export function referencePeriodOfDate(date: Date): ReferencePeriod {
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1 };
+}
+
+// Mês de referência (ex: SET/2024) a partir das colunas normalizadas
+export function formatReferencePeriod(year: number, month: number): string {
+  return `${MONTH_ABBREVIATIONS[month - 1]}/${year}`;
+}
+
+// Colunas referenceYear/referenceMonthNumber gravadas junto com referenceMonth
+export function toReferencePeriodColumns(referenceMonth: string): {
+  referenceYear: number | null;
+  referenceMonthNumber: number | null;
+} {
+  const period = parseReferenceMonth(referenceMonth);
+  return {
+    referenceYear: period?.year ?? null,
+    referenceMonthNumber: period?.month ?? null,
+  };
+}
+
+// Filtro Prisma por intervalo de meses de referência (limites inclusivos)
+export function buildReferencePeriodFilter(
+  from?: ReferencePeriod | null,
+  to?: ReferencePeriod | null,
+): Record<string, any> {
+  const conditions: Record<string, any>[] = [];
+  if (from) {
+    conditions.push({
+      OR: [
+        { referenceYear: { gt: from.year } },
+        {
+          referenceYear: from.year,
+          referenceMonthNumber: { gte: from.month },
+        },
+      ],
+    });
+  }
+  if (to) {
+    conditions.push({
+      OR: [
+        { referenceYear: { lt: to.year } },
+        { referenceYear: to.year, referenceMonthNumber: { lte: to.month } },
+      ],
+    });
+  }
+  return conditions.length ? { AND: conditions } : {};
+}
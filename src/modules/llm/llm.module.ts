@@ -1,8 +1,38 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { LlmService } from './llm.service';
+import { EXTRACTION_PROVIDER } from './providers/extraction-provider.interface';
+import { createExtractionProvider } from './providers/extraction-provider.factory';
+import { CemigRuleExtractor } from './extractors/cemig-rule.extractor';
+import { OcrService } from './ocr/ocr.service';
+import { ExtractionRunService } from './runs/extraction-run.service';
+import { ExtractionCacheService } from './cache/extraction-cache.service';
+import { LlmUsageService } from './usage/llm-usage.service';
+import { LlmResilienceService } from './resilience/llm-resilience.service';
+import { RedactionService } from './redaction/redaction.service';
 
 @Module({
-  providers: [LlmService],
-  exports: [LlmService],
+  providers: [
+    LlmService,
+    CemigRuleExtractor,
+    OcrService,
+    ExtractionRunService,
+    ExtractionCacheService,
+    LlmUsageService,
+    LlmResilienceService,
+    RedactionService,
+    {
+      provide: EXTRACTION_PROVIDER,
+      inject: [ConfigService],
+      useFactory: createExtractionProvider,
+    },
+  ],
+  exports: [
+    LlmService,
+    ExtractionRunService,
+    ExtractionCacheService,
+    LlmUsageService,
+    RedactionService,
+  ],
 })
-export class LlmModule {}
\ No newline at end of file
+export class LlmModule {}
@@ -1,22 +1,113 @@
-import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { Injectable, Logger, Inject } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import OpenAI from 'openai';
-import { LlmExtractionResponseDto, ExtractBillDataDto } from './dto/llm-extraction.dto';
+import {
+  LlmExtractionResponseDto,
+  ExtractBillDataDto,
+  TextSource,
+  FieldProvenanceDto,
+  LineItemDto,
+  ConsumptionHistoryItemDto,
+  TaxBreakdownDto,
+  TaxDto,
+  ExtractionOutcome,
+  ExtractionErrorCode,
+  PageRangeDto,
+} from './dto/llm-extraction.dto';
+import {
+  EXTRACTION_PROVIDER,
+  ExtractionCompletion,
+  ExtractionMessage,
+  ExtractionProvider,
+  ExtractionRequest,
+} from './providers/extraction-provider.interface';
+import { CemigRuleExtractor } from './extractors/cemig-rule.extractor';
+import { categorizeLineItem, summarizeLineItems } from './extractors/line-items';
+import { normalizeReferenceMonth } from './extractors/reference-month';
+import { segmentBillPages } from './extractors/bill-segmenter';
+import { DistributorProfile, detectDistributor, getDistributorProfile } from './distributors/distributor-registry';
+import { OcrService } from './ocr/ocr.service';
+import { ExtractionRunRecord, ExtractionRunService } from './runs/extraction-run.service';
+import { ExtractionCacheService } from './cache/extraction-cache.service';
+import { LlmUsageService } from './usage/llm-usage.service';
+import { LlmProviderUnavailableException, LlmResilienceService } from './resilience/llm-resilience.service';
+import { EXTRACTION_SCHEMA_NAME, buildExtractionSchema, validateJsonSchema } from './schema/extraction-schema';
+import { normalizeLocaleValues, parseBrazilianDate, parseBrazilianNumber } from './schema/locale-values';
+import { ExtractionException } from './extraction.exception';
+import { RedactionService } from './redaction/redaction.service';
+import { restorePii } from './redaction/pii-redactor';
 import { extname } from 'node:path';
+import { createHash } from 'node:crypto';
 const pdfParse = require('pdf-parse');
 
+// Versão dos prompts de buildSystemPrompt/buildUserPrompt. Incrementar a cada alteração
+// para que as execuções gravadas apontem para o prompt exato que o modelo recebeu
+export const PROMPT_VERSION = 'bill-extraction-v4';
+
+// Identificação das execuções resolvidas pelo extrator por regras
+const RULE_EXTRACTOR_PROVIDER = 'rules';
+const RULE_EXTRACTOR_MODEL = 'cemig-rule-extractor';
+
+// Abaixo deste número de caracteres o PDF é tratado como escaneado (sem camada de texto)
+const MIN_NATIVE_TEXT_LENGTH = 20;
+
+// Campos que recebem confiança e trecho de origem
+const EXTRACTED_FIELDS = [
+  'customerNumber',
+  'referenceMonth',
+  'electricEnergy',
+  'sceeeEnergy',
+  'compensatedEnergy',
+  'publicLightingContrib',
+  'dueDate',
+  'totalAmount',
+  'installationNumber',
+  'distributor',
+  'tariffClass',
+  'tariffSubgroup',
+  'readingPeriod',
+  'taxes',
+] as const;
+
+// Contrato da resposta do modelo, derivado de LlmExtractionResponseDto
+const EXTRACTION_SCHEMA = buildExtractionSchema([...EXTRACTED_FIELDS]);
+
+// Campos de data da resposta, aceitos como DD/MM/AAAA e gravados como YYYY-MM-DD
+const DATE_FIELDS = ['dueDate', 'readingPeriod.startDate', 'readingPeriod.endDate'];
+// Tarifas e alíquotas têm 3 ou mais casas: nelas "12.345" é decimal, não milhar
+const DECIMAL_DOT_FIELDS = ['lineItems.unitPrice', 'taxes.icms.rate', 'taxes.pis.rate', 'taxes.cofins.rate'];
+
+// Rodadas de reparo padrão quando a resposta do modelo não respeita o contrato
+const DEFAULT_REPAIR_ATTEMPTS = 1;
+// Violações enviadas ao modelo em cada rodada de reparo
+const MAX_REPAIR_DETAILS = 20;
+
+// Confiança atribuída quando o modelo não informa a sua
+const DEFAULT_FIELD_CONFIDENCE = 0.5;
+
+// Estimativa de tokens de uma chamada para o limite de tokens por minuto,
+// acertada depois pelo consumo informado pelo provedor
+const CHARS_PER_TOKEN = 4;
+const ESTIMATED_RESPONSE_TOKENS = 1500;
+
 @Injectable()
 export class LlmService {
   private readonly logger = new Logger(LlmService.name);
-  private readonly openai: OpenAI;
+  private readonly repairAttempts: number;
 
-  constructor(private readonly configService: ConfigService) {
-    const apiKey = this.configService.get<string>('OPENAI_API_KEY');
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY não configurada nas variáveis de ambiente');
-    }
-
-    this.openai = new OpenAI({ apiKey });
+  constructor(
+    @Inject(EXTRACTION_PROVIDER) private readonly provider: ExtractionProvider,
+    private readonly cemigRuleExtractor: CemigRuleExtractor,
+    private readonly ocrService: OcrService,
+    private readonly extractionRunService: ExtractionRunService,
+    private readonly extractionCacheService: ExtractionCacheService,
+    private readonly llmUsageService: LlmUsageService,
+    private readonly llmResilienceService: LlmResilienceService,
+    private readonly redactionService: RedactionService,
+    private readonly configService: ConfigService,
+  ) {
+    this.logger.log(`Provedor de extração: ${provider.name} (modelo ${provider.model})`);
+    const repairAttempts = Number(this.configService.get<string>('LLM_REPAIR_ATTEMPTS') ?? DEFAULT_REPAIR_ATTEMPTS);
+    this.repairAttempts = Number.isNaN(repairAttempts) ? DEFAULT_REPAIR_ATTEMPTS : repairAttempts;
   }
 
 async extractBillData(data: ExtractBillDataDto): Promise<LlmExtractionResponseDto> {
@@ -26,99 +117,377 @@ async extractBillData(data: ExtractBillDataDto): Promise<LlmExtractionResponseDt
     // Validacoes basicas
     const fileExt = extname(data.fileName).toLowerCase();
     if (fileExt !== '.pdf') {
-      throw new BadRequestException('Apenas arquivos PDF são suportados.');
+      throw new ExtractionException(ExtractionErrorCode.UNSUPPORTED_FILE, 'Apenas arquivos PDF são suportados.');
     }
 
     if (!data.fileBuffer || !(data.fileBuffer instanceof Buffer)) {
-      throw new BadRequestException('Arquivo PDF inválido ou ausente.');
+      throw new ExtractionException(ExtractionErrorCode.INVALID_FILE, 'Arquivo PDF inválido ou ausente.');
     }
 
-    // Extract text from PDF
-    const extractedText = await this.extractPdfText(data.fileBuffer);
-    this.logger.log(`Texto extraído do PDF (${extractedText.length} caracteres)`);
+    // Extract text from PDF (camada nativa ou OCR)
+    const { text: extractedText, pages, firstPage, source: textSource } = await this.extractText(
+      data.fileBuffer,
+      data.pageRange,
+    );
+    this.logger.log(`Texto extraído do PDF via ${textSource} (${extractedText.length} caracteres)`);
 
     if (!extractedText || extractedText.trim().length === 0) {
-      throw new BadRequestException('Arquivo PDF não contém texto extraível.');
+      throw new ExtractionException(ExtractionErrorCode.EMPTY_DOCUMENT, 'Arquivo PDF não contém texto extraível.');
     }
+    await data.onProgress?.('text_extracted', { textSource, characters: extractedText.length, pages: pages.length });
 
-    const response = await this.openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [
-        {
-          role: 'system',
-          content: this.buildSystemPrompt()
-        },
-        {
-          role: 'user',
-          content: `${this.buildUserPrompt()}\n\nConteúdo extraído do arquivo PDF "${data.fileName}":\n\n${extractedText}`
-        }
-      ],
-      max_tokens: 1000,
-      temperature: 0.1
-    });
+    const textHash = createHash('sha256').update(extractedText).digest('hex');
 
-    const outputText = response.choices[0]?.message?.content;
-    if (!outputText) {
-      throw new BadRequestException('OpenAI não retornou conteúdo válido.');
+    // Distribuidora define o perfil de extração (rótulos no prompt e nomes dos itens)
+    const detection = detectDistributor(extractedText);
+    const profile = getDistributorProfile(detection?.code);
+    if (detection) {
+      this.logger.log(`Distribuidora detectada: ${detection.code} (${detection.signals.join(', ')})`);
+    } else {
+      this.logger.log('Distribuidora não identificada, usando perfil genérico');
     }
 
-    let extractedData: any;
-    try {
-      // Try to extract JSON from the response (in case there's extra text)
-      const jsonMatch = outputText.match(/\{[\s\S]*\}/);
-      const jsonString = jsonMatch ? jsonMatch[0] : outputText;
-      extractedData = JSON.parse(jsonString);
-    } catch (parseError) {
-      this.logger.error(`Erro ao fazer parse do JSON. Resposta original: ${outputText}`);
-      const preview = outputText.length > 300 ? `${outputText.slice(0, 300)}...` : outputText;
-      throw new BadRequestException(`Resposta do LLM nao e JSON valido: ${preview}`);
+    // Layout conhecido: usar o extrator por regras e só recorrer ao LLM como fallback
+    const ruleStartedAt = Date.now();
+    const ruleResult = profile?.ruleExtractor ? this.cemigRuleExtractor.extract(extractedText) : null;
+    if (ruleResult?.data && ruleResult.confidence === 1) {
+      this.logger.log('Dados extraídos por regras (layout CEMIG), LLM não foi chamado');
+      const evidence = Object.fromEntries(
+        Object.entries(ruleResult.evidence).map(([field, snippet]) => [field, { confidence: 1, snippet }]),
+      );
+      const ruleData = this.validateAndTransformData(ruleResult.data, profile);
+      await this.extractionRunService.record({
+        billId: data.billId,
+        promptVersion: PROMPT_VERSION,
+        provider: RULE_EXTRACTOR_PROVIDER,
+        model: RULE_EXTRACTOR_MODEL,
+        textHash,
+        textSource,
+        parsedJson: ruleResult.data,
+        latencyMs: Date.now() - ruleStartedAt,
+        costUsd: 0,
+        outcome: ExtractionOutcome.SUCCESS,
+      });
+      return {
+        ...ruleData,
+        textSource,
+        fieldProvenance: this.buildFieldProvenance(ruleData, evidence, pages, firstPage),
+      };
+    }
+    if (ruleResult) {
+      this.logger.log(
+        `Extração por regras incompleta (confiança ${ruleResult.confidence.toFixed(2)}, ` +
+        `falhas: ${ruleResult.failedChecks.join(', ')}), usando provedor ${this.provider.name}`,
+      );
+    }
+
+    // O resultado de cada etapa fica registrado na execução, inclusive em caso de erro
+    const run: ExtractionRunRecord = {
+      billId: data.billId,
+      promptVersion: PROMPT_VERSION,
+      provider: this.provider.name,
+      model: this.provider.model,
+      textHash,
+      textSource,
+      latencyMs: 0,
+      outcome: ExtractionOutcome.PROVIDER_ERROR,
+      repairAttempts: 0,
+    };
+    const startedAt = Date.now();
+
+    // Mesmo texto, mesma versão de prompt e mesmo modelo: reaproveitar a resposta anterior
+    const cacheKey = { textHash, promptVersion: PROMPT_VERSION, model: this.provider.model };
+    const useCache = !data.bypassCache && this.extractionCacheService.isEnabled();
+
+    // Dados pessoais saem do servidor apenas como marcadores (LGPD)
+    const redaction = this.redactionService.redact(extractedText);
+    if (data.billId) {
+      await this.redactionService.record(data.billId, redaction);
+    }
+    if (redaction.entries.length) {
+      this.logger.log(`Dados pessoais mascarados antes do envio: ${redaction.entries.map(e => e.placeholder).join(', ')}`);
     }
 
-    const result = this.validateAndTransformData(extractedData);
-    this.logger.log('Extração de dados concluída com sucesso');
-    return result;
+    const request: ExtractionRequest = {
+      systemPrompt: this.buildSystemPrompt(),
+      userPrompt: `${this.buildUserPrompt(profile)}\n\nConteúdo extraído do arquivo PDF "${data.fileName}":\n\n${redaction.text}`,
+      responseSchema: { name: EXTRACTION_SCHEMA_NAME, schema: EXTRACTION_SCHEMA },
+    };
+
+    try {
+      const cachedCompletion = useCache ? await this.extractionCacheService.get(cacheKey) : null;
+      if (cachedCompletion) {
+        this.logger.log(`Resposta do provedor ${this.provider.name} obtida do cache de extração`);
+      }
+      run.cached = !!cachedCompletion;
+      run.usage = cachedCompletion?.usage;
+
+      let completion = cachedCompletion || await this.completeWithProvider(request, run);
+      await data.onProgress?.('llm_called', {
+        provider: run.provider,
+        model: completion.model || run.model,
+        cached: run.cached,
+        latencyMs: Date.now() - startedAt,
+      });
+      const followUp: ExtractionMessage[] = [];
+
+      // Resposta fora do contrato: devolver os erros ao modelo por um número limitado de rodadas
+      for (;;) {
+        run.model = completion.model || run.model;
+        run.rawResponse = completion.content;
+        run.outcome = ExtractionOutcome.INVALID_JSON;
+
+        try {
+          // JSON cortado no meio: o reparo esbarraria no mesmo limite de tokens
+          if (completion.truncated) {
+            throw new ExtractionException(
+              ExtractionErrorCode.TRUNCATED_RESPONSE,
+              'Resposta do modelo cortada pelo limite de tokens (aumente <PREFIXO>_MAX_TOKENS)',
+            );
+          }
+          // A execução guarda a resposta como veio do modelo, com os marcadores
+          run.parsedJson = this.parseCompletion(completion.content);
+          const extractedData = restorePii(run.parsedJson as Record<string, any>, redaction.values);
+          run.outcome = ExtractionOutcome.VALIDATION_ERROR;
+
+          this.normalizeLocaleFields(extractedData);
+          this.assertSchema(extractedData);
+          const result = this.validateAndTransformData(extractedData, profile);
+          run.outcome = ExtractionOutcome.SUCCESS;
+
+          // Só respostas válidas vão para o cache. Com bypassCache a entrada é renovada
+          if (!run.cached && this.extractionCacheService.isEnabled()) {
+            await this.extractionCacheService.set(cacheKey, this.provider.name, completion);
+          }
+          this.logger.log('Extração de dados concluída com sucesso');
+          return {
+            ...result,
+            textSource,
+            fieldProvenance: this.buildFieldProvenance(result, extractedData.evidence, pages, firstPage),
+          };
+        } catch (error) {
+          if (!(error instanceof ExtractionException) || !error.repairable || run.repairAttempts >= this.repairAttempts) {
+            throw error;
+          }
+
+          run.repairAttempts++;
+          this.logger.warn(
+            `Resposta inválida do modelo (${error.code}), rodada de reparo ${run.repairAttempts}/${this.repairAttempts}`,
+          );
+          followUp.push(
+            { role: 'assistant', content: completion.content || '' },
+            { role: 'user', content: this.buildRepairPrompt(error) },
+          );
+          run.cached = false;
+          completion = await this.completeWithProvider({ ...request, followUp }, run);
+        }
+      }
+    } catch (error) {
+      run.errorCode = error.code in ExtractionErrorCode ? error.code : ExtractionErrorCode.PROVIDER_ERROR;
+      run.errorMessage = error.message;
+      throw error;
+    } finally {
+      run.latencyMs = Date.now() - startedAt;
+      run.costUsd = this.llmUsageService.calculateCost(run.provider, run.model, run.usage, run.cached);
+      await this.extractionRunService.record(run);
+    }
   } catch (error) {
     this.logger.error(`Erro na extração de dados: ${error.message}`);
     throw error;
   }
 }
 
+  // Intervalos de páginas de cada fatura do PDF, pela camada de texto nativa.
+  // PDFs escaneados ou ilegíveis são tratados como uma única fatura
+  async segmentDocument(fileBuffer: Buffer): Promise<PageRangeDto[]> {
+    try {
+      const pages = await this.extractPdfText(fileBuffer);
+      const segments = segmentBillPages(pages);
+      if (segments.length > 1) {
+        this.logger.log(`PDF com ${segments.length} faturas: ${segments.map(s => `${s.start}-${s.end}`).join(', ')}`);
+      }
+      return segments;
+    } catch {
+      return [];
+    }
+  }
+
+  // Falso enquanto o circuito do provedor estiver aberto
+  isProviderAvailable(): boolean {
+    return this.llmResilienceService.isAvailable();
+  }
+
+  getProviderStatus() {
+    return {
+      provider: this.provider.name,
+      model: this.provider.model,
+      circuitBreaker: this.llmResilienceService.getCircuitState(),
+      rateLimit: this.llmResilienceService.getRateLimitState(),
+    };
+  }
+
   private buildSystemPrompt(): string {
     return `You are an expert at extracting data from Brazilian electricity bills (PDFs). 
     
     IMPORTANT: You MUST respond ONLY with a valid JSON object. Do not include any explanations, comments, or additional text. 
     
-    Extract the information and return ONLY a valid JSON object with this EXACT structure:
-    {
-      "customerNumber": "string",
-      "referenceMonth": "string",
-      "electricEnergy": { "quantity": number, "value": number },
-      "sceeeEnergy": { "quantity": number, "value": number } or null,
-      "compensatedEnergy": { "quantity": number, "value": number } or null,
-      "publicLightingContrib": number or null
-    }
+    Return ONLY a JSON object that validates against this JSON Schema:
+    ${JSON.stringify(EXTRACTION_SCHEMA)}
     
-    If any field is not found or not applicable, use null for optional fields or empty string/0 for required fields.`;
+    Dates use the format YYYY-MM-DD and numbers use a dot as decimal separator, without thousands separators.
+    If an optional field is not found or not applicable, use null. Never invent values for customerNumber, referenceMonth or electricEnergy.
+    "lineItems" must contain EVERY row of the "Itens da fatura" table (fines, interest, credits, injected energy, adjustments included), with negative values for credits.
+    "taxes" comes from the "Tributos" block of the bill: calculation base in R$, rate in percent (e.g. 18 for 18%) and value in R$. "pis" is PIS/PASEP.
+    "consumptionHistory" must contain every month of the consumption history chart/table printed on the bill (usually 13 months), with the consumption in kWh and the number of billed days.
+    Include an "evidence" entry for every field you return. Copy the snippet literally from the bill text and lower the confidence when you had to guess.
+    Personal data in the bill text is masked with placeholders such as [CPF_1] or [CUSTOMER_NUMBER_1]. When a field you return holds masked data, copy the placeholder literally.`;
   }
 
-  private buildUserPrompt(): string {
-    return `Analise esta fatura de energia elétrica brasileira e extraia os seguintes dados:
+  private buildRepairPrompt(error: ExtractionException): string {
+    const details = error.details.slice(0, MAX_REPAIR_DETAILS).map(detail => `- ${detail}`);
+    return [
+      `A resposta anterior foi rejeitada (${error.code}): ${error.message}`,
+      ...details,
+      'Corrija os problemas e responda novamente APENAS com o objeto JSON completo, seguindo o schema.',
+    ].join('\n');
+  }
+
+  private buildUserPrompt(profile?: DistributorProfile): string {
+    const prompt = `Analise esta fatura de energia elétrica brasileira e extraia os seguintes dados:
 
 1. Número do Cliente (Customer Number)
 2. Mês de referência (Reference Month) - formato MMM/AAAA
-3. Energia Elétrica (Electric Energy) - quantidade em kWh e valor em R$
-4. Energia SCEEE s/ICMS - quantidade em kWh e valor em R$ (se existir)
-5. Energia compensada GD I - quantidade em kWh e valor em R$ (se existir)
-6. Contribuição de Iluminação Pública - valor em R$ (se existir)
+3. Energia Elétrica (Electric Energy) - quantidade em kWh e valor em R$ (consumo faturado; some as parcelas TUSD e TE quando vierem separadas)
+4. Energia SCEEE s/ICMS - quantidade em kWh e valor em R$ (se existir; exclusivo da CEMIG)
+5. Energia compensada (GD I ou energia injetada compensada) - quantidade em kWh e valor em R$ (se existir)
+6. Contribuição de Iluminação Pública (CIP/COSIP) - valor em R$ (se existir)
+7. Todas as linhas da tabela "Itens da fatura" - descrição, unidade, quantidade, preço unitário e valor
+8. Dados do cabeçalho - vencimento, valor total a pagar, número da instalação (UC), distribuidora, classe e subgrupo tarifário e período de leitura (datas anterior e atual)
+9. Histórico de consumo - mês, consumo em kWh e dias faturados de cada mês impresso no gráfico/tabela de histórico
+10. Tributos - base de cálculo, alíquota (%) e valor de ICMS, PIS/PASEP e COFINS
 
 RESPONDA APENAS COM O JSON. NÃO INCLUA EXPLICAÇÕES OU TEXTO ADICIONAL.`;
+
+    if (!profile) {
+      return prompt;
+    }
+
+    // Rótulos do layout da distribuidora detectada
+    const { labels } = profile;
+    return `${prompt}
+
+Layout da distribuidora ${profile.name}:
+- Número do cliente: campo "${labels.customerNumber}"
+- Número da instalação: campo "${labels.installationNumber}"
+- Mês de referência: campo "${labels.referenceMonth}"
+- Itens da fatura: tabela "${labels.lineItems}"`;
   }
 
-  private validateAndTransformData(data: any): LlmExtractionResponseDto {
+  // =========================
+  // CHAMADA AO PROVEDOR E CONTRATO DA RESPOSTA
+  // =========================
+
+  // Timeout, novas tentativas, circuit breaker e limite de taxa ficam no LlmResilienceService.
+  // Os tokens de todas as rodadas (inclusive as de reparo) são somados na execução
+  private async completeWithProvider(request: ExtractionRequest, run: ExtractionRunRecord): Promise<ExtractionCompletion> {
+    run.outcome = ExtractionOutcome.PROVIDER_ERROR;
+
+    const estimatedTokens = this.estimateTokens(request);
+    let completion: ExtractionCompletion;
+    try {
+      completion = await this.llmResilienceService.execute(
+        signal => this.provider.complete({ ...request, signal }),
+        this.provider.timeoutMs,
+        estimatedTokens,
+      );
+    } catch (error) {
+      if (error instanceof LlmProviderUnavailableException) {
+        throw error;
+      }
+      // 4xx (429 já tratado como transitório) se repetiria em qualquer tentativa
+      const status = Number(error?.status);
+      throw new ExtractionException(
+        status >= 400 && status < 500 ? ExtractionErrorCode.PROVIDER_REJECTED : ExtractionErrorCode.PROVIDER_ERROR,
+        `Erro do provedor ${this.provider.name}: ${error.message}`,
+      );
+    }
+
+    if (completion.usage) {
+      this.llmResilienceService.recordTokenUsage(estimatedTokens, completion.usage.totalTokens);
+      run.usage = {
+        promptTokens: (run.usage?.promptTokens || 0) + completion.usage.promptTokens,
+        completionTokens: (run.usage?.completionTokens || 0) + completion.usage.completionTokens,
+        totalTokens: (run.usage?.totalTokens || 0) + completion.usage.totalTokens,
+      };
+    }
+    return completion;
+  }
+
+  private estimateTokens(request: ExtractionRequest): number {
+    const characters = [request.systemPrompt, request.userPrompt, ...(request.followUp || []).map(m => m.content)]
+      .reduce((total, text) => total + (text?.length || 0), 0);
+    return Math.ceil(characters / CHARS_PER_TOKEN) + ESTIMATED_RESPONSE_TOKENS;
+  }
+
+  // A resposta precisa ser exatamente um objeto JSON; apenas cercas de markdown são removidas
+  private parseCompletion(content: string): any {
+    const text = (content || '').trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/i, '$1');
+    if (!text) {
+      throw new ExtractionException(
+        ExtractionErrorCode.EMPTY_RESPONSE,
+        `Provedor ${this.provider.name} não retornou conteúdo.`,
+      );
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (parseError) {
+      this.logger.error(`Erro ao fazer parse do JSON. Resposta original: ${text}`);
+      const preview = text.length > 300 ? `${text.slice(0, 300)}...` : text;
+      throw new ExtractionException(
+        ExtractionErrorCode.INVALID_JSON,
+        `Resposta do LLM não é JSON válido: ${preview}`,
+        [parseError.message],
+      );
+    }
+
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new ExtractionException(ExtractionErrorCode.INVALID_JSON, 'Resposta do LLM não é um objeto JSON.');
+    }
+    return parsed;
+  }
+
+  // Números e datas no formato brasileiro (ex: "R$ 1.234,56", "12,30-", "05/10/2024")
+  // são convertidos antes da validação do schema, qualquer que seja o provedor.
+  // Valores não reconhecidos rejeitam a resposta em vez de virarem 0
+  private normalizeLocaleFields(data: Record<string, unknown>): void {
+    const errors = normalizeLocaleValues(EXTRACTION_SCHEMA, data, DATE_FIELDS, DECIMAL_DOT_FIELDS);
+    if (errors.length) {
+      throw new ExtractionException(
+        ExtractionErrorCode.UNPARSEABLE_FIELD,
+        `Resposta do LLM com número ou data em formato não reconhecido (${errors.length} campo(s))`,
+        errors,
+      );
+    }
+  }
+
+  private assertSchema(data: unknown): void {
+    const violations = validateJsonSchema(EXTRACTION_SCHEMA, data);
+    if (violations.length) {
+      throw new ExtractionException(
+        ExtractionErrorCode.SCHEMA_VIOLATION,
+        `Resposta do LLM fora do schema de extração (${violations.length} erro(s))`,
+        violations,
+      );
+    }
+  }
+
+  private validateAndTransformData(data: any, profile?: DistributorProfile): LlmExtractionResponseDto {
     try {
       const transformed: LlmExtractionResponseDto = {
         customerNumber: String(data.customerNumber || '').trim(),
-        referenceMonth: String(data.referenceMonth || '').trim().toUpperCase(),
+        referenceMonth: normalizeReferenceMonth(data.referenceMonth) ?? String(data.referenceMonth || '').trim().toUpperCase(),
         electricEnergy: {
           quantity: Number(data.electricEnergy?.quantity || 0),
           value: Number(data.electricEnergy?.value || 0),
@@ -141,6 +510,50 @@ RESPONDA APENAS COM O JSON. NÃO INCLUA EXPLICAÇÕES OU TEXTO ADICIONAL.`;
             : null,
       };
 
+      // Dados do cabeçalho (opcionais)
+      const header: Partial<LlmExtractionResponseDto> = {
+        dueDate: this.toIsoDate(data.dueDate),
+        totalAmount: this.toOptionalNumber(data.totalAmount),
+        installationNumber: this.toOptionalString(data.installationNumber),
+        distributor: this.toOptionalString(data.distributor)?.toUpperCase() ?? profile?.name,
+        distributorCode: profile?.code,
+        tariffClass: this.toOptionalString(data.tariffClass),
+        tariffSubgroup: this.toOptionalString(data.tariffSubgroup)?.toUpperCase(),
+      };
+      const readingStart = this.toIsoDate(data.readingPeriod?.startDate);
+      const readingEnd = this.toIsoDate(data.readingPeriod?.endDate);
+      if (readingStart && readingEnd) {
+        header.readingPeriod = { startDate: readingStart, endDate: readingEnd };
+      }
+      for (const [key, value] of Object.entries(header)) {
+        if (value !== undefined) {
+          transformed[key] = value;
+        }
+      }
+
+      // Com os itens da fatura disponíveis, os campos resumidos passam a ser
+      // calculados a partir das categorias dos itens
+      const lineItems = Array.isArray(data.lineItems)
+        ? data.lineItems.map(item => this.transformLineItem(item, profile)).filter(Boolean)
+        : [];
+      if (lineItems.length) {
+        Object.assign(transformed, summarizeLineItems(lineItems));
+        transformed.lineItems = lineItems;
+      }
+
+      const taxes = this.transformTaxes(data.taxes);
+      if (taxes) {
+        transformed.taxes = taxes;
+      }
+
+      // Histórico de consumo: meses ilegíveis são descartados em vez de invalidar a fatura
+      const consumptionHistory = Array.isArray(data.consumptionHistory)
+        ? data.consumptionHistory.map(item => this.transformHistoryItem(item)).filter(Boolean)
+        : [];
+      if (consumptionHistory.length) {
+        transformed.consumptionHistory = consumptionHistory;
+      }
+
       if (!transformed.customerNumber) {
         throw new Error('Número do cliente não encontrado');
       }
@@ -155,20 +568,172 @@ RESPONDA APENAS COM O JSON. NÃO INCLUA EXPLICAÇÕES OU TEXTO ADICIONAL.`;
 
       return transformed;
     } catch (error) {
-      throw new BadRequestException(`Dados extraídos inválidos: ${error.message}`);
+      throw new ExtractionException(
+        ExtractionErrorCode.MISSING_REQUIRED_FIELD,
+        `Dados extraídos inválidos: ${error.message}`,
+      );
+    }
+  }
+
+  // Itens categorizados pelo nome no layout da distribuidora, no modelo comum de categorias
+  private transformLineItem(item: any, profile?: DistributorProfile): LineItemDto | null {
+    const description = String(item?.description || '').trim();
+    if (!description) {
+      return null;
+    }
+
+    return {
+      description,
+      unit: this.toOptionalString(item.unit),
+      quantity: this.toOptionalNumber(item.quantity),
+      unitPrice: this.toOptionalNumber(item.unitPrice, true),
+      value: Number(item.value || 0),
+      category: categorizeLineItem(description, profile?.itemRules),
+    };
+  }
+
+  // Tributos com base, alíquota ou valor ilegíveis são descartados
+  private transformTaxes(taxes: any): TaxBreakdownDto | null {
+    const breakdown: TaxBreakdownDto = {};
+    for (const tax of ['icms', 'pis', 'cofins'] as const) {
+      const values = [
+        this.toOptionalNumber(taxes?.[tax]?.base),
+        this.toOptionalNumber(taxes?.[tax]?.rate, true),
+        this.toOptionalNumber(taxes?.[tax]?.value),
+      ];
+      if (values.every(value => value !== undefined && !Number.isNaN(value))) {
+        const [base, rate, value] = values;
+        breakdown[tax] = { base, rate, value } as TaxDto;
+      }
     }
+    return Object.keys(breakdown).length ? breakdown : null;
+  }
+
+  private transformHistoryItem(item: any): ConsumptionHistoryItemDto | null {
+    const month = normalizeReferenceMonth(item?.month);
+    const consumption = this.toOptionalNumber(item?.consumption);
+    if (!month || consumption === undefined || Number.isNaN(consumption) || consumption < 0) {
+      return null;
+    }
+
+    const days = this.toOptionalNumber(item.days);
+    return {
+      month,
+      consumption,
+      ...(days !== undefined && !Number.isNaN(days) && { days: Math.round(days) }),
+    };
+  }
+
+  private toOptionalNumber(value: unknown, decimalDot = false): number | undefined {
+    return value === null || value === undefined || value === '' ? undefined : parseBrazilianNumber(value, decimalDot) ?? Number.NaN;
+  }
+
+  private toOptionalString(value: unknown): string | undefined {
+    const text = value === null || value === undefined ? '' : String(value).trim();
+    return text || undefined;
+  }
+
+  // Aceita YYYY-MM-DD ou DD/MM/YYYY e normaliza para YYYY-MM-DD
+  private toIsoDate(value: unknown): string | undefined {
+    return parseBrazilianDate(value) ?? undefined;
+  }
+
+  // =========================
+  // CONFIANÇA E ORIGEM DOS CAMPOS
+  // =========================
+
+  private buildFieldProvenance(
+    data: LlmExtractionResponseDto,
+    evidence: Record<string, { confidence?: unknown; snippet?: unknown }> | undefined,
+    pages: string[],
+    firstPage = 1,
+  ): Record<string, FieldProvenanceDto> {
+    const provenance: Record<string, FieldProvenanceDto> = {};
+
+    for (const field of EXTRACTED_FIELDS) {
+      if (data[field] === null || data[field] === undefined) {
+        continue;
+      }
+
+      const fieldEvidence = evidence?.[field] || {};
+      const snippet = typeof fieldEvidence.snippet === 'string' ? fieldEvidence.snippet.trim() : '';
+      const located = snippet ? this.locateSnippet(pages, snippet) : null;
+      // Páginas numeradas no PDF inteiro, mesmo quando só um trecho foi extraído
+      const page = located ? located + firstPage - 1 : null;
+
+      const reported = Number(fieldEvidence.confidence);
+      let confidence = Number.isNaN(reported)
+        ? DEFAULT_FIELD_CONFIDENCE
+        : Math.min(Math.max(reported, 0), 1);
+
+      // Trecho que não aparece no texto indica que o valor pode ter sido inventado
+      if (!page) {
+        confidence = confidence / 2;
+      }
+
+      provenance[field] = {
+        confidence: Math.round(confidence * 100) / 100,
+        snippet: snippet || undefined,
+        page: page || undefined,
+      };
+    }
+
+    return provenance;
+  }
+
+  private locateSnippet(pages: string[], snippet: string): number | null {
+    const normalize = (value: string) => value.replace(/\s+/g, ' ').trim().toLowerCase();
+    const target = normalize(snippet);
+    const index = pages.findIndex(page => normalize(page).includes(target));
+    return index >= 0 ? index + 1 : null;
   }
 
   // =========================  // PDF PROCESSING
   // =========================
 
-  private async extractPdfText(buffer: Buffer): Promise<string> {
+  private async extractText(
+    buffer: Buffer,
+    pageRange?: PageRangeDto,
+  ): Promise<{ text: string; pages: string[]; firstPage: number; source: TextSource }> {
+    const firstPage = pageRange?.start ?? 1;
+    const selectPages = (pages: string[]) => (pageRange ? pages.slice(pageRange.start - 1, pageRange.end) : pages);
+
+    const nativePages = selectPages(await this.extractPdfText(buffer));
+    const nativeText = nativePages.join('\n\n');
+    if (nativeText.trim().length >= MIN_NATIVE_TEXT_LENGTH || !this.ocrService.isEnabled()) {
+      return { text: nativeText, pages: nativePages, firstPage, source: TextSource.NATIVE };
+    }
+
+    this.logger.log('PDF sem camada de texto, aplicando OCR');
+    const ocrPages = selectPages(await this.ocrService.recognizePdf(buffer));
+    return { text: ocrPages.join('\n\n'), pages: ocrPages, firstPage, source: TextSource.OCR };
+  }
+
+  // Retorna o texto de cada página, na ordem do documento
+  private async extractPdfText(buffer: Buffer): Promise<string[]> {
+    const pages: string[] = [];
     try {
-      const pdfData = await pdfParse(buffer);
-      return pdfData.text || '';
+      await pdfParse(buffer, {
+        // Mesmo algoritmo do render padrão do pdf-parse, guardando o texto por página
+        pagerender: async (pageData: any) => {
+          const textContent = await pageData.getTextContent({
+            normalizeWhitespace: false,
+            disableCombineTextItems: false,
+          });
+          let lastY: number;
+          let text = '';
+          for (const item of textContent.items) {
+            text += !lastY || lastY === item.transform[5] ? item.str : `\n${item.str}`;
+            lastY = item.transform[5];
+          }
+          pages.push(text);
+          return text;
+        },
+      });
+      return pages;
     } catch (error) {
       this.logger.error(`Erro na extração de texto PDF: ${error.message}`);
-      throw new BadRequestException('Não foi possível extrair texto do arquivo PDF.');
+      throw new ExtractionException(ExtractionErrorCode.PDF_READ_ERROR, 'Não foi possível extrair texto do arquivo PDF.');
     }
   }
 
@@ -0,0 +1,89 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createWorker } from 'tesseract.js';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+const Pdf2pic = require('pdf2pic');
+
+@Injectable()
+export class OcrService {
+  private readonly logger = new Logger(OcrService.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  isEnabled(): boolean {
+    return this.configService.get<string>('OCR_ENABLED') !== 'false';
+  }
+
+  // Rasteriza as páginas do PDF (pdf2pic/GraphicsMagick) e aplica OCR local (tesseract.js).
+  // Retorna o texto de cada página, na ordem do documento.
+  async recognizePdf(buffer: Buffer): Promise<string[]> {
+    const startTime = Date.now();
+    const workDir = await mkdtemp(join(tmpdir(), 'lumi-ocr-'));
+
+    try {
+      // pdf2pic trabalha apenas com caminhos de arquivo
+      const pdfPath = join(workDir, 'input.pdf');
+      await writeFile(pdfPath, buffer);
+
+      const converter = new Pdf2pic({
+        density: Number(this.configService.get<string>('OCR_DENSITY')) || 300,
+        savename: 'page',
+        savedir: workDir,
+        format: 'png',
+        size: '2480x3508', // A4 em 300 dpi
+      });
+
+      const pages: { path: string; page: number }[] =
+        await converter.convertBulk(pdfPath, -1);
+      if (!pages.length) {
+        throw new BadRequestException(
+          'Não foi possível rasterizar as páginas do PDF para OCR.',
+        );
+      }
+
+      // OCR_LANG_PATH permite usar os dados de idioma locais em ambientes sem internet
+      const workerOptions: { langPath?: string; cachePath?: string } = {};
+      const langPath = this.configService.get<string>('OCR_LANG_PATH');
+      const cachePath = this.configService.get<string>('OCR_CACHE_PATH');
+      if (langPath) {
+        workerOptions.langPath = langPath;
+      }
+      if (cachePath) {
+        workerOptions.cachePath = cachePath;
+      }
+
+      const worker = await createWorker(
+        this.configService.get<string>('OCR_LANGUAGE') || 'por',
+        undefined,
+        workerOptions,
+      );
+
+      try {
+        const texts: string[] = [];
+        for (const page of [...pages].sort((a, b) => a.page - b.page)) {
+          const { data } = await worker.recognize(page.path);
+          texts.push(data.text);
+        }
+
+        this.logger.log(
+          `OCR concluído: ${pages.length} página(s) em ${Date.now() - startTime}ms`,
+        );
+        return texts;
+      } finally {
+        await worker.terminate();
+      }
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      this.logger.error(`Erro no OCR do PDF: ${error.message}`);
+      throw new BadRequestException(
+        'Não foi possível aplicar OCR no arquivo PDF.',
+      );
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  }
+}
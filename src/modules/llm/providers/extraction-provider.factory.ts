@@ -0,0 +1,130 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  ExtractionProvider,
+  ExtractionProviderSettings,
+} from './extraction-provider.interface';
+import { OpenAiExtractionProvider } from './openai.provider';
+import { LocalHttpExtractionProvider } from './local-http.provider';
+import { OfflineExtractionProvider } from './offline.provider';
+import { RecordedExtractionProvider, RecordingMode } from './recorded.provider';
+
+// Lê MODEL, TEMPERATURE, TIMEOUT_MS, MAX_TOKENS e STRUCTURED_OUTPUT com o prefixo do provedor
+function readSettings(
+  configService: ConfigService,
+  prefix: string,
+  defaults: ExtractionProviderSettings,
+): ExtractionProviderSettings {
+  const number = (key: string, fallback: number) => {
+    const raw = configService.get<string>(`${prefix}_${key}`);
+    const parsed = Number(raw);
+    return raw !== undefined && raw !== '' && !Number.isNaN(parsed)
+      ? parsed
+      : fallback;
+  };
+
+  return {
+    model: configService.get<string>(`${prefix}_MODEL`) || defaults.model,
+    temperature: number('TEMPERATURE', defaults.temperature),
+    timeoutMs: number('TIMEOUT_MS', defaults.timeoutMs),
+    maxTokens: number('MAX_TOKENS', defaults.maxTokens),
+    structuredOutput:
+      (configService.get<string>(`${prefix}_STRUCTURED_OUTPUT`) ??
+        String(defaults.structuredOutput)) === 'true',
+  };
+}
+
+export function createExtractionProvider(
+  configService: ConfigService,
+): ExtractionProvider {
+  return buildProvider(
+    (configService.get<string>('LLM_PROVIDER') || 'openai').toLowerCase(),
+    configService,
+  );
+}
+
+function buildProvider(
+  providerName: string,
+  configService: ConfigService,
+): ExtractionProvider {
+  switch (providerName) {
+    case 'openai': {
+      const apiKey = configService.get<string>('OPENAI_API_KEY');
+      if (!apiKey) {
+        throw new Error(
+          'OPENAI_API_KEY não configurada nas variáveis de ambiente',
+        );
+      }
+      return new OpenAiExtractionProvider(
+        apiKey,
+        readSettings(configService, 'OPENAI', {
+          model: 'gpt-4o',
+          temperature: 0.1,
+          timeoutMs: 60000,
+          maxTokens: 4000,
+          structuredOutput: true,
+        }),
+      );
+    }
+
+    case 'local': {
+      const baseUrl = configService.get<string>('LOCAL_LLM_BASE_URL');
+      if (!baseUrl) {
+        throw new Error(
+          'LOCAL_LLM_BASE_URL não configurada para o provedor local',
+        );
+      }
+      return new LocalHttpExtractionProvider(
+        baseUrl,
+        readSettings(configService, 'LOCAL_LLM', {
+          model: 'llama3.1',
+          temperature: 0,
+          timeoutMs: 120000,
+          maxTokens: 4000,
+          // Nem todo servidor local suporta json_schema
+          structuredOutput: false,
+        }),
+        configService.get<string>('LOCAL_LLM_API_KEY'),
+      );
+    }
+
+    case 'offline':
+      return new OfflineExtractionProvider(
+        configService.get<string>('OFFLINE_LLM_FIXTURE_PATH'),
+      );
+
+    case 'recorded': {
+      const recordingsDir = configService.get<string>('RECORDED_LLM_DIR');
+      if (!recordingsDir) {
+        throw new Error(
+          'RECORDED_LLM_DIR não configurada para o provedor recorded',
+        );
+      }
+      const mode = (configService.get<string>('RECORDED_LLM_MODE') ||
+        'replay') as RecordingMode;
+      if (mode !== 'replay' && mode !== 'record') {
+        throw new Error(
+          `RECORDED_LLM_MODE inválido: "${mode}". Use replay ou record`,
+        );
+      }
+      // Só o modo record chama o provedor de origem (e exige a configuração dele)
+      const sourceName = (
+        configService.get<string>('RECORDED_LLM_SOURCE') || 'openai'
+      ).toLowerCase();
+      if (sourceName === 'recorded') {
+        throw new Error('RECORDED_LLM_SOURCE não pode ser recorded');
+      }
+      return new RecordedExtractionProvider(
+        recordingsDir,
+        mode,
+        mode === 'record'
+          ? buildProvider(sourceName, configService)
+          : undefined,
+      );
+    }
+
+    default:
+      throw new Error(
+        `LLM_PROVIDER inválido: "${providerName}". Use openai, local, offline ou recorded`,
+      );
+  }
+}
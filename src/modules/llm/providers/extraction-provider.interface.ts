@@ -0,0 +1,49 @@
+export const EXTRACTION_PROVIDER = 'EXTRACTION_PROVIDER';
+
+import { JsonSchema } from '../schema/extraction-schema';
+
+export type ExtractionProviderName =
+  'openai' | 'local' | 'offline' | 'recorded';
+
+// Configurações específicas de cada provedor (modelo, temperatura, timeout)
+export interface ExtractionProviderSettings {
+  model: string;
+  temperature: number;
+  timeoutMs: number;
+  maxTokens: number;
+  structuredOutput: boolean; // Envia o JSON Schema como response_format (structured outputs)
+}
+
+export interface ExtractionMessage {
+  role: 'assistant' | 'user';
+  content: string;
+}
+
+export interface ExtractionRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  responseSchema?: { name: string; schema: JsonSchema }; // Contrato da resposta
+  followUp?: ExtractionMessage[]; // Rodadas de reparo: resposta anterior e erros encontrados
+  signal?: AbortSignal; // Cancelamento da chamada quando o timeout por tentativa estoura
+}
+
+export interface ExtractionUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ExtractionCompletion {
+  content: string; // Texto bruto retornado pelo modelo
+  model: string;
+  usage?: ExtractionUsage;
+  truncated?: boolean; // Resposta cortada pelo limite de tokens (finish_reason 'length')
+}
+
+export interface ExtractionProvider {
+  readonly name: ExtractionProviderName;
+  readonly model: string;
+  readonly timeoutMs?: number; // Timeout de cada tentativa
+
+  complete(request: ExtractionRequest): Promise<ExtractionCompletion>;
+}
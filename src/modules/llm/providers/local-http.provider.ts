@@ -0,0 +1,20 @@
+import {
+  ExtractionProviderName,
+  ExtractionProviderSettings,
+} from './extraction-provider.interface';
+import { OpenAiExtractionProvider } from './openai.provider';
+
+// Endpoints locais compatíveis com a API da OpenAI (Ollama, llama.cpp, vLLM...)
+// Ex: Ollama expõe http://localhost:11434/v1
+export class LocalHttpExtractionProvider extends OpenAiExtractionProvider {
+  readonly name: ExtractionProviderName = 'local';
+
+  constructor(
+    baseUrl: string,
+    settings: ExtractionProviderSettings,
+    apiKey?: string,
+  ) {
+    // Servidores locais geralmente ignoram a chave, mas o SDK exige um valor
+    super(apiKey || 'local', settings, baseUrl);
+  }
+}
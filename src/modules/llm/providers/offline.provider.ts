@@ -0,0 +1,37 @@
+import { readFile } from 'node:fs/promises';
+import {
+  ExtractionCompletion,
+  ExtractionProvider,
+  ExtractionProviderName,
+} from './extraction-provider.interface';
+
+// Resposta padrão usada quando nenhum arquivo de fixture é configurado
+const DEFAULT_OFFLINE_RESPONSE = {
+  customerNumber: '7202210726',
+  referenceMonth: 'SET/2024',
+  electricEnergy: { quantity: 50, value: 45.67 },
+  sceeeEnergy: { quantity: 476, value: 392.5 },
+  compensatedEnergy: { quantity: 526, value: 438.17 },
+  publicLightingContrib: 23.45,
+};
+
+// Provedor determinístico, sem chamadas de rede. Útil para desenvolvimento,
+// testes e ambientes sem acesso a um LLM.
+export class OfflineExtractionProvider implements ExtractionProvider {
+  readonly name: ExtractionProviderName = 'offline';
+  readonly model = 'offline';
+
+  constructor(private readonly fixturePath?: string) {}
+
+  async complete(): Promise<ExtractionCompletion> {
+    const content = this.fixturePath
+      ? await readFile(this.fixturePath, 'utf-8')
+      : JSON.stringify(DEFAULT_OFFLINE_RESPONSE);
+
+    return {
+      content,
+      model: this.model,
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    };
+  }
+}
@@ -0,0 +1,71 @@
+import OpenAI from 'openai';
+import {
+  ExtractionCompletion,
+  ExtractionProvider,
+  ExtractionProviderName,
+  ExtractionProviderSettings,
+  ExtractionRequest,
+} from './extraction-provider.interface';
+
+export class OpenAiExtractionProvider implements ExtractionProvider {
+  readonly name: ExtractionProviderName = 'openai';
+  protected readonly client: OpenAI;
+
+  constructor(
+    apiKey: string,
+    protected readonly settings: ExtractionProviderSettings,
+    baseURL?: string,
+  ) {
+    // Novas tentativas ficam a cargo do LlmResilienceService
+    this.client = new OpenAI({
+      apiKey,
+      baseURL,
+      timeout: settings.timeoutMs,
+      maxRetries: 0,
+    });
+  }
+
+  get model(): string {
+    return this.settings.model;
+  }
+
+  get timeoutMs(): number {
+    return this.settings.timeoutMs;
+  }
+
+  async complete(request: ExtractionRequest): Promise<ExtractionCompletion> {
+    const response = await this.client.chat.completions.create(
+      {
+        model: this.settings.model,
+        messages: [
+          { role: 'system', content: request.systemPrompt },
+          { role: 'user', content: request.userPrompt },
+          ...(request.followUp || []),
+        ],
+        max_tokens: this.settings.maxTokens,
+        temperature: this.settings.temperature,
+        response_format:
+          this.settings.structuredOutput && request.responseSchema
+            ? {
+                type: 'json_schema',
+                json_schema: { ...request.responseSchema, strict: true },
+              }
+            : undefined,
+      },
+      { signal: request.signal },
+    );
+
+    return {
+      content: response.choices[0]?.message?.content || '',
+      model: response.model || this.settings.model,
+      usage: response.usage
+        ? {
+            promptTokens: response.usage.prompt_tokens,
+            completionTokens: response.usage.completion_tokens,
+            totalTokens: response.usage.total_tokens,
+          }
+        : undefined,
+      truncated: response.choices[0]?.finish_reason === 'length',
+    };
+  }
+}
@@ -0,0 +1,82 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  ExtractionCompletion,
+  ExtractionProvider,
+  ExtractionProviderName,
+  ExtractionRequest,
+} from './extraction-provider.interface';
+
+export type RecordingMode = 'replay' | 'record';
+
+interface RecordedResponse {
+  source: string; // Provedor que gerou a resposta
+  recordedAt: string;
+  completion: ExtractionCompletion;
+}
+
+// Reproduz respostas gravadas de outro provedor, sem rede. Cada resposta fica em
+// <dir>/<hash da requisição>.json: mudar o prompt ou o texto do PDF exige nova
+// gravação. No modo record a chamada vai para o provedor de origem e é gravada
+export class RecordedExtractionProvider implements ExtractionProvider {
+  readonly name: ExtractionProviderName = 'recorded';
+
+  constructor(
+    private readonly recordingsDir: string,
+    private readonly mode: RecordingMode = 'replay',
+    private readonly source?: ExtractionProvider,
+  ) {
+    if (mode === 'record' && !source) {
+      throw new Error('Modo record exige um provedor de origem');
+    }
+  }
+
+  get model(): string {
+    return this.source?.model ?? 'recorded';
+  }
+
+  get timeoutMs(): number | undefined {
+    return this.source?.timeoutMs;
+  }
+
+  async complete(request: ExtractionRequest): Promise<ExtractionCompletion> {
+    const key = RecordedExtractionProvider.requestKey(request);
+    const path = join(this.recordingsDir, `${key}.json`);
+
+    if (this.mode === 'record') {
+      const completion = await this.source.complete(request);
+      const recorded: RecordedResponse = {
+        source: this.source.name,
+        recordedAt: new Date().toISOString(),
+        completion,
+      };
+      await mkdir(this.recordingsDir, { recursive: true });
+      await writeFile(path, JSON.stringify(recorded, null, 2));
+      return completion;
+    }
+
+    let raw: string;
+    try {
+      raw = await readFile(path, 'utf-8');
+    } catch {
+      throw new Error(
+        `Nenhuma resposta gravada para a requisição ${key} em ${this.recordingsDir}. Grave com RECORDED_LLM_MODE=record`,
+      );
+    }
+    return (JSON.parse(raw) as RecordedResponse).completion;
+  }
+
+  // Só o conteúdo enviado ao modelo compõe a chave (o signal de cada tentativa não)
+  static requestKey(request: ExtractionRequest): string {
+    return createHash('sha256')
+      .update(
+        JSON.stringify([
+          request.systemPrompt,
+          request.userPrompt,
+          request.followUp || [],
+        ]),
+      )
+      .digest('hex');
+  }
+}
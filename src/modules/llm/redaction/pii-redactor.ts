@@ -0,0 +1,181 @@
+import { createHmac } from 'node:crypto';
+import { PiiType } from '../dto/llm-extraction.dto';
+
+// Um detector encontra valores de um tipo de dado pessoal no texto. O valor é
+// o grupo de captura indicado (ou o trecho inteiro) e todas as ocorrências
+// dele no texto são mascaradas, mesmo fora do rótulo que o identificou
+interface PiiDetector {
+  type: PiiType;
+  pattern: RegExp;
+  group?: number;
+}
+
+// Início de uma linha de endereço (logradouro)
+const STREET_TYPES =
+  'RUA|R\\.|AVENIDA|AV\\.?|ALAMEDA|AL\\.|TRAVESSA|TV\\.|ESTRADA|RODOVIA|PRA[ÇC]A';
+
+// Ordem importa: códigos de barras antes de CNPJ/CPF e números de cliente,
+// CNPJ antes de CPF
+const DETECTORS: PiiDetector[] = [
+  // Linha digitável (boleto bancário e arrecadação) e código de barras numérico
+  {
+    type: PiiType.BARCODE,
+    pattern:
+      /\b\d{5}\.\d{5}\s+\d{5}\.\d{6}\s+\d{5}\.\d{6}\s+\d\s+\d{14}\b|\b(?:\d{11}[-\s]?\d\s+){3}\d{11}[-\s]?\d\b|\b\d{44,48}\b/g,
+  },
+  {
+    type: PiiType.CNPJ,
+    pattern: /\b\d{2}\.\d{3}\.\d{3}\/\d{4}-\d{2}\b/g,
+  },
+  {
+    type: PiiType.CPF,
+    pattern: /\b\d{3}\.\d{3}\.\d{3}-\d{2}\b|(?<=\bCPF\s*:?\s*)\d{11}\b/gi,
+  },
+  {
+    type: PiiType.EMAIL,
+    pattern: /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g,
+  },
+  {
+    type: PiiType.PHONE,
+    pattern: /\(?\b\d{2}\)?\s?9?\d{4}-\d{4}\b/g,
+  },
+  {
+    type: PiiType.CEP,
+    pattern: /\b\d{5}-\d{3}\b/g,
+  },
+  {
+    type: PiiType.ADDRESS,
+    pattern: new RegExp(`\\b(?:${STREET_TYPES})\\s[^\\n]{3,80}`, 'gi'),
+  },
+  {
+    type: PiiType.NAME,
+    pattern: /\b(?:NOME|TITULAR)\s*:\s*([^\n\d]{3,60})/gi,
+    group: 1,
+  },
+  // Cabeçalho da CEMIG: o nome do titular vem sem rótulo, em maiúsculas, na
+  // linha logo acima do endereço (ex: "JOAO PEREIRA\nRUA DOS INCONFIDENTES 1234")
+  {
+    type: PiiType.NAME,
+    pattern: new RegExp(
+      `^\\s*([A-ZÀ-Ý][A-ZÀ-Ý'.]*(?: [A-ZÀ-Ý][A-ZÀ-Ý'.]*){1,7})\\s*\\n(?=\\s*(?:${STREET_TYPES})\\s)`,
+      'gm',
+    ),
+    group: 1,
+  },
+  // Número do cliente e da instalação nos cabeçalhos das distribuidoras
+  // (ex: "Nº DO CLIENTE Nº DA INSTALAÇÃO\n7202210726 3001116735")
+  {
+    type: PiiType.CUSTOMER_NUMBER,
+    pattern:
+      /(?:N[ºo°]\s*DO\s*CLIENTE|C[óo]digo do Cliente|Seu C[óo]digo|Conta Contrato)[\s\S]{0,120}?(?<!\d)(\d{6,12})(?!\d)/gi,
+    group: 1,
+  },
+  {
+    type: PiiType.INSTALLATION_NUMBER,
+    pattern:
+      /N[ºo°]\s*DO\s*CLIENTE\s+N[ºo°]\s*DA\s*INSTALA[ÇC][ÃA]O[\s\S]{0,80}?\d{6,12}\s+(\d{6,12})/gi,
+    group: 1,
+  },
+  {
+    type: PiiType.INSTALLATION_NUMBER,
+    pattern:
+      /(?:C[óo]digo de Instala[çc][ãa]o|Unidade Consumidora|Instala[çc][ãa]o\s*:)[\s\S]{0,80}?(?<!\d)(\d{6,12})(?!\d)/gi,
+    group: 1,
+  },
+];
+
+const PLACEHOLDER_PATTERN = /\[([A-Z_]+_\d+)\]/g;
+
+export interface RedactionEntry {
+  type: PiiType;
+  placeholder: string; // Ex: [CPF_1]
+  valueHash: string; // HMAC-SHA256 do valor original, que não é gravado
+  occurrences: number;
+}
+
+export interface PiiRedaction {
+  text: string; // Texto com os dados pessoais substituídos pelos marcadores
+  entries: RedactionEntry[];
+  values: Map<string, string>; // Marcador -> valor original (somente em memória)
+}
+
+// Mascara dados pessoais com marcadores reversíveis, numerados por tipo. O
+// mesmo valor recebe o mesmo marcador em todas as ocorrências. O hash usa uma
+// chave secreta: sem ela, CPFs e números de cliente sairiam por força bruta
+export function redactPii(
+  text: string,
+  hashKey: string | Buffer,
+): PiiRedaction {
+  const found = new Map<string, PiiType>();
+  for (const detector of DETECTORS) {
+    for (const match of text.matchAll(detector.pattern)) {
+      const value = (match[detector.group ?? 0] || '').trim();
+      if (value && !found.has(value)) {
+        found.set(value, detector.type);
+      }
+    }
+  }
+
+  const counters = new Map<PiiType, number>();
+  const values = new Map<string, string>();
+  const entries: RedactionEntry[] = [];
+  let redacted = text;
+
+  // Valores mais longos primeiro: um CEP dentro de um endereço some junto com ele
+  const ordered = [...found.entries()].sort(([a], [b]) => b.length - a.length);
+  for (const [value, type] of ordered) {
+    const pattern = valuePattern(value);
+    const occurrences = (redacted.match(pattern) || []).length;
+    if (!occurrences) {
+      continue;
+    }
+
+    const index = (counters.get(type) || 0) + 1;
+    counters.set(type, index);
+    const placeholder = `[${type}_${index}]`;
+    redacted = redacted.replace(pattern, placeholder);
+    values.set(placeholder, value);
+    entries.push({
+      type,
+      placeholder,
+      valueHash: createHmac('sha256', hashKey).update(value).digest('hex'),
+      occurrences,
+    });
+  }
+
+  return { text: redacted, entries, values };
+}
+
+// Devolve os valores originais no lugar dos marcadores em todos os textos da
+// resposta (campos e trechos de evidência), sem alterar o objeto recebido
+export function restorePii<T>(value: T, values: Map<string, string>): T {
+  if (!values.size) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return value.replace(
+      PLACEHOLDER_PATTERN,
+      (placeholder: string) => values.get(placeholder) ?? placeholder,
+    ) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => restorePii(item, values)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        restorePii(item, values),
+      ]),
+    ) as T;
+  }
+  return value;
+}
+
+// Números não podem ser mascarados dentro de números maiores
+function valuePattern(value: string): RegExp {
+  const escaped = value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return /^\d/.test(value)
+    ? new RegExp(`(?<!\\d)${escaped}(?!\\d)`, 'g')
+    : new RegExp(escaped, 'g');
+}
@@ -0,0 +1,61 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'node:crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { PiiRedaction, redactPii } from './pii-redactor';
+
+@Injectable()
+export class RedactionService {
+  private readonly logger = new Logger(RedactionService.name);
+  private readonly hashKey: string | Buffer;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {
+    // Sem chave configurada os hashes usam uma chave do processo: continuam
+    // protegidos, mas o mesmo valor muda de hash a cada reinício
+    this.hashKey = this.configService.get<string>('REDACTION_HASH_KEY');
+    if (!this.hashKey) {
+      this.logger.warn(
+        'REDACTION_HASH_KEY não configurada, usando uma chave temporária para os hashes dos dados mascarados',
+      );
+      this.hashKey = randomBytes(32);
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.configService.get<string>('PII_REDACTION_ENABLED') !== 'false';
+  }
+
+  // Com a redação desligada o texto segue inalterado, mas os marcadores de uma
+  // resposta anterior (ex: vinda do cache) ainda podem ser restaurados
+  redact(text: string): PiiRedaction {
+    const redaction = redactPii(text, this.hashKey);
+    return this.isEnabled() ? redaction : { ...redaction, text, entries: [] };
+  }
+
+  // Substitui o registro da fatura pelo da extração atual. Falhas ao gravar
+  // não devem interromper a extração
+  async record(billId: string, redaction: PiiRedaction): Promise<void> {
+    try {
+      await this.prisma.$transaction([
+        this.prisma.billRedaction.deleteMany({ where: { billId } }),
+        this.prisma.billRedaction.createMany({
+          data: redaction.entries.map(entry => ({ billId, ...entry })),
+        }),
+      ]);
+    } catch (error) {
+      this.logger.warn(
+        `Falha ao registrar dados pessoais mascarados: ${error.message}`,
+      );
+    }
+  }
+
+  async findByBill(billId: string) {
+    return this.prisma.billRedaction.findMany({
+      where: { billId },
+      orderBy: [{ type: 'asc' }, { placeholder: 'asc' }],
+    });
+  }
+}
@@ -0,0 +1,97 @@
+export enum CircuitState {
+  CLOSED = 'CLOSED', // Chamadas liberadas
+  OPEN = 'OPEN', // Provedor fora do ar: chamadas bloqueadas até retryAt
+  HALF_OPEN = 'HALF_OPEN', // Período de espera encerrado: uma chamada por vez testa o provedor
+}
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  retryAt: string | null;
+}
+
+// Abre após `failureThreshold` falhas transitórias seguidas e fica aberto por
+// `resetTimeoutMs`. No estado HALF_OPEN só uma chamada de teste passa por vez:
+// um sucesso fecha o circuito e uma falha o reabre imediatamente
+export class CircuitBreaker {
+  private state = CircuitState.CLOSED;
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private probeInFlight = false;
+
+  constructor(
+    private readonly failureThreshold: number,
+    private readonly resetTimeoutMs: number,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  canRequest(): boolean {
+    if (
+      this.state === CircuitState.OPEN &&
+      this.now() - this.openedAt >= this.resetTimeoutMs
+    ) {
+      this.state = CircuitState.HALF_OPEN;
+    }
+    return (
+      this.state === CircuitState.CLOSED ||
+      (this.state === CircuitState.HALF_OPEN && !this.probeInFlight)
+    );
+  }
+
+  // Reserva a chamada. No HALF_OPEN ela passa a ser a chamada de teste e as
+  // demais são recusadas até recordSuccess, recordFailure ou release
+  tryAcquire(): boolean {
+    if (!this.canRequest()) {
+      return false;
+    }
+    if (this.state === CircuitState.HALF_OPEN) {
+      this.probeInFlight = true;
+    }
+    return true;
+  }
+
+  // Chamada de teste encerrada sem indicar o estado do provedor (ex: erro
+  // não transitório): a próxima chamada testa de novo
+  release(): void {
+    this.probeInFlight = false;
+  }
+
+  recordSuccess(): void {
+    this.state = CircuitState.CLOSED;
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.probeInFlight = false;
+  }
+
+  // Retorna true quando esta falha abriu o circuito
+  recordFailure(): boolean {
+    this.probeInFlight = false;
+    this.consecutiveFailures += 1;
+    if (
+      this.state === CircuitState.HALF_OPEN ||
+      (this.state === CircuitState.CLOSED &&
+        this.consecutiveFailures >= this.failureThreshold)
+    ) {
+      this.state = CircuitState.OPEN;
+      this.openedAt = this.now();
+      return true;
+    }
+    return false;
+  }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    // Atualiza OPEN -> HALF_OPEN se o período de espera já passou
+    this.canRequest();
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt:
+        this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+      retryAt:
+        this.state === CircuitState.OPEN
+          ? new Date(this.openedAt + this.resetTimeoutMs).toISOString()
+          : null,
+    };
+  }
+}
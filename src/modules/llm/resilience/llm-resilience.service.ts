@@ -0,0 +1,213 @@
+import {
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ExtractionErrorCode } from '../dto/llm-extraction.dto';
+import {
+  CircuitBreaker,
+  CircuitBreakerSnapshot,
+  CircuitState,
+} from './circuit-breaker';
+import {
+  LlmCallTimeoutError,
+  computeBackoffMs,
+  getRetryAfterMs,
+  isTransientError,
+} from './retry-policy';
+import { TokenBucket, TokenBucketSnapshot } from './token-bucket';
+
+const DEFAULT_CALL_TIMEOUT_MS = 60000;
+const RATE_LIMIT_WINDOW_MS = 60000;
+
+export interface RateLimitSnapshot {
+  requestsPerMinute: TokenBucketSnapshot | null;
+  tokensPerMinute: TokenBucketSnapshot | null;
+}
+
+// Provedor fora do ar (circuito aberto ou tentativas esgotadas). As faturas
+// afetadas voltam para a fila em vez de falhar
+export class LlmProviderUnavailableException extends ServiceUnavailableException {
+  readonly code = ExtractionErrorCode.PROVIDER_UNAVAILABLE;
+
+  constructor(message: string) {
+    super({
+      statusCode: 503,
+      error: 'Service Unavailable',
+      code: ExtractionErrorCode.PROVIDER_UNAVAILABLE,
+      message,
+    });
+  }
+}
+
+@Injectable()
+export class LlmResilienceService {
+  private readonly logger = new Logger(LlmResilienceService.name);
+  private readonly breaker: CircuitBreaker;
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  // Limites do provedor (null = sem limite)
+  private readonly requestBucket: TokenBucket | null;
+  private readonly tokenBucket: TokenBucket | null;
+  // Chamadas aguardando o limite de taxa são liberadas em ordem de chegada
+  private rateLimitTail: Promise<void> = Promise.resolve();
+
+  constructor(private readonly configService: ConfigService) {
+    this.maxRetries = this.readNumber('LLM_MAX_RETRIES', 3);
+    this.baseDelayMs = this.readNumber('LLM_RETRY_BASE_DELAY_MS', 1000);
+    this.maxDelayMs = this.readNumber('LLM_RETRY_MAX_DELAY_MS', 30000);
+    this.breaker = new CircuitBreaker(
+      this.readNumber('LLM_CIRCUIT_FAILURE_THRESHOLD', 5),
+      this.readNumber('LLM_CIRCUIT_RESET_MS', 60000),
+    );
+    this.requestBucket = this.createBucket('LLM_RATE_LIMIT_RPM');
+    this.tokenBucket = this.createBucket('LLM_RATE_LIMIT_TPM');
+  }
+
+  isAvailable(): boolean {
+    return this.breaker.canRequest();
+  }
+
+  getCircuitState(): CircuitBreakerSnapshot {
+    return this.breaker.getSnapshot();
+  }
+
+  getRateLimitState(): RateLimitSnapshot {
+    return {
+      requestsPerMinute: this.requestBucket?.getSnapshot() ?? null,
+      tokensPerMinute: this.tokenBucket?.getSnapshot() ?? null,
+    };
+  }
+
+  // Executa a chamada com timeout por tentativa, novas tentativas com backoff
+  // (respeitando Retry-After), circuit breaker e limite de requisições e
+  // tokens por minuto. Cada tentativa consome `estimatedTokens` do limite
+  async execute<T>(
+    operation: (signal: AbortSignal) => Promise<T>,
+    timeoutMs: number = DEFAULT_CALL_TIMEOUT_MS,
+    estimatedTokens = 0,
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      if (!this.breaker.tryAcquire()) {
+        const { state, retryAt } = this.breaker.getSnapshot();
+        throw new LlmProviderUnavailableException(
+          state === CircuitState.HALF_OPEN
+            ? 'Provedor de LLM indisponível (circuito em teste)'
+            : `Provedor de LLM indisponível (circuito aberto até ${retryAt})`,
+        );
+      }
+      await this.acquireRateLimit(estimatedTokens);
+
+      try {
+        const result = await this.withTimeout(operation, timeoutMs);
+        this.breaker.recordSuccess();
+        return result;
+      } catch (error) {
+        if (!isTransientError(error)) {
+          this.breaker.release();
+          throw error;
+        }
+
+        if (this.breaker.recordFailure()) {
+          this.logger.warn(
+            `Circuito do provedor de LLM aberto após falhas seguidas: ${error.message}`,
+          );
+        }
+        if (attempt >= this.maxRetries) {
+          throw new LlmProviderUnavailableException(
+            `Provedor de LLM indisponível após ${attempt + 1} tentativa(s): ${error.message}`,
+          );
+        }
+
+        const retryAfterMs = getRetryAfterMs(error);
+        if (retryAfterMs !== null && retryAfterMs > this.maxDelayMs) {
+          throw new LlmProviderUnavailableException(
+            `Provedor de LLM pediu para aguardar ${retryAfterMs}ms: ${error.message}`,
+          );
+        }
+
+        const delayMs =
+          retryAfterMs ??
+          computeBackoffMs(attempt, this.baseDelayMs, this.maxDelayMs);
+        this.logger.warn(
+          `Falha transitória do provedor de LLM (tentativa ${attempt + 1}/${this.maxRetries + 1}): ` +
+            `${error.message}. Nova tentativa em ${delayMs}ms`,
+        );
+        await this.sleep(delayMs);
+      }
+    }
+  }
+
+  // Acerta o limite de tokens com o consumo informado pelo provedor
+  recordTokenUsage(estimatedTokens: number, usedTokens: number): void {
+    this.tokenBucket?.take(usedTokens - estimatedTokens);
+  }
+
+  private acquireRateLimit(tokens: number): Promise<void> {
+    if (!this.requestBucket && !this.tokenBucket) {
+      return Promise.resolve();
+    }
+    const turn = this.rateLimitTail.then(() => this.waitForCapacity(tokens));
+    this.rateLimitTail = turn.catch(() => undefined);
+    return turn;
+  }
+
+  private async waitForCapacity(tokens: number): Promise<void> {
+    for (;;) {
+      const waitMs = Math.max(
+        this.requestBucket?.waitTime(1) ?? 0,
+        this.tokenBucket?.waitTime(tokens) ?? 0,
+      );
+      if (waitMs <= 0) {
+        this.requestBucket?.take(1);
+        this.tokenBucket?.take(tokens);
+        return;
+      }
+      this.logger.log(
+        `Limite de taxa do provedor de LLM atingido, aguardando ${waitMs}ms`,
+      );
+      await this.sleep(waitMs);
+    }
+  }
+
+  private createBucket(key: string): TokenBucket | null {
+    const perMinute = this.readNumber(key, 0);
+    return perMinute > 0
+      ? new TokenBucket(perMinute, RATE_LIMIT_WINDOW_MS)
+      : null;
+  }
+
+  private async withTimeout<T>(
+    operation: (signal: AbortSignal) => Promise<T>,
+    timeoutMs: number,
+  ): Promise<T> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(new LlmCallTimeoutError(timeoutMs));
+        controller.abort();
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([operation(controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  private readNumber(key: string, fallback: number): number {
+    const raw = this.configService.get<string>(key);
+    const parsed = Number(raw);
+    return raw !== undefined && raw !== '' && !Number.isNaN(parsed)
+      ? parsed
+      : fallback;
+  }
+}
@@ -0,0 +1,78 @@
+// Erros de rede que indicam indisponibilidade momentânea do provedor
+const TRANSIENT_ERROR_NAMES = [
+  'APIConnectionError',
+  'APIConnectionTimeoutError',
+];
+const TRANSIENT_ERROR_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+];
+
+export class LlmCallTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Chamada ao provedor de LLM excedeu ${timeoutMs}ms`);
+    this.name = 'LlmCallTimeoutError';
+  }
+}
+
+// 429, 5xx, timeouts e falhas de conexão valem nova tentativa. Demais erros
+// (400, 401, resposta inválida) se repetiriam em qualquer tentativa
+export function isTransientError(error: any): boolean {
+  if (error instanceof LlmCallTimeoutError) {
+    return true;
+  }
+
+  const status = Number(error?.status);
+  if (status === 429 || status >= 500) {
+    return true;
+  }
+
+  return (
+    TRANSIENT_ERROR_NAMES.includes(error?.name) ||
+    TRANSIENT_ERROR_CODES.includes(error?.code) ||
+    TRANSIENT_ERROR_CODES.includes(error?.cause?.code)
+  );
+}
+
+// Lê retry-after-ms ou retry-after (segundos ou data HTTP) dos headers da resposta de erro
+export function getRetryAfterMs(
+  error: any,
+  now: number = Date.now(),
+): number | null {
+  const headers = error?.headers;
+  if (!headers) {
+    return null;
+  }
+  const header = (name: string): string | null | undefined =>
+    typeof headers.get === 'function' ? headers.get(name) : headers[name];
+
+  const retryAfterMs = Number(header('retry-after-ms'));
+  if (header('retry-after-ms') && retryAfterMs >= 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = header('retry-after');
+  if (!retryAfter) {
+    return null;
+  }
+  const seconds = Number(retryAfter);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? null : Math.max(date - now, 0);
+}
+
+// Backoff exponencial com jitter completo: aleatório entre 0 e base * 2^tentativa
+export function computeBackoffMs(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+  random: () => number = Math.random,
+): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(random() * ceiling);
+}
@@ -0,0 +1,57 @@
+export interface TokenBucketSnapshot {
+  capacity: number;
+  available: number;
+}
+
+// Balde de fichas com reposição contínua: `capacity` fichas por janela de
+// `windowMs`. O saldo pode ficar negativo quando o consumo real (ex: tokens
+// da resposta) supera a estimativa, atrasando as próximas chamadas
+export class TokenBucket {
+  private available: number;
+  private updatedAt: number;
+
+  constructor(
+    readonly capacity: number,
+    private readonly windowMs: number,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.available = capacity;
+    this.updatedAt = now();
+  }
+
+  // Milissegundos até haver saldo para `amount` fichas (0 = liberado). Pedidos
+  // maiores que a capacidade esperam o balde cheio
+  waitTime(amount: number): number {
+    this.refill();
+    const needed = Math.min(amount, this.capacity);
+    if (this.available >= needed) {
+      return 0;
+    }
+    return Math.ceil(
+      ((needed - this.available) * this.windowMs) / this.capacity,
+    );
+  }
+
+  // Valores negativos devolvem fichas (estimativa maior que o consumo real)
+  take(amount: number): void {
+    this.refill();
+    this.available = Math.min(this.capacity, this.available - amount);
+  }
+
+  getSnapshot(): TokenBucketSnapshot {
+    this.refill();
+    return {
+      capacity: this.capacity,
+      available: Math.floor(this.available),
+    };
+  }
+
+  private refill(): void {
+    const now = this.now();
+    this.available = Math.min(
+      this.capacity,
+      this.available + ((now - this.updatedAt) * this.capacity) / this.windowMs,
+    );
+    this.updatedAt = now;
+  }
+}
@@ -0,0 +1,77 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  ExtractionErrorCode,
+  ExtractionOutcome,
+  TextSource,
+} from '../dto/llm-extraction.dto';
+import { ExtractionUsage } from '../providers/extraction-provider.interface';
+
+export interface ExtractionRunRecord {
+  billId?: string;
+  promptVersion: string;
+  provider: string;
+  model: string;
+  textHash: string;
+  textSource?: TextSource;
+  rawResponse?: string;
+  parsedJson?: unknown;
+  usage?: ExtractionUsage;
+  latencyMs: number;
+  cached?: boolean;
+  costUsd?: number | null;
+  outcome: ExtractionOutcome;
+  errorCode?: ExtractionErrorCode;
+  errorMessage?: string;
+  repairAttempts?: number;
+}
+
+@Injectable()
+export class ExtractionRunService {
+  private readonly logger = new Logger(ExtractionRunService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // Falhas ao gravar a auditoria não devem interromper a extração
+  async record(run: ExtractionRunRecord): Promise<void> {
+    try {
+      await this.prisma.extractionRun.create({
+        data: {
+          billId: run.billId,
+          promptVersion: run.promptVersion,
+          provider: run.provider,
+          model: run.model,
+          textHash: run.textHash,
+          textSource: run.textSource,
+          rawResponse: run.rawResponse,
+          parsedJson:
+            run.parsedJson === undefined
+              ? Prisma.DbNull
+              : (run.parsedJson as Prisma.InputJsonValue),
+          promptTokens: run.usage?.promptTokens,
+          completionTokens: run.usage?.completionTokens,
+          totalTokens: run.usage?.totalTokens,
+          latencyMs: run.latencyMs,
+          cached: run.cached ?? false,
+          costUsd: run.costUsd,
+          outcome: run.outcome,
+          errorCode: run.errorCode,
+          errorMessage: run.errorMessage,
+          repairAttempts: run.repairAttempts ?? 0,
+        },
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Falha ao registrar execução de extração: ${error.message}`,
+      );
+    }
+  }
+
+  async findByBill(billId: string) {
+    return this.prisma.extractionRun.findMany({
+      where: { billId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+}
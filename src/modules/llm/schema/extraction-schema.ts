@@ -0,0 +1,202 @@
+import { getMetadataStorage } from 'class-validator';
+import { defaultMetadataStorage } from 'class-transformer/cjs/storage';
+import { LlmExtractionResponseDto } from '../dto/llm-extraction.dto';
+
+export type JsonSchema = Record<string, any>;
+
+export const EXTRACTION_SCHEMA_NAME = 'energy_bill_extraction';
+
+// Campos preenchidos pela aplicação, nunca pelo modelo
+const SERVER_FIELDS = [
+  'textSource',
+  'fieldProvenance',
+  'category',
+  'distributorCode',
+];
+
+// Tipos JSON dos validadores do class-validator usados nos DTOs
+const VALIDATOR_TYPES: Record<string, string> = {
+  isString: 'string',
+  isDateString: 'string',
+  isNumber: 'number',
+  isInt: 'integer',
+  isBoolean: 'boolean',
+};
+
+// Gera um JSON Schema no formato estrito de structured outputs (todas as
+// propriedades obrigatórias, opcionais como null e sem propriedades extras) a
+// partir dos decorators do class-validator e do @Type do class-transformer
+export function buildJsonSchema(
+  target: Function,
+  omit: string[] = [],
+): JsonSchema {
+  const metadatas = getMetadataStorage().getTargetValidationMetadatas(
+    target,
+    '',
+    true,
+    false,
+  );
+  const propertyNames = Array.from(
+    new Set(metadatas.map(metadata => metadata.propertyName)),
+  ).filter(name => !omit.includes(name));
+
+  const properties: Record<string, JsonSchema> = {};
+  for (const name of propertyNames) {
+    const rules = metadatas.filter(metadata => metadata.propertyName === name);
+    const optional = rules.some(rule => rule.name === 'isOptional');
+    const nested = rules.find(rule => rule.type === 'nestedValidation');
+
+    let schema: JsonSchema | undefined;
+    if (nested) {
+      const nestedType = defaultMetadataStorage
+        .findTypeMetadata(target, name)
+        ?.typeFunction();
+      const itemSchema = nestedType && buildJsonSchema(nestedType, omit);
+      schema =
+        itemSchema &&
+        (nested.each ? { type: 'array', items: itemSchema } : itemSchema);
+    } else {
+      const enumRule = rules.find(rule => rule.name === 'isEnum');
+      const typeRule = rules.find(rule => VALIDATOR_TYPES[rule.name]);
+      if (enumRule) {
+        schema = {
+          type: 'string',
+          enum: Object.values(enumRule.constraints[0]),
+        };
+      } else if (typeRule) {
+        schema = { type: VALIDATOR_TYPES[typeRule.name] };
+      }
+    }
+
+    // Propriedades sem tipo declarado (ex: Record) ficam fora do contrato
+    if (schema) {
+      properties[name] = optional ? nullable(schema) : schema;
+    }
+  }
+
+  return {
+    type: 'object',
+    properties,
+    required: Object.keys(properties),
+    additionalProperties: false,
+  };
+}
+
+// Contrato de resposta do modelo: dados da fatura e evidência de cada campo
+export function buildExtractionSchema(evidenceFields: string[]): JsonSchema {
+  const schema = buildJsonSchema(LlmExtractionResponseDto, SERVER_FIELDS);
+  const evidenceItem = nullable({
+    type: 'object',
+    properties: {
+      confidence: { type: 'number' },
+      snippet: { type: 'string' },
+    },
+    required: ['confidence', 'snippet'],
+    additionalProperties: false,
+  });
+
+  schema.properties.evidence = nullable({
+    type: 'object',
+    properties: Object.fromEntries(
+      evidenceFields.map(field => [field, evidenceItem]),
+    ),
+    required: evidenceFields,
+    additionalProperties: false,
+  });
+  schema.required.push('evidence');
+  return schema;
+}
+
+function nullable(schema: JsonSchema): JsonSchema {
+  if (schema.type === 'object') {
+    return { anyOf: [schema, { type: 'null' }] };
+  }
+  return { ...schema, type: [schema.type, 'null'] };
+}
+
+// Valida um valor contra o subconjunto de JSON Schema gerado acima. Retorna a
+// lista de violações com o caminho do campo. Propriedades que aceitam null
+// podem ser omitidas (provedores sem structured outputs)
+export function validateJsonSchema(
+  schema: JsonSchema,
+  value: unknown,
+  path = '$',
+): string[] {
+  if (schema.anyOf) {
+    const results = schema.anyOf.map(option =>
+      validateJsonSchema(option, value, path),
+    );
+    return results.some(errors => !errors.length)
+      ? []
+      : results.find(errors => !isNullOnly(errors)) || results[0];
+  }
+
+  const types: string[] = [].concat(schema.type);
+  const actual = jsonType(value);
+  if (
+    !types.includes(actual) &&
+    !(actual === 'integer' && types.includes('number'))
+  ) {
+    return [`${path}: esperado ${types.join(' ou ')}, recebido ${actual}`];
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${path}: valor "${value}" fora de ${schema.enum.join(', ')}`];
+  }
+
+  if (actual === 'array' && schema.items) {
+    return (value as unknown[]).flatMap((item, index) =>
+      validateJsonSchema(schema.items, item, `${path}[${index}]`),
+    );
+  }
+
+  if (actual === 'object' && schema.properties) {
+    const record = value as Record<string, unknown>;
+    const errors: string[] = [];
+    for (const key of Object.keys(record)) {
+      if (!schema.properties[key] && schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: propriedade não prevista`);
+      }
+    }
+    for (const [key, propertySchema] of Object.entries<JsonSchema>(
+      schema.properties,
+    )) {
+      if (record[key] === undefined) {
+        if (!acceptsNull(propertySchema)) {
+          errors.push(`${path}.${key}: campo obrigatório ausente`);
+        }
+        continue;
+      }
+      errors.push(
+        ...validateJsonSchema(propertySchema, record[key], `${path}.${key}`),
+      );
+    }
+    return errors;
+  }
+
+  return [];
+}
+
+function jsonType(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value;
+}
+
+function acceptsNull(schema: JsonSchema): boolean {
+  return schema.anyOf
+    ? schema.anyOf.some(acceptsNull)
+    : [].concat(schema.type).includes('null');
+}
+
+// Na falha de um anyOf [objeto, null], a mensagem útil é a do objeto
+function isNullOnly(errors: string[]): boolean {
+  return errors.length === 1 && errors[0].includes('esperado null');
+}
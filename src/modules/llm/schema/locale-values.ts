@@ -0,0 +1,208 @@
+import { JsonSchema } from './extraction-schema';
+
+const CURRENCY_PREFIX = /^(?:R\$|BRL)\s*/i;
+
+// Converte números no formato das faturas brasileiras: "1.234,56", "R$ 45,67",
+// "12,30-" (crédito com sinal no final) e "(12,30)". Também aceita números já
+// no formato JS ("1234.56", "0.745"). Um único grupo "d.ddd" é ambíguo: em
+// quantidades e valores é milhar ("2.300" kWh = 2300); com `decimalDot`
+// (tarifas e alíquotas, que têm 3 ou mais casas) é decimal ("12.345" = 12,345).
+// Retorna null quando o texto não é reconhecido
+export function parseBrazilianNumber(
+  value: unknown,
+  decimalDot = false,
+): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  let text = value.trim().replace(/\s+/g, '');
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    negative = true;
+    text = text.slice(0, -1);
+  } else if (text.startsWith('-')) {
+    negative = true;
+    text = text.slice(1);
+  }
+  text = text.replace(CURRENCY_PREFIX, '');
+  // "R$ -12,30" tem o sinal depois do prefixo
+  if (!negative && text.startsWith('-')) {
+    negative = true;
+    text = text.slice(1);
+  }
+
+  let normalized: string;
+  if (/^\d{1,3}(?:\.\d{3})*,\d+$/.test(text) || /^\d+,\d+$/.test(text)) {
+    // Vírgula decimal, com ou sem separador de milhar
+    normalized = text.replace(/\./g, '').replace(',', '.');
+  } else if (
+    /^[1-9]\d{0,2}(?:\.\d{3}){2,}$/.test(text) ||
+    (!decimalDot && /^[1-9]\d{0,2}\.\d{3}$/.test(text))
+  ) {
+    // Apenas separador de milhar: "1.234.567" = 1234567, "2.300" = 2300
+    normalized = text.replace(/\./g, '');
+  } else if (/^\d+(?:\.\d+)?$/.test(text)) {
+    normalized = text;
+  } else {
+    return null;
+  }
+
+  const parsed = Number(normalized);
+  return negative ? -parsed : parsed;
+}
+
+// Converte datas DD/MM/AAAA (ou YYYY-MM-DD, com ou sem horário) para
+// YYYY-MM-DD. Retorna null quando o texto não é uma data válida do calendário
+export function parseBrazilianDate(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const text = value.trim();
+  const brazilian = text.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T\s].*)?$/);
+  const [year, month, day] = brazilian
+    ? [brazilian[3], brazilian[2], brazilian[1]]
+    : iso
+      ? [iso[1], iso[2], iso[3]]
+      : [];
+  if (!year) {
+    return null;
+  }
+
+  // 31/02 e afins viram outra data no Date: compara os componentes
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (
+    date.getUTCFullYear() !== Number(year) ||
+    date.getUTCMonth() + 1 !== Number(month) ||
+    date.getUTCDate() !== Number(day)
+  ) {
+    return null;
+  }
+  return `${year}-${month}-${day}`;
+}
+
+// Converte, no próprio objeto, os campos numéricos do schema e os campos de
+// data informados (caminhos como "readingPeriod.startDate") que vieram como
+// texto. Em `decimalDotFields` (ex: "lineItems.unitPrice") um único ponto é
+// decimal. Retorna os campos que não puderam ser convertidos; campos já no
+// tipo esperado ficam para a validação do schema
+export function normalizeLocaleValues(
+  schema: JsonSchema,
+  value: unknown,
+  dateFields: string[],
+  decimalDotFields: string[] = [],
+  field = '',
+  path = '$',
+): string[] {
+  if (value === null || value === undefined) {
+    return [];
+  }
+  if (schema.anyOf) {
+    const option =
+      schema.anyOf.find(candidate => matchesContainer(candidate, value)) ??
+      schema.anyOf.find(candidate => candidate.type !== 'null');
+    return option
+      ? normalizeLocaleValues(
+          option,
+          value,
+          dateFields,
+          decimalDotFields,
+          field,
+          path,
+        )
+      : [];
+  }
+
+  if (Array.isArray(value)) {
+    return schema.items
+      ? value.flatMap((item, index) =>
+          normalizeItem(
+            schema.items,
+            value,
+            index,
+            dateFields,
+            decimalDotFields,
+            field,
+            path,
+          ),
+        )
+      : [];
+  }
+  if (typeof value === 'object' && schema.properties) {
+    return Object.keys(schema.properties).flatMap(key =>
+      normalizeItem(
+        schema.properties[key],
+        value as Record<string, unknown>,
+        key,
+        dateFields,
+        decimalDotFields,
+        field ? `${field}.${key}` : key,
+        path,
+      ),
+    );
+  }
+  return [];
+}
+
+function normalizeItem(
+  schema: JsonSchema,
+  container: Record<string, unknown> | unknown[],
+  key: string | number,
+  dateFields: string[],
+  decimalDotFields: string[],
+  field: string,
+  path: string,
+): string[] {
+  const itemPath =
+    typeof key === 'number' ? `${path}[${key}]` : `${path}.${key}`;
+  const current = container[key];
+  if (typeof current !== 'string') {
+    return normalizeLocaleValues(
+      schema,
+      current,
+      dateFields,
+      decimalDotFields,
+      field,
+      itemPath,
+    );
+  }
+
+  const types: string[] = [].concat(
+    ...(schema.anyOf ?? [schema]).map(option => option.type),
+  );
+  const numeric = types.includes('number') || types.includes('integer');
+  if (!numeric && !dateFields.includes(field)) {
+    return [];
+  }
+
+  // Texto vazio equivale a campo ausente
+  if (!current.trim() && types.includes('null')) {
+    container[key] = null;
+    return [];
+  }
+  const parsed = numeric
+    ? parseBrazilianNumber(current, decimalDotFields.includes(field))
+    : parseBrazilianDate(current);
+  if (parsed === null) {
+    const kind = numeric ? 'número' : 'data';
+    return [`${itemPath}: ${kind} "${current}" em formato não reconhecido`];
+  }
+  container[key] = parsed;
+  return [];
+}
+
+function matchesContainer(schema: JsonSchema, value: unknown): boolean {
+  const types: string[] = [].concat(schema.type);
+  return Array.isArray(value)
+    ? types.includes('array')
+    : typeof value === 'object' && types.includes('object');
+}
@@ -0,0 +1,52 @@
+import { segmentBillPages } from '../extractors/bill-segmenter';
+
+describe('segmentBillPages', () => {
+  const header = (customer: string, installation: string, month: string) =>
+    `Nº DO CLIENTE Nº DA INSTALAÇÃO\n${customer} ${installation}\nReferente a Vencimento\n${month} 05/10/2024`;
+
+  it('should keep a single bill spread over several pages together', () => {
+    const pages = [
+      header('7202210726', '3001116735', 'SET/2024'),
+      'Itens da Fatura\nEnergia Elétrica kWh 50',
+      header('7202210726', '3001116735', 'SET/2024'), // Cabeçalho repetido na página 2
+    ];
+
+    expect(segmentBillPages(pages)).toEqual([{ start: 1, end: 3 }]);
+  });
+
+  it('should split concatenated months of the same installation', () => {
+    const pages = [
+      header('7202210726', '3001116735', 'AGO/2024'),
+      'Histórico de consumo',
+      header('7202210726', '3001116735', 'SET/2024'),
+      'Histórico de consumo',
+    ];
+
+    expect(segmentBillPages(pages)).toEqual([
+      { start: 1, end: 2 },
+      { start: 3, end: 4 },
+    ]);
+  });
+
+  it('should split bills of different installations in the same month', () => {
+    const pages = [
+      header('7202210726', '3001116735', 'SET/2024'),
+      header('7202210726', '3004298116', 'SET/2024'),
+    ];
+
+    expect(segmentBillPages(pages)).toEqual([
+      { start: 1, end: 1 },
+      { start: 2, end: 2 },
+    ]);
+  });
+
+  it('should attach leading pages without a header to the first bill', () => {
+    const pages = ['Capa', header('7202210726', '3001116735', 'SET/2024')];
+
+    expect(segmentBillPages(pages)).toEqual([{ start: 1, end: 2 }]);
+  });
+
+  it('should return no segments for an empty document', () => {
+    expect(segmentBillPages([])).toEqual([]);
+  });
+});
@@ -0,0 +1,119 @@
+import { CemigRuleExtractor } from '../extractors/cemig-rule.extractor';
+import { LineItemCategory } from '../dto/llm-extraction.dto';
+
+describe('CemigRuleExtractor', () => {
+  const extractor = new CemigRuleExtractor();
+
+  // Trecho no formato gerado pelo pdf-parse para uma fatura CEMIG
+  const cemigText = `
+CEMIG DISTRIBUIÇÃO S.A. CNPJ 06.981.180/0001-16
+Nº DO CLIENTE             Nº DA INSTALAÇÃO
+   7204076116                3001116735
+Referente a               Vencimento              Valor a pagar (R$)
+   JAN/2024                 05/02/2024              191,01
+Classe          Subclasse        Modalidade Tarifária
+Residencial     Residencial      Convencional B1
+Valores Faturados
+Itens da FaturaUnid.QuantPreço UnitValor (R$)
+Energia ElétricakWh       100     0,83184156       83,17 0,65313000
+Energia SCEEE s/ICMSkWh      2.300     0,50854704    1.169,65 0,48036000
+Energia compensada GD IkWh   2.300     0,48036329   -1.104,84 0,48036000
+Contrib Ilum Publica Municipal     40,45
+Multa por atraso     2,15
+Juros Moratórios     0,43
+TOTAL      191,01
+Tributos   Base de Cálculo (R$)   Alíquota (%)   Valor (R$)
+ICMS        1.252,82     18,00     225,51
+PIS/PASEP   1.252,82      0,87      10,90
+COFINS      1.252,82      4,03      50,49
+Histórico de Consumo
+MÊS/ANO   Cons. kWh   Média kWh/Dia   Dias
+JAN/24    100         3,22            31
+DEZ/23    1.250       40,32           31
+NOV/23    98          3,27            30
+`;
+
+  it('should extract all fields with full confidence', () => {
+    const result = extractor.extract(cemigText);
+
+    expect(result.confidence).toBe(1);
+    expect(result.failedChecks).toEqual([]);
+    expect(result.data).toEqual({
+      customerNumber: '7204076116',
+      referenceMonth: 'JAN/2024',
+      electricEnergy: { quantity: 100, value: 83.17 },
+      sceeeEnergy: { quantity: 2300, value: 1169.65 },
+      compensatedEnergy: { quantity: 2300, value: -1104.84 },
+      publicLightingContrib: 40.45,
+      dueDate: '2024-02-05',
+      totalAmount: 191.01,
+      installationNumber: '3001116735',
+      distributor: 'CEMIG',
+      tariffClass: 'Residencial',
+      tariffSubgroup: 'B1',
+      lineItems: expect.any(Array),
+      taxes: {
+        icms: { base: 1252.82, rate: 18, value: 225.51 },
+        pis: { base: 1252.82, rate: 0.87, value: 10.9 },
+        cofins: { base: 1252.82, rate: 4.03, value: 50.49 },
+      },
+      consumptionHistory: [
+        { month: 'JAN/2024', consumption: 100, days: 31 },
+        { month: 'DEZ/2023', consumption: 1250, days: 31 },
+        { month: 'NOV/2023', consumption: 98, days: 30 },
+      ],
+    });
+    expect(result.data.lineItems).toHaveLength(6);
+    expect(result.data.lineItems[0]).toEqual({
+      description: 'Energia Elétrica',
+      unit: 'kWh',
+      quantity: 100,
+      unitPrice: 0.83184156,
+      value: 83.17,
+      category: LineItemCategory.ELECTRIC_ENERGY,
+    });
+    expect(result.data.lineItems.slice(4)).toEqual([
+      { description: 'Multa por atraso', value: 2.15, category: LineItemCategory.FINE },
+      { description: 'Juros Moratórios', value: 0.43, category: LineItemCategory.INTEREST },
+    ]);
+    expect(result.evidence.publicLightingContrib).toBe('Contrib Ilum Publica Municipal     40,45');
+  });
+
+  it('should accept bills without optional items', () => {
+    const text = cemigText
+      .split('\n')
+      .filter(line => !line.startsWith('Energia SCEEE') && !line.startsWith('Energia compensada'))
+      .join('\n');
+
+    const result = extractor.extract(text);
+
+    expect(result.confidence).toBe(1);
+    expect(result.data.sceeeEnergy).toBeNull();
+    expect(result.data.compensatedEnergy).toBeNull();
+  });
+
+  it('should lower confidence when a present item cannot be parsed', () => {
+    const text = cemigText.replace('2.300     0,50854704    1.169,65', 'ilegível');
+
+    const result = extractor.extract(text);
+
+    expect(result.confidence).toBeLessThan(1);
+    expect(result.failedChecks).toContain('lineItems');
+  });
+
+  it('should not be confident on other distributors', () => {
+    const result = extractor.extract(cemigText.replace(/CEMIG/g, 'ENEL'));
+
+    expect(result.confidence).toBeLessThan(1);
+    expect(result.failedChecks).toContain('distributor');
+  });
+
+  it('should return no data when required fields are missing', () => {
+    const result = extractor.extract('Fatura sem layout reconhecido');
+
+    expect(result.data).toBeNull();
+    expect(result.failedChecks).toEqual(
+      expect.arrayContaining(['customerNumber', 'referenceMonth', 'electricEnergy']),
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import 'reflect-metadata';
+import {
+  DISTRIBUTOR_PROFILES,
+  detectDistributor,
+  getDistributorProfile,
+} from '../distributors/distributor-registry';
+import { categorizeLineItem } from '../extractors/line-items';
+import { DistributorCode, LineItemCategory } from '../dto/llm-extraction.dto';
+
+describe('distributor registry', () => {
+  describe('detectDistributor', () => {
+    it.each([
+      [DistributorCode.CEMIG, 'CEMIG DISTRIBUIÇÃO S.A.\nEnergia SCEE s/ICMS'],
+      [
+        DistributorCode.ENEL,
+        'Enel Distribuição São Paulo\nConsumo Ativo (kWh)',
+      ],
+      [DistributorCode.LIGHT, 'Light Serviços de Eletricidade S.A.'],
+      [DistributorCode.CPFL, 'CPFL Paulista\nSeu Código 4001234567'],
+      [
+        DistributorCode.EQUATORIAL,
+        'Equatorial Pará\nConta Contrato 3012345678',
+      ],
+    ])('should detect %s by name and layout', (code, text) => {
+      expect(detectDistributor(text)).toMatchObject({ code });
+    });
+
+    it('should detect the distributor by CNPJ alone', () => {
+      const detection = detectDistributor('CNPJ 33.050.196/0001-88');
+
+      expect(detection).toEqual({
+        code: DistributorCode.CPFL,
+        score: 3,
+        signals: ['cnpj:33050196000188'],
+      });
+    });
+
+    it('should not detect a distributor from layout markers alone', () => {
+      expect(detectDistributor('Conta Contrato 3012345678')).toBeNull();
+    });
+
+    it('should return null when two distributors tie', () => {
+      expect(detectDistributor('Pagamento via CEMIG ou Enel')).toBeNull();
+    });
+
+    it('should prefer the distributor with the strongest signals', () => {
+      const text =
+        'Enel Distribuição Ceará CNPJ 07.047.251/0001-70\nCompensação de créditos junto à CEMIG';
+
+      expect(detectDistributor(text)?.code).toBe(DistributorCode.ENEL);
+    });
+  });
+
+  describe('profiles', () => {
+    it('should have one profile per distributor code', () => {
+      expect(DISTRIBUTOR_PROFILES.map(profile => profile.code).sort()).toEqual(
+        Object.values(DistributorCode).sort(),
+      );
+    });
+
+    it('should map distributor item names to the common categories', () => {
+      const cpfl = getDistributorProfile(DistributorCode.CPFL).itemRules;
+
+      expect(categorizeLineItem('Consumo Uso Sistema [KWh]-TUSD', cpfl)).toBe(
+        LineItemCategory.ELECTRIC_ENERGY,
+      );
+      expect(categorizeLineItem('Consumo - TE', cpfl)).toBe(
+        LineItemCategory.ELECTRIC_ENERGY,
+      );
+      expect(categorizeLineItem('Energ Atv Inj. oUC mPT - TUSD', cpfl)).toBe(
+        LineItemCategory.COMPENSATED_ENERGY,
+      );
+      expect(categorizeLineItem('Contrib Custeio IP-CIP', cpfl)).toBe(
+        LineItemCategory.PUBLIC_LIGHTING,
+      );
+      // Sem regra da distribuidora, valem as regras genéricas
+      expect(categorizeLineItem('Juros de mora', cpfl)).toBe(
+        LineItemCategory.INTEREST,
+      );
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { LlmExtractionResponseDto } from '../dto/llm-extraction.dto';
+import {
+  buildReport,
+  compareReports,
+  compareValues,
+  scoreFixture,
+} from '../evaluation/evaluation-metrics';
+import { RecordedExtractionProvider } from '../providers/recorded.provider';
+import { OfflineExtractionProvider } from '../providers/offline.provider';
+
+describe('extraction evaluation', () => {
+  const expected: Partial<LlmExtractionResponseDto> = {
+    customerNumber: '7202210726',
+    referenceMonth: 'SET/2024',
+    electricEnergy: { quantity: 50, value: 45.67 },
+    sceeeEnergy: { quantity: 476, value: 392.5 },
+    compensatedEnergy: null,
+  };
+
+  const extracted: LlmExtractionResponseDto = {
+    customerNumber: '7202210726',
+    referenceMonth: 'set/2024 ',
+    electricEnergy: { quantity: 50, value: 45.68 },
+    sceeeEnergy: null,
+    compensatedEnergy: { quantity: 526, value: 438.17 },
+    publicLightingContrib: 23.45,
+  };
+
+  const meta = {
+    promptVersion: 'v1',
+    provider: 'recorded',
+    model: 'gpt-4o',
+    tolerance: 0.01,
+  };
+
+  describe('compareValues', () => {
+    it('should accept numbers within the tolerance and normalized text', () => {
+      expect(compareValues(45.67, 45.68, 0.01)).toMatchObject({
+        exact: false,
+        withinTolerance: true,
+      });
+      expect(compareValues(45.67, 45.7, 0.01)).toMatchObject({
+        exact: false,
+        withinTolerance: false,
+      });
+      expect(compareValues('SET/2024', ' set/2024', 0.01)).toMatchObject({
+        exact: false,
+        withinTolerance: true,
+      });
+      expect(compareValues(null, null, 0.01)).toMatchObject({
+        exact: true,
+        withinTolerance: true,
+      });
+    });
+  });
+
+  describe('scoreFixture', () => {
+    it('should score only fields defined in the expected sidecar', () => {
+      const result = scoreFixture('cemig-set-2024', expected, extracted, 0.01);
+
+      expect(Object.keys(result.fields)).toEqual([
+        'customerNumber',
+        'referenceMonth',
+        'electricEnergy.quantity',
+        'electricEnergy.value',
+        'sceeeEnergy.quantity',
+        'sceeeEnergy.value',
+      ]);
+      expect(result.fields['referenceMonth']).toMatchObject({
+        exact: false,
+        withinTolerance: true,
+      });
+      expect(result.fields['sceeeEnergy.value']).toMatchObject({
+        expected: 392.5,
+        actual: null,
+        withinTolerance: false,
+      });
+      expect(result.optionalItems).toEqual({
+        sceeeEnergy: { expected: true, predicted: false },
+        compensatedEnergy: { expected: false, predicted: true },
+      });
+    });
+
+    it('should count every field as wrong when the extraction failed', () => {
+      const result = scoreFixture('falha', expected, null, 0.01);
+
+      expect(
+        Object.values(result.fields).every(field => !field.withinTolerance),
+      ).toBe(true);
+      expect(result.optionalItems.sceeeEnergy.predicted).toBe(false);
+    });
+  });
+
+  describe('buildReport', () => {
+    it('should aggregate field accuracy and optional item precision/recall', () => {
+      const report = buildReport(meta, [
+        {
+          ...scoreFixture('a', expected, extracted, 0.01),
+          totalTokens: 1500,
+          costUsd: 0.0075,
+          latencyMs: 900,
+        },
+        {
+          ...scoreFixture(
+            'b',
+            expected,
+            { ...extracted, sceeeEnergy: { quantity: 476, value: 392.5 } },
+            0.01,
+          ),
+        },
+        {
+          ...scoreFixture('c', expected, null, 0.01),
+          errorCode: 'INVALID_JSON',
+          latencyMs: 100,
+        },
+      ]);
+
+      expect(report.failures).toBe(1);
+      expect(
+        report.fields.find(field => field.field === 'electricEnergy.value'),
+      ).toEqual({
+        field: 'electricEnergy.value',
+        evaluated: 3,
+        exact: 0,
+        withinTolerance: 2,
+        exactAccuracy: 0,
+        toleranceAccuracy: 0.6667,
+      });
+      expect(report.optionalItems).toEqual([
+        {
+          item: 'sceeeEnergy',
+          truePositives: 1,
+          falsePositives: 0,
+          falseNegatives: 2,
+          precision: 1,
+          recall: 0.3333,
+        },
+        {
+          item: 'compensatedEnergy',
+          truePositives: 0,
+          falsePositives: 2,
+          falseNegatives: 0,
+          precision: 0,
+          recall: null,
+        },
+      ]);
+      expect(report.totals).toEqual({
+        totalTokens: 1500,
+        costUsd: 0.0075,
+        averageLatencyMs: 500,
+      });
+    });
+  });
+
+  describe('compareReports', () => {
+    it('should list per-fixture regressions and accuracy deltas between two runs', () => {
+      const baseline = buildReport(meta, [
+        scoreFixture('a', expected, extracted, 0.01),
+      ]);
+      const candidate = buildReport({ ...meta, promptVersion: 'v2' }, [
+        scoreFixture(
+          'a',
+          expected,
+          {
+            ...extracted,
+            customerNumber: '720221072',
+            sceeeEnergy: { quantity: 476, value: 392.5 },
+          },
+          0.01,
+        ),
+        scoreFixture('b', expected, extracted, 0.01),
+      ]);
+
+      const diff = compareReports(baseline, candidate);
+
+      expect(diff.candidate.promptVersion).toBe('v2');
+      expect(diff.regressions).toEqual([
+        {
+          fixture: 'a',
+          field: 'customerNumber',
+          baseline: '7202210726',
+          candidate: '720221072',
+        },
+      ]);
+      expect(diff.improvements.map(change => change.field)).toEqual([
+        'sceeeEnergy.quantity',
+        'sceeeEnergy.value',
+      ]);
+      expect(diff.missingFixtures).toEqual(['b']);
+      expect(
+        diff.fields.find(field => field.field === 'customerNumber')
+          .exactAccuracyDelta,
+      ).toBe(-0.5);
+    });
+  });
+
+  describe('RecordedExtractionProvider', () => {
+    let recordingsDir: string;
+    const request = { systemPrompt: 'sistema', userPrompt: 'fatura' };
+
+    beforeEach(async () => {
+      recordingsDir = await mkdtemp(join(tmpdir(), 'recordings-'));
+    });
+
+    afterEach(async () => {
+      await rm(recordingsDir, { recursive: true, force: true });
+    });
+
+    it('should record responses from the source provider and replay them offline', async () => {
+      const source = new OfflineExtractionProvider();
+      const recorded = await new RecordedExtractionProvider(
+        recordingsDir,
+        'record',
+        source,
+      ).complete(request);
+
+      expect(await readdir(recordingsDir)).toEqual([
+        `${RecordedExtractionProvider.requestKey(request)}.json`,
+      ]);
+      const replayed = await new RecordedExtractionProvider(
+        recordingsDir,
+      ).complete({
+        ...request,
+        signal: new AbortController().signal,
+      });
+      expect(replayed).toEqual(recorded);
+    });
+
+    it('should fail when the request was never recorded', async () => {
+      const provider = new RecordedExtractionProvider(recordingsDir);
+
+      await expect(
+        provider.complete({ ...request, userPrompt: 'outra fatura' }),
+      ).rejects.toThrow('Nenhuma resposta gravada');
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import 'reflect-metadata';
+import { LlmExtractionResponseDto } from '../dto/llm-extraction.dto';
+import {
+  buildExtractionSchema,
+  buildJsonSchema,
+  validateJsonSchema,
+} from '../schema/extraction-schema';
+
+describe('extraction schema', () => {
+  const schema = buildExtractionSchema(['customerNumber', 'referenceMonth']);
+
+  const validResponse = {
+    customerNumber: '7202210726',
+    referenceMonth: 'SET/2024',
+    electricEnergy: { quantity: 50, value: 45.67 },
+    sceeeEnergy: null,
+    publicLightingContrib: 23.45,
+  };
+
+  describe('buildJsonSchema', () => {
+    it('should derive a strict schema from the DTO decorators', () => {
+      const dtoSchema = buildJsonSchema(LlmExtractionResponseDto);
+
+      expect(dtoSchema.additionalProperties).toBe(false);
+      expect(dtoSchema.required).toEqual(Object.keys(dtoSchema.properties));
+      expect(dtoSchema.properties.customerNumber).toEqual({ type: 'string' });
+      expect(dtoSchema.properties.electricEnergy).toMatchObject({
+        type: 'object',
+        properties: { quantity: { type: 'number' }, value: { type: 'number' } },
+      });
+      // Opcionais continuam obrigatórios no formato estrito, mas aceitam null
+      expect(dtoSchema.properties.publicLightingContrib).toEqual({
+        type: ['number', 'null'],
+      });
+      expect(
+        dtoSchema.properties.lineItems.anyOf ??
+          dtoSchema.properties.lineItems.type,
+      ).toContain('null');
+    });
+
+    it('should leave fields filled by the application out of the model contract', () => {
+      expect(schema.properties.textSource).toBeUndefined();
+      expect(schema.properties.fieldProvenance).toBeUndefined();
+      expect(schema.required).toContain('evidence');
+    });
+  });
+
+  describe('validateJsonSchema', () => {
+    it('should accept a valid response with omitted nullable fields', () => {
+      expect(validateJsonSchema(schema, validResponse)).toEqual([]);
+    });
+
+    it('should report missing required fields and wrong types with their path', () => {
+      const errors = validateJsonSchema(schema, {
+        referenceMonth: 'SET/2024',
+        electricEnergy: { quantity: '50', value: 45.67 },
+      });
+
+      expect(errors).toEqual([
+        '$.customerNumber: campo obrigatório ausente',
+        '$.electricEnergy.quantity: esperado number, recebido string',
+      ]);
+    });
+
+    it('should reject unexpected properties', () => {
+      expect(
+        validateJsonSchema(schema, { ...validResponse, supplier: 'CEMIG' }),
+      ).toEqual(['$.supplier: propriedade não prevista']);
+    });
+
+    it('should validate nested evidence entries', () => {
+      const errors = validateJsonSchema(schema, {
+        ...validResponse,
+        evidence: {
+          customerNumber: { confidence: 'alta', snippet: 'Nº DO CLIENTE' },
+        },
+      });
+
+      expect(errors).toEqual([
+        '$.evidence.customerNumber.confidence: esperado number, recebido string',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import { ConfigService } from '@nestjs/config';
+import { LlmProviderUnavailableException, LlmResilienceService } from '../resilience/llm-resilience.service';
+import { CircuitBreaker, CircuitState } from '../resilience/circuit-breaker';
+import { computeBackoffMs, getRetryAfterMs, isTransientError } from '../resilience/retry-policy';
+import { TokenBucket } from '../resilience/token-bucket';
+
+describe('LlmResilienceService', () => {
+  let service: LlmResilienceService;
+  let sleep: jest.SpyInstance;
+
+  const createService = (values: Record<string, string> = {}) =>
+    new LlmResilienceService({
+      get: jest.fn((key: string) => values[key]),
+    } as unknown as ConfigService);
+
+  const apiError = (status: number, headers: Record<string, string> = {}) =>
+    Object.assign(new Error(`HTTP ${status}`), { status, headers });
+
+  beforeEach(() => {
+    service = createService({ LLM_MAX_RETRIES: '2', LLM_CIRCUIT_FAILURE_THRESHOLD: '5' });
+    sleep = jest.spyOn(service as any, 'sleep').mockResolvedValue(undefined);
+  });
+
+  describe('execute', () => {
+    it('should retry transient errors and return the first success', async () => {
+      const operation = jest
+        .fn()
+        .mockRejectedValueOnce(apiError(503))
+        .mockResolvedValueOnce('ok');
+
+      await expect(service.execute(operation)).resolves.toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(sleep).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait for Retry-After on 429', async () => {
+      const operation = jest
+        .fn()
+        .mockRejectedValueOnce(apiError(429, { 'retry-after': '2' }))
+        .mockResolvedValueOnce('ok');
+
+      await service.execute(operation);
+
+      expect(sleep).toHaveBeenCalledWith(2000);
+    });
+
+    it('should not retry errors that would repeat', async () => {
+      const operation = jest.fn().mockRejectedValue(apiError(400));
+
+      await expect(service.execute(operation)).rejects.toThrow('HTTP 400');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report the provider as unavailable after exhausting the retries', async () => {
+      const operation = jest.fn().mockRejectedValue(apiError(500));
+
+      await expect(service.execute(operation)).rejects.toThrow(LlmProviderUnavailableException);
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should abort calls that exceed the timeout', async () => {
+      let aborted = false;
+      const operation = jest.fn((signal: AbortSignal) => {
+        signal.addEventListener('abort', () => (aborted = true));
+        return new Promise(() => undefined);
+      });
+      service = createService({ LLM_MAX_RETRIES: '0' });
+
+      await expect(service.execute(operation, 10)).rejects.toThrow('excedeu 10ms');
+      expect(aborted).toBe(true);
+    });
+
+    it('should open the circuit and stop calling the provider', async () => {
+      service = createService({ LLM_MAX_RETRIES: '0', LLM_CIRCUIT_FAILURE_THRESHOLD: '2' });
+      const operation = jest.fn().mockRejectedValue(apiError(502));
+
+      await expect(service.execute(operation)).rejects.toThrow(LlmProviderUnavailableException);
+      await expect(service.execute(operation)).rejects.toThrow(LlmProviderUnavailableException);
+      await expect(service.execute(operation)).rejects.toThrow('circuito aberto');
+
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(service.isAvailable()).toBe(false);
+      expect(service.getCircuitState().state).toBe(CircuitState.OPEN);
+    });
+
+    it('should reject concurrent calls while the half-open trial is running', async () => {
+      let now = 0;
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+      service = createService({ LLM_MAX_RETRIES: '0', LLM_CIRCUIT_FAILURE_THRESHOLD: '1', LLM_CIRCUIT_RESET_MS: '1000' });
+      await expect(service.execute(jest.fn().mockRejectedValue(apiError(503)))).rejects.toThrow(
+        LlmProviderUnavailableException,
+      );
+
+      now = 1000;
+      let finishTrial: (value: string) => void;
+      const trial = jest.fn(() => new Promise<string>(resolve => (finishTrial = resolve)));
+      const other = jest.fn().mockResolvedValue('ok');
+      const running = service.execute(trial);
+
+      await expect(service.execute(other)).rejects.toThrow('circuito em teste');
+      expect(other).not.toHaveBeenCalled();
+
+      finishTrial('ok');
+      await expect(running).resolves.toBe('ok');
+      await expect(service.execute(other)).resolves.toBe('ok');
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe('rate limit', () => {
+    it('should wait for request capacity before calling the provider', async () => {
+      let now = 0;
+      const clock = jest.spyOn(Date, 'now').mockImplementation(() => now);
+      service = createService({ LLM_RATE_LIMIT_RPM: '2' });
+      sleep = jest.spyOn(service as any, 'sleep').mockImplementation(async (ms: number) => {
+        now += ms;
+      });
+      const operation = jest.fn().mockResolvedValue('ok');
+
+      await service.execute(operation);
+      await service.execute(operation);
+      expect(sleep).not.toHaveBeenCalled();
+
+      await service.execute(operation);
+      clock.mockRestore();
+
+      expect(sleep).toHaveBeenCalledWith(30000);
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should charge the tokens reported by the provider', async () => {
+      service = createService({ LLM_RATE_LIMIT_TPM: '10000' });
+      jest.spyOn(service as any, 'sleep').mockResolvedValue(undefined);
+
+      await service.execute(jest.fn().mockResolvedValue('ok'), 1000, 2000);
+      service.recordTokenUsage(2000, 5000);
+
+      expect(service.getRateLimitState()).toEqual({
+        requestsPerMinute: null,
+        tokensPerMinute: { capacity: 10000, available: 5000 },
+      });
+    });
+  });
+
+  describe('TokenBucket', () => {
+    it('should refill continuously and let oversized requests wait for a full bucket', () => {
+      let now = 0;
+      const bucket = new TokenBucket(60, 60000, () => now);
+
+      bucket.take(60);
+      expect(bucket.waitTime(1)).toBe(1000);
+
+      now = 30000;
+      expect(bucket.waitTime(30)).toBe(0);
+      expect(bucket.waitTime(100)).toBe(30000);
+
+      bucket.take(-100);
+      expect(bucket.getSnapshot()).toEqual({ capacity: 60, available: 60 });
+    });
+  });
+
+  describe('CircuitBreaker', () => {
+    it('should half-open after the reset timeout and close on success', () => {
+      let now = 0;
+      const breaker = new CircuitBreaker(1, 1000, () => now);
+
+      breaker.recordFailure();
+      expect(breaker.canRequest()).toBe(false);
+
+      now = 1000;
+      expect(breaker.canRequest()).toBe(true);
+      expect(breaker.getSnapshot().state).toBe(CircuitState.HALF_OPEN);
+
+      breaker.recordSuccess();
+      expect(breaker.getSnapshot()).toMatchObject({ state: CircuitState.CLOSED, consecutiveFailures: 0 });
+    });
+
+    it('should let a single trial call through while half-open', () => {
+      let now = 0;
+      const breaker = new CircuitBreaker(1, 1000, () => now);
+      breaker.recordFailure();
+
+      now = 1000;
+      expect(breaker.tryAcquire()).toBe(true);
+      expect(breaker.tryAcquire()).toBe(false);
+      expect(breaker.canRequest()).toBe(false);
+
+      breaker.release();
+      expect(breaker.tryAcquire()).toBe(true);
+      breaker.recordSuccess();
+      expect(breaker.tryAcquire()).toBe(true);
+      expect(breaker.tryAcquire()).toBe(true);
+    });
+
+    it('should reopen when the trial call fails', () => {
+      let now = 0;
+      const breaker = new CircuitBreaker(3, 1000, () => now);
+      breaker.recordFailure();
+      breaker.recordFailure();
+      breaker.recordFailure();
+
+      now = 1500;
+      breaker.canRequest();
+
+      expect(breaker.recordFailure()).toBe(true);
+      expect(breaker.getSnapshot()).toMatchObject({
+        state: CircuitState.OPEN,
+        retryAt: new Date(2500).toISOString(),
+      });
+    });
+  });
+
+  describe('retry policy', () => {
+    it('should classify transient errors', () => {
+      expect(isTransientError(apiError(429))).toBe(true);
+      expect(isTransientError(apiError(503))).toBe(true);
+      expect(isTransientError(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toBe(true);
+      expect(isTransientError(apiError(401))).toBe(false);
+      expect(isTransientError(new Error('JSON inválido'))).toBe(false);
+    });
+
+    it('should read Retry-After in milliseconds, seconds or HTTP date', () => {
+      const now = Date.parse('2024-10-19T12:00:00Z');
+
+      expect(getRetryAfterMs(apiError(429, { 'retry-after-ms': '350' }), now)).toBe(350);
+      expect(getRetryAfterMs(apiError(429, { 'retry-after': '3' }), now)).toBe(3000);
+      expect(getRetryAfterMs(apiError(429, { 'retry-after': 'Sat, 19 Oct 2024 12:00:05 GMT' }), now)).toBe(5000);
+      expect(getRetryAfterMs(apiError(429), now)).toBeNull();
+    });
+
+    it('should cap the jittered backoff', () => {
+      expect(computeBackoffMs(0, 1000, 30000, () => 0.5)).toBe(500);
+      expect(computeBackoffMs(3, 1000, 30000, () => 1)).toBe(8000);
+      expect(computeBackoffMs(10, 1000, 30000, () => 1)).toBe(30000);
+    });
+  });
+});
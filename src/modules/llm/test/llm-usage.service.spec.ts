@@ -0,0 +1,94 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { LlmBudgetExceededException, LlmUsageService } from '../usage/llm-usage.service';
+import { PrismaService } from '../../prisma/prisma.service';
+
+describe('LlmUsageService', () => {
+  let service: LlmUsageService;
+  let config: Record<string, string>;
+
+  const mockPrismaService = {
+    extractionRun: {
+      aggregate: jest.fn(),
+    },
+  };
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LlmUsageService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    return module.get<LlmUsageService>(LlmUsageService);
+  };
+
+  beforeEach(async () => {
+    config = {};
+    jest.clearAllMocks();
+    service = await createService();
+  });
+
+  describe('calculateCost', () => {
+    const usage = { promptTokens: 1000, completionTokens: 500, totalTokens: 1500 };
+
+    it('should price the model by the longest matching prefix', () => {
+      // gpt-4o-mini: US$ 0,15 / 0,60 por 1M tokens
+      expect(service.calculateCost('openai', 'gpt-4o-mini-2024-07-18', usage)).toBe(0.00045);
+      // gpt-4o: US$ 2,50 / 10,00 por 1M tokens
+      expect(service.calculateCost('openai', 'gpt-4o-2024-08-06', usage)).toBe(0.0075);
+    });
+
+    it('should not charge cached responses, local models or the rule extractor', () => {
+      expect(service.calculateCost('openai', 'gpt-4o', usage, true)).toBe(0);
+      expect(service.calculateCost('local', 'llama3.1', usage)).toBe(0);
+      expect(service.calculateCost('rules', 'cemig-rule-extractor')).toBe(0);
+    });
+
+    it('should leave unknown models without cost', () => {
+      expect(service.calculateCost('openai', 'modelo-desconhecido', usage)).toBeNull();
+    });
+
+    it('should use prices from LLM_PRICE_TABLE', async () => {
+      config.LLM_PRICE_TABLE = JSON.stringify({ 'modelo-proprio': { input: 1, output: 2 } });
+      service = await createService();
+
+      expect(service.calculateCost('openai', 'modelo-proprio', usage)).toBe(0.002);
+    });
+  });
+
+  describe('assertWithinBudget', () => {
+    it('should skip the query when no budget is configured', async () => {
+      await expect(service.assertWithinBudget()).resolves.toBeUndefined();
+      expect(mockPrismaService.extractionRun.aggregate).not.toHaveBeenCalled();
+    });
+
+    it('should throw once the monthly spend reaches the budget', async () => {
+      config.LLM_MONTHLY_BUDGET_USD = '5';
+      mockPrismaService.extractionRun.aggregate.mockResolvedValue({ _sum: { costUsd: 5.01 } });
+
+      await expect(service.assertWithinBudget()).rejects.toThrow(LlmBudgetExceededException);
+    });
+
+    it('should sum only the current month', async () => {
+      config.LLM_MONTHLY_BUDGET_USD = '5';
+      mockPrismaService.extractionRun.aggregate.mockResolvedValue({ _sum: { costUsd: 1.5 } });
+
+      const status = await service.getBudgetStatus(new Date('2024-10-19T15:00:00Z'));
+
+      expect(mockPrismaService.extractionRun.aggregate).toHaveBeenCalledWith({
+        where: { createdAt: { gte: new Date('2024-10-01T00:00:00Z') } },
+        _sum: { costUsd: true },
+      });
+      expect(status).toEqual({ month: 'OUT/2024', budgetUsd: 5, spentUsd: 1.5, remainingUsd: 3.5, exceeded: false });
+    });
+  });
+});
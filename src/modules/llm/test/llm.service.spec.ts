@@ -1,12 +1,34 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ConfigService } from '@nestjs/config';
-import { BadRequestException } from '@nestjs/common';
-import { LlmService } from '../llm.service';
-import { LlmExtractionResponseDto } from '../dto/llm-extraction.dto';
+import { createHash } from 'node:crypto';
+import { LlmService, PROMPT_VERSION } from '../llm.service';
+import {
+  LlmExtractionResponseDto,
+  TextSource,
+  LineItemCategory,
+  ExtractionOutcome,
+  ExtractionErrorCode,
+  DistributorCode,
+  PiiType,
+} from '../dto/llm-extraction.dto';
+import { ExtractionException } from '../extraction.exception';
+import { EXTRACTION_SCHEMA_NAME } from '../schema/extraction-schema';
+import { EXTRACTION_PROVIDER } from '../providers/extraction-provider.interface';
+import { createExtractionProvider } from '../providers/extraction-provider.factory';
+import { OfflineExtractionProvider } from '../providers/offline.provider';
+import { LocalHttpExtractionProvider } from '../providers/local-http.provider';
+import { RecordedExtractionProvider } from '../providers/recorded.provider';
+import { CemigRuleExtractor } from '../extractors/cemig-rule.extractor';
+import { OcrService } from '../ocr/ocr.service';
+import { ExtractionRunService } from '../runs/extraction-run.service';
+import { ExtractionCacheService } from '../cache/extraction-cache.service';
+import { LlmUsageService } from '../usage/llm-usage.service';
+import { LlmResilienceService } from '../resilience/llm-resilience.service';
+import { RedactionService } from '../redaction/redaction.service';
+import { redactPii } from '../redaction/pii-redactor';
 
 describe('LlmService', () => {
   let service: LlmService;
-  let configService: ConfigService;
 
   // Mock data para testes
   const mockExtractedData: LlmExtractionResponseDto = {
@@ -27,26 +49,82 @@ describe('LlmService', () => {
     publicLightingContrib: 23.45,
   };
 
-  const mockConfigService = {
-    get: jest.fn((key: string) => {
-      if (key === 'OPENAI_API_KEY') return 'test-api-key';
-      return undefined;
-    }),
+  const mockExtractionProvider = {
+    name: 'openai',
+    model: 'gpt-4o',
+    complete: jest.fn(),
+  };
+
+  const mockOcrService = {
+    isEnabled: jest.fn(() => true),
+    recognizePdf: jest.fn(),
+  };
+
+  const mockExtractionRunService = {
+    record: jest.fn(),
+  };
+
+  const mockExtractionCacheService = {
+    isEnabled: jest.fn(() => true),
+    get: jest.fn(),
+    set: jest.fn(),
+  };
+
+  const mockLlmUsageService = {
+    calculateCost: jest.fn(() => 0.0075),
+  };
+
+  const mockLlmResilienceService = {
+    execute: jest.fn((operation: (signal: AbortSignal) => Promise<unknown>) => operation(new AbortController().signal)),
+    recordTokenUsage: jest.fn(),
+  };
+
+  const mockRedactionService = {
+    redact: jest.fn((text: string) => redactPii(text, 'test-key')),
+    record: jest.fn(),
   };
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         LlmService,
+        CemigRuleExtractor,
+        {
+          provide: OcrService,
+          useValue: mockOcrService,
+        },
+        {
+          provide: EXTRACTION_PROVIDER,
+          useValue: mockExtractionProvider,
+        },
+        {
+          provide: ExtractionRunService,
+          useValue: mockExtractionRunService,
+        },
+        {
+          provide: ExtractionCacheService,
+          useValue: mockExtractionCacheService,
+        },
+        {
+          provide: LlmUsageService,
+          useValue: mockLlmUsageService,
+        },
+        {
+          provide: LlmResilienceService,
+          useValue: mockLlmResilienceService,
+        },
+        {
+          provide: RedactionService,
+          useValue: mockRedactionService,
+        },
         {
           provide: ConfigService,
-          useValue: mockConfigService,
+          useValue: { get: jest.fn() },
         },
       ],
     }).compile();
 
     service = module.get<LlmService>(LlmService);
-    configService = module.get<ConfigService>(ConfigService);
   });
 
   it('should be defined', () => {
@@ -79,6 +157,512 @@ describe('LlmService', () => {
     });
   });
 
+  describe('extractBillData', () => {
+    const pdfData = {
+      filePath: '/uploads/fatura.pdf',
+      fileName: 'fatura.pdf',
+      fileBuffer: Buffer.from('fake pdf content'),
+    };
+
+    const cemigText = `CEMIG DISTRIBUIÇÃO S.A.
+Nº DO CLIENTE             Nº DA INSTALAÇÃO
+   7202210726                3001116735
+Referente a               Vencimento              Valor a pagar (R$)
+   SET/2024                 05/10/2024              69,12
+Itens da FaturaUnid.QuantPreço UnitValor (R$)
+Energia ElétricakWh       50     0,91340000       45,67 0,65313000
+Contrib Ilum Publica Municipal     23,45
+TOTAL      69,12`;
+
+    beforeEach(() => {
+      mockExtractionProvider.complete.mockReset();
+      mockOcrService.recognizePdf.mockReset();
+      mockExtractionRunService.record.mockReset();
+      mockExtractionCacheService.get.mockReset().mockResolvedValue(null);
+      mockExtractionCacheService.set.mockReset();
+      mockLlmResilienceService.execute.mockClear();
+    });
+
+    it('should use the rule-based result without calling the provider', async () => {
+      jest.spyOn(service as any, 'extractPdfText').mockResolvedValue([cemigText]);
+
+      const result = await service.extractBillData(pdfData);
+
+      expect(mockExtractionProvider.complete).not.toHaveBeenCalled();
+      expect(mockExtractionRunService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ provider: 'rules', outcome: ExtractionOutcome.SUCCESS }),
+      );
+      expect(result.customerNumber).toBe('7202210726');
+      expect(result.electricEnergy).toEqual({ quantity: 50, value: 45.67 });
+      expect(result.publicLightingContrib).toBe(23.45);
+      expect(result.lineItems).toHaveLength(2);
+      expect(result.fieldProvenance.electricEnergy).toEqual({
+        confidence: 1,
+        snippet: 'Energia ElétricakWh       50     0,91340000       45,67 0,65313000',
+        page: 1,
+      });
+    });
+
+    it('should fall back to the provider when rules are not confident', async () => {
+      jest.spyOn(service as any, 'extractPdfText').mockResolvedValue(['Fatura de outra distribuidora']);
+      mockExtractionProvider.complete.mockResolvedValue({
+        content: JSON.stringify(mockExtractedData),
+        model: 'gpt-4o',
+      });
+
+      const result = await service.extractBillData(pdfData);
+
+      expect(mockExtractionProvider.complete).toHaveBeenCalledTimes(1);
+      expect(mockExtractionProvider.complete).toHaveBeenCalledWith(
+        expect.objectContaining({ signal: expect.any(AbortSignal) }),
+      );
+      expect(mockLlmResilienceService.execute).toHaveBeenCalledTimes(1);
+      expect(result).toMatchObject({ ...mockExtractedData, textSource: TextSource.NATIVE });
+    });
+
+    it('should reserve estimated tokens for the rate limit and settle them with the reported usage', async () => {
+      jest.spyOn(service as any, 'extractPdfText').mockResolvedValue(['Fatura de outra distribuidora']);
+      mockExtractionProvider.complete.mockResolvedValue({
+        content: JSON.stringify(mockExtractedData),
+        model: 'gpt-4o',
+        usage: { promptTokens: 900, completionTokens: 300, totalTokens: 1200 },
+      });
+
+      await service.extractBillData(pdfData);
+
+      const [, , estimatedTokens] = mockLlmResilienceService.execute.mock.calls[0] as unknown[];
+      expect(estimatedTokens).toBeGreaterThan(1500);
+      expect(mockLlmResilienceService.recordTokenUsage).toHaveBeenCalledWith(estimatedTokens, 1200);
+    });
+
+    it('should apply the detected distributor profile to the prompt and line items', async () => {
+      jest.spyOn(service as any, 'extractPdfText').mockResolvedValue([
+        'CPFL Paulista CNPJ 33.050.196/0001-88\nSeu Código 4001234567',
+      ]);
+      const extractRules = jest.spyOn(CemigRuleExtractor.prototype, 'extract');
+      mockExtractionProvider.complete.mockResolvedValue({
+        content: JSON.stringify({
+          ...mockExtractedData,
+          sceeeEnergy: null,
+          compensatedEnergy: null,
+          distributor: null,
+          lineItems: [
+            { description: 'Consumo Uso Sistema [KWh]-TUSD', unit: 'kWh', quantity: 300, unitPrice: 0.4, value: 120 },
+            { description: 'Consumo - TE', unit: 'kWh', quantity: 300, unitPrice: 0.3, value: 90 },
+            { description: 'Energ Atv Inj. oUC mPT - TUSD', unit: 'kWh', quantity: 200, unitPrice: 0.4, value: -80 },
+          ],
+        }),
+        model: 'gpt-4o',
+      });
+
+      const result = await service.extractBillData(pdfData);
+
+      // Layout sem extrator por regras: vai direto ao provedor
+      expect(extractRules).not.toHaveBeenCalled();
+      expect(mockExtractionProvider.complete).toHaveBeenCalledWith(
+        expect.objectContaining({ userPrompt: expect.stringContaining('Número do cliente: campo "Seu Código"') }),
+      );
+      expect(result.distributorCode).toBe(DistributorCode.CPFL);
+      expect(result.distributor).toBe('CPFL');
+      expect(result.electricEnergy).toEqual({ quantity: 600, value: 210 });
+      expect(result.compensatedEnergy).toEqual({ quantity: 200, value: -80 });
+      extractRules.mockRestore();
+    });
+
+    it('should record the provider run with raw response, tokens and outcome', async () => {
+      jest.spyOn(service as any, 'extractPdfText').mockResolvedValue(['Fatura de outra distribuidora']);
+      const content = JSON.stringify(mockExtractedData);
+      mockExtractionProvider.complete.mockResolvedValue({
+        content,
+        model: 'gpt-4o-2024-08-06',
+        usage: { promptTokens: 1200, completionTokens: 300, totalTokens: 1500 },
+      });
+
+      await service.extractBillData({ ...pdfData, billId: 'bill-1' });
+
+      expect(mockExtractionRunService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          billId: 'bill-1',
+          promptVersion: PROMPT_VERSION,
+          provider: 'openai',
+          model: 'gpt-4o-2024-08-06',
+          textHash: createHash('sha256').update('Fatura de outra distribuidora').digest('hex'),
+          textSource: TextSource.NATIVE,
+          rawResponse: content,
+          parsedJson: mockExtractedData,
+          usage: { promptTokens: 1200, completionTokens: 300, totalTokens: 1500 },
+          latencyMs: expect.any(Number),
+          costUsd: 0.0075,
+          outcome: ExtractionOutcome.SUCCESS,
+        }),
+      );
+      expect(mockLlmUsageService.calculateCost).toHaveBeenCalledWith(
+        'openai',
+        'gpt-4o-2024-08-06',
+        { promptTokens: 1200, completionTokens: 300, totalTokens: 1500 },
+        false,
+      );
+    });
+
+    it('should report text extraction and the provider call to onProgress', async () => {
+      jest.spyOn(service as any, 'extractPdfText').mockResolvedValue(['Fatura de outra distribuidora']);
+      mockExtractionProvider.complete.mockResolvedValue({ content: JSON.stringify(mockExtractedData), model: 'gpt-4o' });
+      const onProgress = jest.fn().mockResolvedValue(undefined);
+
+      await service.extractBillData({ ...pdfData, onProgress });
+
+      expect(onProgress.mock.calls).toEqual([
+        ['text_extracted', { textSource: TextSource.NATIVE, characters: 29, pages: 1 }],
+        ['llm_called', { provider: 'openai', model: 'gpt-4o', cached: false, latencyMs: expect.any(Number) }],
+      ]);
+    });
+
+    it('should record failed runs with the failing stage', async () => {
+      jest.spyOn(service as any, 'extractPdfText').mockResolvedValue(['Fatura de outra distribuidora']);
+      mockExtractionProvider.complete.mockResolvedValue({ content: 'não é json', model: 'gpt-4o' });
+
+      await expect(service.extractBillData(pdfData)).rejects.toThrow(ExtractionException);
+
+      // Uma rodada de reparo por padrão, também sem sucesso
+      expect(mockExtractionProvider.complete).toHaveBeenCalledTimes(2);
+      expect(mockExtractionRunService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          rawResponse: 'não é json',
+          outcome: ExtractionOutcome.INVALID_JSON,
+          errorCode: ExtractionErrorCode.INVALID_JSON,
+          errorMessage: expect.stringContaining('JSON'),
+          repairAttempts: 1,
+        }),
+      );
+    });
+
+    it('should record provider errors', async () => {
+      jest.spyOn(service as any, 'extractPdfText').mockResolvedValue(['Fatura de outra distribuidora']);
+      mockExtractionProvider.complete.mockRejectedValue(new Error('timeout'));
+
+      await expect(service.extractBillData(pdfData)).rejects.toThrow('timeout');
+
+      expect(mockExtractionRunService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          outcome: ExtractionOutcome.PROVIDER_ERROR,
+          errorCode: ExtractionErrorCode.PROVIDER_ERROR,
+          errorMessage: expect.stringContaining('timeout'),
+        }),
+      );
+    });
+
+    it('should fail with PROVIDER_REJECTED when the provider refuses the request', async () => {
+      jest.spyOn(service as any, 'extractPdfText').mockResolvedValue(['Fatura de outra distribuidora']);
+      mockExtractionProvider.complete.mockRejectedValueOnce(
+        Object.assign(new Error('401 Incorrect API key provided'), { status: 401 }),
+      );
+
+      const error = await service.extractBillData(pdfData).catch(e => e);
+
+      expect(error).toBeInstanceOf(ExtractionException);
+      expect(error.code).toBe(ExtractionErrorCode.PROVIDER_REJECTED);
+      expect(error.getStatus()).toBe(424);
+      expect(mockExtractionRunService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          outcome: ExtractionOutcome.PROVIDER_ERROR,
+          errorCode: ExtractionErrorCode.PROVIDER_REJECTED,
+        }),
+      );
+    });
+
+    it('should fail with TRUNCATED_RESPONSE without a repair round when the token limit cuts the answer', async () => {
+      jest.spyOn(service as any, 'extractPdfText').mockResolvedValue(['Fatura de outra distribuidora']);
+      mockExtractionProvider.complete.mockResolvedValueOnce({
+        content: JSON.stringify(mockExtractedData).slice(0, 200),
+        model: 'gpt-4o',
+        truncated: true,
+      });
+
+      const error = await service.extractBillData(pdfData).catch(e => e);
+
+      expect(error).toBeInstanceOf(ExtractionException);
+      expect(error.code).toBe(ExtractionErrorCode.TRUNCATED_RESPONSE);
+      expect(mockExtractionProvider.complete).toHaveBeenCalledTimes(1);
+      expect(mockExtractionRunService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ errorCode: ExtractionErrorCode.TRUNCATED_RESPONSE, repairAttempts: 0 }),
+      );
+    });
+
+    it('should request structured output with the extraction schema', async () => {
+      jest.spyOn(service as any, 'extractPdfText').mockResolvedValue(['Fatura de outra distribuidora']);
+      mockExtractionProvider.complete.mockResolvedValue({
+        content: JSON.stringify(mockExtractedData),
+        model: 'gpt-4o',
+      });
+
+      await service.extractBillData(pdfData);
+
+      const request = mockExtractionProvider.complete.mock.calls[0][0];
+      expect(request.responseSchema.name).toBe(EXTRACTION_SCHEMA_NAME);
+      expect(request.responseSchema.schema.required).toEqual(
+        expect.arrayContaining(['customerNumber', 'referenceMonth', 'electricEnergy', 'evidence']),
+      );
+      expect(request.followUp).toBeUndefined();
+    });
+
+    it('should send validation errors back to the model and accept the repaired response', async () => {
+      jest.spyOn(service as any, 'extractPdfText').mockResolvedValue(['Fatura de outra distribuidora']);
+      const invalid = JSON.stringify({ ...mockExtractedData, electricEnergy: { quantity: '50 kWh', value: 45.67 } });
+      mockExtractionProvider.complete
+        .mockResolvedValueOnce({
+          content: invalid,
+          model: 'gpt-4o',
+          usage: { promptTokens: 1000, completionTokens: 200, totalTokens: 1200 },
+        })
+        .mockResolvedValueOnce({
+          content: JSON.stringify(mockExtractedData),
+          model: 'gpt-4o',
+          usage: { promptTokens: 1300, completionTokens: 200, totalTokens: 1500 },
+        });
+
+      const result = await service.extractBillData(pdfData);
+
+      expect(result.electricEnergy).toEqual({ quantity: 50, value: 45.67 });
+      const repairRequest = mockExtractionProvider.complete.mock.calls[1][0];
+      expect(repairRequest.followUp).toEqual([
+        { role: 'assistant', content: invalid },
+        { role: 'user', content: expect.stringContaining('$.electricEnergy.quantity: número "50 kWh" em formato não reconhecido') },
+      ]);
+      expect(mockExtractionRunService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          outcome: ExtractionOutcome.SUCCESS,
+          repairAttempts: 1,
+          usage: { promptTokens: 2300, completionTokens: 400, totalTokens: 2700 },
+        }),
+      );
+    });
+
+    it('should fail with SCHEMA_VIOLATION when the repair round does not fix the response', async () => {
+      jest.spyOn(service as any, 'extractPdfText').mockResolvedValue(['Fatura de outra distribuidora']);
+      mockExtractionProvider.complete.mockResolvedValue({
+        content: JSON.stringify({ ...mockExtractedData, supplier: 'CEMIG' }),
+        model: 'gpt-4o',
+      });
+
+      const error = await service.extractBillData(pdfData).catch(e => e);
+
+      expect(error).toBeInstanceOf(ExtractionException);
+      expect(error.code).toBe(ExtractionErrorCode.SCHEMA_VIOLATION);
+      expect(error.getStatus()).toBe(422);
+      expect(error.details).toContain('$.supplier: propriedade não prevista');
+      expect(mockExtractionRunService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          outcome: ExtractionOutcome.VALIDATION_ERROR,
+          errorCode: ExtractionErrorCode.SCHEMA_VIOLATION,
+        }),
+      );
+    });
+
+    it('should mask personal data before calling the provider and restore it in the response', async () => {
+      const billText = `LIGHT SERVIÇOS DE ELETRICIDADE S.A.
+Nome: MARIA DA SILVA  CPF: 123.456.789-09
+Rua das Flores, 100 - Centro
+Código do Cliente 4012345678
+Referência SET/2024`;
+      jest.spyOn(service as any, 'extractPdfText').mockResolvedValue([billText]);
+      mockRedactionService.record.mockClear();
+      mockExtractionProvider.complete.mockResolvedValue({
+        content: JSON.stringify({
+          ...mockExtractedData,
+          customerNumber: '[CUSTOMER_NUMBER_1]',
+          evidence: { customerNumber: { confidence: 0.9, snippet: 'Código do Cliente [CUSTOMER_NUMBER_1]' } },
+        }),
+        model: 'gpt-4o',
+      });
+
+      const result = await service.extractBillData({ ...pdfData, billId: 'bill-1' });
+
+      const { userPrompt } = mockExtractionProvider.complete.mock.calls[0][0];
+      expect(userPrompt).not.toContain('123.456.789-09');
+      expect(userPrompt).not.toContain('MARIA DA SILVA');
+      expect(userPrompt).not.toContain('Rua das Flores');
+      expect(userPrompt).not.toContain('4012345678');
+      expect(userPrompt).toContain('Código do Cliente [CUSTOMER_NUMBER_1]');
+      expect(result.customerNumber).toBe('4012345678');
+      expect(result.fieldProvenance.customerNumber).toMatchObject({ snippet: 'Código do Cliente 4012345678', page: 1 });
+      expect(mockRedactionService.record).toHaveBeenCalledWith(
+        'bill-1',
+        expect.objectContaining({
+          entries: expect.arrayContaining([
+            expect.objectContaining({ type: PiiType.CPF, placeholder: '[CPF_1]', occurrences: 1 }),
+            expect.objectContaining({ type: PiiType.CUSTOMER_NUMBER, placeholder: '[CUSTOMER_NUMBER_1]' }),
+          ]),
+        }),
+      );
+      expect(mockExtractionRunService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ parsedJson: expect.objectContaining({ customerNumber: '[CUSTOMER_NUMBER_1]' }) }),
+      );
+    });
+
+    it('should parse pt-BR numbers and dates returned as text by the provider', async () => {
+      jest.spyOn(service as any, 'extractPdfText').mockResolvedValue(['Fatura de outra distribuidora']);
+      mockExtractionProvider.complete.mockResolvedValue({
+        content: JSON.stringify({
+          ...mockExtractedData,
+          electricEnergy: { quantity: '1.250', value: 'R$ 1.141,75' },
+          compensatedEnergy: { quantity: '476', value: '232,50-' },
+          dueDate: '15/10/2024',
+          totalAmount: 'R$ 1.234,56',
+        }),
+        model: 'gpt-4o',
+      });
+
+      const result = await service.extractBillData(pdfData);
+
+      expect(result.electricEnergy).toEqual({ quantity: 1250, value: 1141.75 });
+      expect(result.compensatedEnergy).toEqual({ quantity: 476, value: -232.5 });
+      expect(result.dueDate).toBe('2024-10-15');
+      expect(result.totalAmount).toBe(1234.56);
+    });
+
+    it('should fail with UNPARSEABLE_FIELD instead of coercing unreadable values to zero', async () => {
+      jest.spyOn(service as any, 'extractPdfText').mockResolvedValue(['Fatura de outra distribuidora']);
+      mockExtractionProvider.complete.mockResolvedValue({
+        content: JSON.stringify({ ...mockExtractedData, totalAmount: 'n/d', dueDate: '31/02/2024' }),
+        model: 'gpt-4o',
+      });
+
+      const error = await service.extractBillData(pdfData).catch(e => e);
+
+      expect(error).toBeInstanceOf(ExtractionException);
+      expect(error.code).toBe(ExtractionErrorCode.UNPARSEABLE_FIELD);
+      expect(error.getStatus()).toBe(422);
+      expect(error.details).toEqual([
+        '$.dueDate: data "31/02/2024" em formato não reconhecido',
+        '$.totalAmount: número "n/d" em formato não reconhecido',
+      ]);
+    });
+
+    it('should reuse the cached response without calling the provider', async () => {
+      jest.spyOn(service as any, 'extractPdfText').mockResolvedValue(['Fatura de outra distribuidora']);
+      mockExtractionCacheService.get.mockResolvedValue({
+        content: JSON.stringify(mockExtractedData),
+        model: 'gpt-4o',
+      });
+
+      const result = await service.extractBillData({ ...pdfData, billId: 'bill-1' });
+
+      expect(mockExtractionCacheService.get).toHaveBeenCalledWith({
+        textHash: createHash('sha256').update('Fatura de outra distribuidora').digest('hex'),
+        promptVersion: PROMPT_VERSION,
+        model: 'gpt-4o',
+      });
+      expect(mockExtractionProvider.complete).not.toHaveBeenCalled();
+      expect(mockExtractionCacheService.set).not.toHaveBeenCalled();
+      expect(result.customerNumber).toBe('7202210726');
+      expect(mockExtractionRunService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ billId: 'bill-1', cached: true, outcome: ExtractionOutcome.SUCCESS }),
+      );
+    });
+
+    it('should store successful provider responses in the cache', async () => {
+      jest.spyOn(service as any, 'extractPdfText').mockResolvedValue(['Fatura de outra distribuidora']);
+      const completion = { content: JSON.stringify(mockExtractedData), model: 'gpt-4o' };
+      mockExtractionProvider.complete.mockResolvedValue(completion);
+
+      await service.extractBillData(pdfData);
+
+      expect(mockExtractionCacheService.set).toHaveBeenCalledWith(
+        expect.objectContaining({ promptVersion: PROMPT_VERSION, model: 'gpt-4o' }),
+        'openai',
+        completion,
+      );
+    });
+
+    it('should not cache invalid responses', async () => {
+      jest.spyOn(service as any, 'extractPdfText').mockResolvedValue(['Fatura de outra distribuidora']);
+      mockExtractionProvider.complete.mockResolvedValue({ content: 'não é json', model: 'gpt-4o' });
+
+      await expect(service.extractBillData(pdfData)).rejects.toThrow(ExtractionException);
+
+      expect(mockExtractionCacheService.set).not.toHaveBeenCalled();
+    });
+
+    it('should skip the cache lookup when bypassCache is set', async () => {
+      jest.spyOn(service as any, 'extractPdfText').mockResolvedValue(['Fatura de outra distribuidora']);
+      mockExtractionProvider.complete.mockResolvedValue({
+        content: JSON.stringify(mockExtractedData),
+        model: 'gpt-4o',
+      });
+
+      await service.extractBillData({ ...pdfData, bypassCache: true });
+
+      expect(mockExtractionCacheService.get).not.toHaveBeenCalled();
+      expect(mockExtractionProvider.complete).toHaveBeenCalledTimes(1);
+      expect(mockExtractionCacheService.set).toHaveBeenCalled();
+    });
+
+    it('should attach confidence and page to fields reported by the model', async () => {
+      jest.spyOn(service as any, 'extractPdfText').mockResolvedValue([
+        'Capa da fatura',
+        'Nº DO CLIENTE 7202210726\nReferente a SET/2024',
+      ]);
+      mockExtractionProvider.complete.mockResolvedValue({
+        content: JSON.stringify({
+          ...mockExtractedData,
+          evidence: {
+            customerNumber: { confidence: 0.95, snippet: 'Nº DO CLIENTE 7202210726' },
+            referenceMonth: { confidence: 0.9, snippet: 'SET/2099' },
+          },
+        }),
+        model: 'gpt-4o',
+      });
+
+      const result = await service.extractBillData(pdfData);
+
+      expect(result.fieldProvenance.customerNumber).toEqual({
+        confidence: 0.95,
+        snippet: 'Nº DO CLIENTE 7202210726',
+        page: 2,
+      });
+      // Trecho inexistente no texto: confiança reduzida e sem página
+      expect(result.fieldProvenance.referenceMonth.confidence).toBe(0.45);
+      expect(result.fieldProvenance.referenceMonth.page).toBeUndefined();
+      // Sem evidência informada: confiança padrão reduzida
+      expect(result.fieldProvenance.electricEnergy.confidence).toBe(0.25);
+    });
+
+    it('should extract only the pages of the requested segment', async () => {
+      jest.spyOn(service as any, 'extractPdfText').mockResolvedValue([
+        'Fatura de AGO/2024',
+        'Capa da fatura',
+        cemigText,
+      ]);
+
+      const result = await service.extractBillData({ ...pdfData, pageRange: { start: 2, end: 3 } });
+
+      expect(result.referenceMonth).toBe('SET/2024');
+      // Página contada a partir do início do PDF, não do trecho
+      expect(result.fieldProvenance.customerNumber.page).toBe(3);
+    });
+
+    it('should run OCR when the PDF has no text layer', async () => {
+      jest.spyOn(service as any, 'extractPdfText').mockResolvedValue(['   ']);
+      mockOcrService.recognizePdf.mockResolvedValue([cemigText]);
+
+      const result = await service.extractBillData(pdfData);
+
+      expect(mockOcrService.recognizePdf).toHaveBeenCalledWith(pdfData.fileBuffer);
+      expect(result.textSource).toBe(TextSource.OCR);
+      expect(result.customerNumber).toBe('7202210726');
+    });
+
+    it('should reject PDFs without text when OCR is disabled', async () => {
+      jest.spyOn(service as any, 'extractPdfText').mockResolvedValue(['']);
+      mockOcrService.isEnabled.mockReturnValueOnce(false);
+
+      await expect(service.extractBillData(pdfData)).rejects.toThrow(
+        'Arquivo PDF não contém texto extraível.',
+      );
+      expect(mockOcrService.recognizePdf).not.toHaveBeenCalled();
+    });
+  });
+
   describe('validateAndTransformData', () => {
     it('should validate and transform valid data correctly', () => {
       const rawData = {
@@ -108,6 +692,95 @@ describe('LlmService', () => {
       expect(result.electricEnergy.value).toBe(45.67);
     });
 
+    it('should normalize bill header metadata', () => {
+      const result = (service as any).validateAndTransformData({
+        ...mockExtractedData,
+        dueDate: '05/10/2024',
+        totalAmount: '107.38',
+        installationNumber: ' 3001116735 ',
+        distributor: 'cemig',
+        tariffSubgroup: 'b1',
+        readingPeriod: { startDate: '2024-08-05', endDate: '04/09/2024' },
+      });
+
+      expect(result.dueDate).toBe('2024-10-05');
+      expect(result.totalAmount).toBe(107.38);
+      expect(result.installationNumber).toBe('3001116735');
+      expect(result.distributor).toBe('CEMIG');
+      expect(result.tariffSubgroup).toBe('B1');
+      expect(result.readingPeriod).toEqual({ startDate: '2024-08-05', endDate: '2024-09-04' });
+      expect(result.tariffClass).toBeUndefined();
+    });
+
+    it('should keep only complete tax entries', () => {
+      const result = (service as any).validateAndTransformData({
+        ...mockExtractedData,
+        taxes: {
+          icms: { base: '1252.82', rate: 18, value: 225.51 },
+          pis: { base: 1252.82, rate: null, value: 10.9 },
+          cofins: null,
+        },
+      });
+
+      expect(result.taxes).toEqual({
+        icms: { base: 1252.82, rate: 18, value: 225.51 },
+      });
+    });
+
+    it('should omit taxes when none are readable', () => {
+      const result = (service as any).validateAndTransformData({
+        ...mockExtractedData,
+        taxes: { icms: { base: 'n/d', rate: 18, value: 225.51 } },
+      });
+
+      expect(result.taxes).toBeUndefined();
+    });
+
+    it('should normalize consumption history and drop unreadable months', () => {
+      const result = (service as any).validateAndTransformData({
+        ...mockExtractedData,
+        consumptionHistory: [
+          { month: 'ago/24', consumption: '512', days: 31 },
+          { month: 'JUL/2024', consumption: 480, days: null },
+          { month: '??/2024', consumption: 100, days: 30 },
+          { month: 'JUN/2024', consumption: null, days: 30 },
+        ],
+      });
+
+      expect(result.consumptionHistory).toEqual([
+        { month: 'AGO/2024', consumption: 512, days: 31 },
+        { month: 'JUL/2024', consumption: 480 },
+      ]);
+    });
+
+    it('should derive summary fields from categorized line items', () => {
+      const rawData = {
+        ...mockExtractedData,
+        electricEnergy: { quantity: 1, value: 1 },
+        lineItems: [
+          { description: 'Energia Elétrica', unit: 'kWh', quantity: 50, unitPrice: 0.9134, value: 45.67 },
+          { description: 'Energia SCEEE s/ICMS', unit: 'kWh', quantity: 476, unitPrice: 0.8246, value: 392.5 },
+          { description: 'Energia injetada HFP', unit: 'kWh', quantity: 300, unitPrice: 0.5, value: -150 },
+          { description: 'Multa', value: 5.1 },
+          { description: 'Contrib Ilum Publica Municipal', value: 23.45 },
+        ],
+      };
+
+      const result = (service as any).validateAndTransformData(rawData);
+
+      expect(result.electricEnergy).toEqual({ quantity: 50, value: 45.67 });
+      expect(result.publicLightingContrib).toBe(23.45);
+      expect(result.lineItems.map(item => item.category)).toEqual([
+        LineItemCategory.ELECTRIC_ENERGY,
+        LineItemCategory.SCEEE_ENERGY,
+        LineItemCategory.INJECTED_ENERGY,
+        LineItemCategory.FINE,
+        LineItemCategory.PUBLIC_LIGHTING,
+      ]);
+      // Categoria ausente nos itens: mantém o valor extraído diretamente
+      expect(result.compensatedEnergy).toEqual(mockExtractedData.compensatedEnergy);
+    });
+
     it('should throw error when customer number is missing', () => {
       const invalidData = {
         referenceMonth: 'SET/2024',
@@ -119,7 +792,7 @@ describe('LlmService', () => {
 
       expect(() => {
         (service as any).validateAndTransformData(invalidData);
-      }).toThrow(BadRequestException);
+      }).toThrow(ExtractionException);
     });
 
     it('should throw error when reference month is missing', () => {
@@ -133,7 +806,7 @@ describe('LlmService', () => {
 
       expect(() => {
         (service as any).validateAndTransformData(invalidData);
-      }).toThrow(BadRequestException);
+      }).toThrow(ExtractionException);
     });
 
     it('should throw error when electric energy data is incomplete', () => {
@@ -148,7 +821,7 @@ describe('LlmService', () => {
 
       expect(() => {
         (service as any).validateAndTransformData(invalidData);
-      }).toThrow(BadRequestException);
+      }).toThrow(ExtractionException);
     });
   });
 
@@ -174,15 +847,71 @@ describe('LlmService', () => {
     });
   });
 
-  describe('constructor', () => {
+  describe('createExtractionProvider', () => {
+    const configFrom = (values: Record<string, string>) =>
+      ({ get: jest.fn((key: string) => values[key]) }) as unknown as ConfigService;
+
     it('should throw error when OPENAI_API_KEY is not configured', () => {
-      const badConfigService = {
-        get: jest.fn(() => undefined),
-      };
+      expect(() => {
+        createExtractionProvider(configFrom({}));
+      }).toThrow('OPENAI_API_KEY não configurada');
+    });
+
+    it('should create the offline provider without an API key', () => {
+      const provider = createExtractionProvider(configFrom({ LLM_PROVIDER: 'offline' }));
+
+      expect(provider).toBeInstanceOf(OfflineExtractionProvider);
+      expect(provider.name).toBe('offline');
+    });
+
+    it('should create the local provider with per-provider settings', () => {
+      const provider = createExtractionProvider(
+        configFrom({
+          LLM_PROVIDER: 'local',
+          LOCAL_LLM_BASE_URL: 'http://localhost:11434/v1',
+          LOCAL_LLM_MODEL: 'qwen2.5',
+        }),
+      );
+
+      expect(provider).toBeInstanceOf(LocalHttpExtractionProvider);
+      expect(provider.model).toBe('qwen2.5');
+    });
+
+    it('should create the recorded provider in replay mode without source credentials', () => {
+      const provider = createExtractionProvider(
+        configFrom({ LLM_PROVIDER: 'recorded', RECORDED_LLM_DIR: '/tmp/recordings' }),
+      );
 
+      expect(provider).toBeInstanceOf(RecordedExtractionProvider);
+      expect(provider.name).toBe('recorded');
+    });
+
+    it('should require the source provider configuration when recording', () => {
       expect(() => {
-        new LlmService(badConfigService as any);
+        createExtractionProvider(
+          configFrom({ LLM_PROVIDER: 'recorded', RECORDED_LLM_DIR: '/tmp/recordings', RECORDED_LLM_MODE: 'record' }),
+        );
       }).toThrow('OPENAI_API_KEY não configurada');
     });
+
+    it('should reject unknown providers', () => {
+      expect(() => {
+        createExtractionProvider(configFrom({ LLM_PROVIDER: 'anthropic' }));
+      }).toThrow('LLM_PROVIDER inválido');
+    });
+  });
+
+  describe('OfflineExtractionProvider', () => {
+    it('should return a deterministic response that passes validation', async () => {
+      const provider = new OfflineExtractionProvider();
+
+      const first = await provider.complete();
+      const second = await provider.complete();
+
+      expect(first.content).toBe(second.content);
+      expect(() => (service as any).assertSchema(JSON.parse(first.content))).not.toThrow();
+      const result = (service as any).validateAndTransformData(JSON.parse(first.content));
+      expect(result).toEqual(mockExtractedData);
+    });
   });
-});
\ No newline at end of file
+});
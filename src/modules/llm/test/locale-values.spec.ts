@@ -0,0 +1,126 @@
+import {
+  normalizeLocaleValues,
+  parseBrazilianDate,
+  parseBrazilianNumber,
+} from '../schema/locale-values';
+
+describe('locale-values', () => {
+  describe('parseBrazilianNumber', () => {
+    it('should parse pt-BR separators and currency prefixes', () => {
+      expect(parseBrazilianNumber('1.234,56')).toBe(1234.56);
+      expect(parseBrazilianNumber('R$ 45,67')).toBe(45.67);
+      expect(parseBrazilianNumber('0,50854704')).toBe(0.50854704);
+      expect(parseBrazilianNumber('2.300')).toBe(2300);
+      expect(parseBrazilianNumber('1.234.567')).toBe(1234567);
+      expect(parseBrazilianNumber('1234.56')).toBe(1234.56);
+      expect(parseBrazilianNumber(12.5)).toBe(12.5);
+    });
+
+    it('should read a single dot group as thousands in quantities and values', () => {
+      expect(parseBrazilianNumber('1.250')).toBe(1250);
+      expect(parseBrazilianNumber('12.345')).toBe(12345);
+      expect(parseBrazilianNumber('0.745')).toBe(0.745);
+    });
+
+    it('should read a single dot as decimal separator in tariffs', () => {
+      expect(parseBrazilianNumber('0.745', true)).toBe(0.745);
+      expect(parseBrazilianNumber('12.345', true)).toBe(12.345);
+      expect(parseBrazilianNumber('0.91340000', true)).toBe(0.9134);
+      expect(parseBrazilianNumber('12.345,67', true)).toBe(12345.67);
+      expect(parseBrazilianNumber('1.234.567', true)).toBe(1234567);
+      expect(parseBrazilianNumber(0.745, true)).toBe(0.745);
+    });
+
+    it('should parse negative credits with trailing or leading sign', () => {
+      expect(parseBrazilianNumber('232,50-')).toBe(-232.5);
+      expect(parseBrazilianNumber('R$ -1.104,84')).toBe(-1104.84);
+      expect(parseBrazilianNumber('(12,30)')).toBe(-12.3);
+    });
+
+    it('should return null for unreadable values', () => {
+      expect(parseBrazilianNumber('50 kWh')).toBeNull();
+      expect(parseBrazilianNumber('1,2,3')).toBeNull();
+      expect(parseBrazilianNumber('')).toBeNull();
+      expect(parseBrazilianNumber(null)).toBeNull();
+    });
+  });
+
+  describe('parseBrazilianDate', () => {
+    it('should convert dd/mm/yyyy and keep ISO dates', () => {
+      expect(parseBrazilianDate('05/10/2024')).toBe('2024-10-05');
+      expect(parseBrazilianDate('2024-10-05T00:00:00.000Z')).toBe('2024-10-05');
+    });
+
+    it('should reject dates outside the calendar', () => {
+      expect(parseBrazilianDate('31/02/2024')).toBeNull();
+      expect(parseBrazilianDate('10/2024')).toBeNull();
+    });
+  });
+
+  describe('normalizeLocaleValues', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        totalAmount: { type: ['number', 'null'] },
+        dueDate: { type: ['string', 'null'] },
+        note: { type: 'string' },
+        lineItems: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              quantity: { type: 'number' },
+              unitPrice: { type: 'number' },
+              value: { type: 'number' },
+            },
+          },
+        },
+      },
+    };
+
+    it('should convert numeric and date fields in place', () => {
+      const data = {
+        totalAmount: 'R$ 1.234,56',
+        dueDate: '15/10/2024',
+        note: '1.234,56',
+        lineItems: [{ value: '10,00-' }],
+      };
+
+      expect(normalizeLocaleValues(schema, data, ['dueDate'])).toEqual([]);
+      expect(data).toEqual({
+        totalAmount: 1234.56,
+        dueDate: '2024-10-15',
+        note: '1.234,56',
+        lineItems: [{ value: -10 }],
+      });
+    });
+
+    it('should read a single dot as decimal only in the tariff fields', () => {
+      const data = {
+        totalAmount: '1.141',
+        lineItems: [{ quantity: '1.250', unitPrice: '0.913', value: '1.141' }],
+      };
+
+      expect(
+        normalizeLocaleValues(schema, data, [], ['lineItems.unitPrice']),
+      ).toEqual([]);
+      expect(data).toEqual({
+        totalAmount: 1141,
+        lineItems: [{ quantity: 1250, unitPrice: 0.913, value: 1141 }],
+      });
+
+      const tariff = { lineItems: [{ unitPrice: '12.345' }] };
+      normalizeLocaleValues(schema, tariff, [], ['lineItems.unitPrice']);
+      expect(tariff.lineItems[0].unitPrice).toBe(12.345);
+    });
+
+    it('should report the path of every unreadable field', () => {
+      const data = { totalAmount: 'n/d', lineItems: [{ value: 'abc' }] };
+
+      expect(normalizeLocaleValues(schema, data, ['dueDate'])).toEqual([
+        '$.totalAmount: número "n/d" em formato não reconhecido',
+        '$.lineItems[0].value: número "abc" em formato não reconhecido',
+      ]);
+    });
+  });
+});
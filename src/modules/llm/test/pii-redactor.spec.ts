@@ -0,0 +1,135 @@
+import 'reflect-metadata';
+import { createHash, createHmac } from 'node:crypto';
+import { PiiType } from '../dto/llm-extraction.dto';
+import { redactPii, restorePii } from '../redaction/pii-redactor';
+
+describe('pii-redactor', () => {
+  const hashKey = 'test-key';
+  const cemigText = `CEMIG DISTRIBUIÇÃO S.A. CNPJ 06.981.180/0001-16
+JOAO PEREIRA
+RUA DOS INCONFIDENTES 1234 AP 101
+30140-120 BELO HORIZONTE, MG
+CPF: 12345678909
+Nº DO CLIENTE             Nº DA INSTALAÇÃO
+   7202210726                3001116735
+Referente a               Vencimento              Valor a pagar (R$)
+   SET/2024                 05/10/2024              69,12
+83690000000 6 69120138000 1 72022107260 4 09202400000 9`;
+
+  it('should replace every occurrence of each personal identifier', () => {
+    const redaction = redactPii(
+      `${cemigText}\nCliente 7202210726 - contato joao@email.com (31) 99876-5432`,
+      hashKey,
+    );
+
+    expect(redaction.text).not.toMatch(
+      /7202210726|3001116735|12345678909|06\.981\.180|joao@email|99876-5432|INCONFIDENTES/,
+    );
+    expect(redaction.text).toContain(
+      'Nº DO CLIENTE             Nº DA INSTALAÇÃO\n   [CUSTOMER_NUMBER_1]                [INSTALLATION_NUMBER_1]',
+    );
+    expect(redaction.text).toContain('SET/2024');
+    expect(redaction.text).toContain('69,12');
+
+    const customer = redaction.entries.find(
+      entry => entry.type === PiiType.CUSTOMER_NUMBER,
+    );
+    expect(customer).toMatchObject({
+      placeholder: '[CUSTOMER_NUMBER_1]',
+      occurrences: 2,
+    });
+    expect(customer.valueHash).toHaveLength(64);
+    expect(redaction.entries.map(entry => entry.type)).toEqual(
+      expect.arrayContaining([
+        PiiType.NAME,
+        PiiType.BARCODE,
+        PiiType.CNPJ,
+        PiiType.CPF,
+        PiiType.ADDRESS,
+        PiiType.CEP,
+        PiiType.EMAIL,
+        PiiType.PHONE,
+        PiiType.INSTALLATION_NUMBER,
+      ]),
+    );
+  });
+
+  it('should mask the unlabelled holder name of the CEMIG header', () => {
+    // Cabeçalho como sai do pdf-parse: nome, endereço, bairro e CEP/cidade sem rótulos
+    const header = `CEMIG DISTRIBUIÇÃO S.A. CNPJ 06.981.180/0001-16 INSC. ESTADUAL 062.322136.0087
+   MARIA DAS GRAÇAS D'ÁVILA
+   AV AFONSO PENA 1500 AP 1201
+   FUNCIONARIOS
+   30130-005 BELO HORIZONTE, MG
+   CPF 123.456.789-09
+Nº DO CLIENTE             Nº DA INSTALAÇÃO
+   7202210726                3001116735
+Classe          Subclasse        Modalidade Tarifária
+Residencial     Residencial      Convencional B1`;
+
+    const redaction = redactPii(
+      `${header}\nTitular: MARIA DAS GRAÇAS D'ÁVILA`,
+      hashKey,
+    );
+
+    expect(redaction.text).not.toContain('MARIA');
+    expect(redaction.text).toContain(
+      '   [NAME_1]\n   [ADDRESS_1]\n   FUNCIONARIOS',
+    );
+    expect(redaction.text).toContain('Titular: [NAME_1]');
+    expect(redaction.text).toContain('CEMIG DISTRIBUIÇÃO S.A.');
+    expect(redaction.text).toContain(
+      'Residencial     Residencial      Convencional B1',
+    );
+    expect(redaction.values.get('[NAME_1]')).toBe("MARIA DAS GRAÇAS D'ÁVILA");
+  });
+
+  it('should hash masked values with the secret key', () => {
+    const { entries } = redactPii('CPF: 12345678909', hashKey);
+    const { entries: otherKey } = redactPii('CPF: 12345678909', 'other-key');
+
+    expect(entries[0].valueHash).toBe(
+      createHmac('sha256', hashKey).update('12345678909').digest('hex'),
+    );
+    expect(entries[0].valueHash).not.toBe(
+      createHash('sha256').update('12345678909').digest('hex'),
+    );
+    expect(otherKey[0].valueHash).not.toBe(entries[0].valueHash);
+  });
+
+  it('should not mask numbers that only contain a redacted value', () => {
+    const redaction = redactPii(
+      'Código do Cliente 123456\nLeitura 1234567 kWh',
+      hashKey,
+    );
+
+    expect(redaction.text).toBe(
+      'Código do Cliente [CUSTOMER_NUMBER_1]\nLeitura 1234567 kWh',
+    );
+  });
+
+  it('should restore placeholders in nested response values without mutating them', () => {
+    const { values } = redactPii(
+      'Nome: MARIA SOUZA\nSeu Código 40123456',
+      hashKey,
+    );
+    const response = {
+      customerNumber: '[CUSTOMER_NUMBER_1]',
+      evidence: {
+        customerNumber: { snippet: 'Seu Código [CUSTOMER_NUMBER_1]' },
+      },
+      lineItems: [{ description: 'Energia', value: 10 }],
+      unknown: '[CPF_9]',
+    };
+
+    const restored = restorePii(response, values);
+
+    expect(restored).toEqual({
+      customerNumber: '40123456',
+      evidence: { customerNumber: { snippet: 'Seu Código 40123456' } },
+      lineItems: [{ description: 'Energia', value: 10 }],
+      unknown: '[CPF_9]',
+    });
+    expect(response.customerNumber).toBe('[CUSTOMER_NUMBER_1]');
+  });
+});
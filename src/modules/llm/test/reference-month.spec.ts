@@ -0,0 +1,55 @@
+import {
+  buildReferencePeriodFilter,
+  formatReferencePeriod,
+  parseReferenceMonth,
+  toReferencePeriodColumns,
+} from '../extractors/reference-month';
+
+describe('reference-month', () => {
+  describe('parseReferenceMonth', () => {
+    it('should parse Portuguese abbreviations and ISO months', () => {
+      expect(parseReferenceMonth('SET/2024')).toEqual({ year: 2024, month: 9 });
+      expect(parseReferenceMonth('fev/24')).toEqual({ year: 2024, month: 2 });
+      expect(parseReferenceMonth('2024-12')).toEqual({ year: 2024, month: 12 });
+    });
+
+    it('should return null for unrecognized values', () => {
+      expect(parseReferenceMonth('2024-13')).toBeNull();
+      expect(parseReferenceMonth('SETEMBRO')).toBeNull();
+      expect(parseReferenceMonth(null)).toBeNull();
+    });
+  });
+
+  it('should convert between the text month and the normalized columns', () => {
+    expect(toReferencePeriodColumns('JAN/2025')).toEqual({
+      referenceYear: 2025,
+      referenceMonthNumber: 1,
+    });
+    expect(toReferencePeriodColumns('')).toEqual({
+      referenceYear: null,
+      referenceMonthNumber: null,
+    });
+    expect(formatReferencePeriod(2025, 1)).toBe('JAN/2025');
+  });
+
+  describe('buildReferencePeriodFilter', () => {
+    it('should cross year boundaries with inclusive limits', () => {
+      expect(
+        buildReferencePeriodFilter({ year: 2023, month: 11 }, null),
+      ).toEqual({
+        AND: [
+          {
+            OR: [
+              { referenceYear: { gt: 2023 } },
+              { referenceYear: 2023, referenceMonthNumber: { gte: 11 } },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should return an empty filter without limits', () => {
+      expect(buildReferencePeriodFilter()).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { ExtractionUsage } from '../providers/extraction-provider.interface';
+
+// Preço em US$ por 1 milhão de tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// Tabela padrão da OpenAI. Pode ser sobrescrita/estendida via LLM_PRICE_TABLE
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+};
+
+// Provedores sem custo por token (modelos locais, fixtures e extrator por regras)
+export const FREE_PROVIDERS = ['local', 'offline', 'rules'];
+
+// O modelo retornado pela API vem com sufixo de data (gpt-4o-2024-08-06):
+// usa a entrada de prefixo mais longo que casar
+export function findModelPrice(
+  table: PriceTable,
+  model: string,
+): ModelPrice | undefined {
+  const key = Object.keys(table)
+    .filter(name => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? table[key] : undefined;
+}
+
+export function calculateUsageCost(
+  usage: ExtractionUsage,
+  price: ModelPrice,
+): number {
+  const cost =
+    (usage.promptTokens * price.input + usage.completionTokens * price.output) /
+    1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
@@ -0,0 +1,138 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ExtractionUsage } from '../providers/extraction-provider.interface';
+import {
+  DEFAULT_PRICE_TABLE,
+  FREE_PROVIDERS,
+  PriceTable,
+  calculateUsageCost,
+  findModelPrice,
+} from './llm-pricing';
+import { formatReferenceMonth } from '../extractors/reference-month';
+
+export interface LlmBudgetStatus {
+  month: string; // Mês corrente (ex: OUT/2024)
+  budgetUsd: number | null; // null = sem limite
+  spentUsd: number;
+  remainingUsd: number | null;
+  exceeded: boolean;
+}
+
+// 402: o processamento só volta a ser aceito no mês seguinte ou com aumento do orçamento
+export class LlmBudgetExceededException extends HttpException {
+  constructor(status: LlmBudgetStatus) {
+    super(
+      {
+        statusCode: HttpStatus.PAYMENT_REQUIRED,
+        error: 'LLM Budget Exceeded',
+        message: `Orçamento mensal de LLM excedido em ${status.month}: US$ ${status.spentUsd.toFixed(2)} gastos de US$ ${status.budgetUsd.toFixed(2)}`,
+        budget: status,
+      },
+      HttpStatus.PAYMENT_REQUIRED,
+    );
+  }
+}
+
+@Injectable()
+export class LlmUsageService {
+  private readonly logger = new Logger(LlmUsageService.name);
+  private readonly priceTable: PriceTable;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {
+    this.priceTable = {
+      ...DEFAULT_PRICE_TABLE,
+      ...this.loadConfiguredPrices(),
+    };
+  }
+
+  // Custo em US$ de uma chamada. Respostas do cache não custam nada e modelos
+  // fora da tabela de preços ficam sem custo (null)
+  calculateCost(
+    provider: string,
+    model: string,
+    usage?: ExtractionUsage,
+    cached = false,
+  ): number | null {
+    if (cached || FREE_PROVIDERS.includes(provider)) {
+      return 0;
+    }
+    if (!usage) {
+      return null;
+    }
+
+    const price = findModelPrice(this.priceTable, model);
+    if (!price) {
+      this.logger.warn(
+        `Modelo ${model} sem preço configurado. Adicione-o em LLM_PRICE_TABLE`,
+      );
+      return null;
+    }
+    return calculateUsageCost(usage, price);
+  }
+
+  getMonthlyBudget(): number | null {
+    const budget = Number(
+      this.configService.get<string>('LLM_MONTHLY_BUDGET_USD'),
+    );
+    return budget > 0 ? budget : null;
+  }
+
+  async getBudgetStatus(
+    reference: Date = new Date(),
+  ): Promise<LlmBudgetStatus> {
+    const monthStart = new Date(
+      Date.UTC(reference.getUTCFullYear(), reference.getUTCMonth(), 1),
+    );
+    const { _sum } = await this.prisma.extractionRun.aggregate({
+      where: { createdAt: { gte: monthStart } },
+      _sum: { costUsd: true },
+    });
+
+    const budgetUsd = this.getMonthlyBudget();
+    const spentUsd = _sum.costUsd || 0;
+    return {
+      month: formatReferenceMonth(reference),
+      budgetUsd,
+      spentUsd,
+      remainingUsd:
+        budgetUsd === null ? null : Math.max(budgetUsd - spentUsd, 0),
+      exceeded: budgetUsd !== null && spentUsd >= budgetUsd,
+    };
+  }
+
+  // Chamado antes de aceitar novos uploads para falhar antes de qualquer processamento
+  async assertWithinBudget(): Promise<void> {
+    if (this.getMonthlyBudget() === null) {
+      return;
+    }
+
+    const status = await this.getBudgetStatus();
+    if (status.exceeded) {
+      this.logger.warn(
+        `Orçamento mensal de LLM excedido: US$ ${status.spentUsd} de US$ ${status.budgetUsd}`,
+      );
+      throw new LlmBudgetExceededException(status);
+    }
+  }
+
+  // LLM_PRICE_TABLE='{"gpt-4o":{"input":2.5,"output":10}}' (US$ por 1M tokens)
+  private loadConfiguredPrices(): PriceTable {
+    const raw = this.configService.get<string>('LLM_PRICE_TABLE');
+    if (!raw) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(raw);
+    } catch (error) {
+      this.logger.warn(
+        `LLM_PRICE_TABLE inválida, usando a tabela padrão: ${error.message}`,
+      );
+      return {};
+    }
+  }
+}
@@ -103,17 +103,17 @@ describe('Energy Bills API (e2e)', () => {
         .expect(400);
     });
 
-    it('should process PDF file successfully', () => {
+    it('should accept PDF file and queue it for processing', () => {
       const pdfBuffer = Buffer.from('%PDF-1.4 fake pdf content');
       
       return request(app.getHttpServer())
         .post('/bills/upload')
         .attach('file', pdfBuffer, 'test-bill.pdf')
-        .expect(200)
+        .expect(202)
         .expect((res) => {
           expect(res.body.success).toBe(true);
           expect(res.body.billId).toBeDefined();
-          expect(res.body.message).toBe('Fatura processada com sucesso');
+          expect(res.body.status).toBe('PENDING');
         });
     });
   });